@@ -0,0 +1,102 @@
+import { loadAvailabilityData } from '@/lib/slots'
+
+// Every awaited query is one round trip to the database, recorded with its table and calls
+interface RecordedQuery {
+  table: string
+  calls: [string, unknown[]][]
+}
+
+const mockRoundTrips: RecordedQuery[] = []
+const mockRows = new Map<string, unknown[]>()
+
+jest.mock('@/lib/supabase', () => ({
+  supabaseAdmin: { from: (table: string) => mockQuery(table) }
+}))
+
+// Helper function to stub a PostgREST query builder: filters chain, awaiting runs the query
+function mockQuery(table: string): unknown {
+  const query: RecordedQuery = { table, calls: [] }
+  const builder: unknown = new Proxy({}, {
+    get: (_target, method: string) => {
+      if (method !== 'then') {
+        return (...args: unknown[]) => {
+          query.calls.push([method, args])
+          return builder
+        }
+      }
+
+      return (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) => {
+        mockRoundTrips.push(query)
+        const rows = mockRows.get(table) ?? []
+        const range = query.calls.find(([name]) => name === 'range')?.[1] as [number, number] | undefined
+        const data = range ? rows.slice(range[0], range[1] + 1) : rows
+        return Promise.resolve({ data, error: null }).then(resolve, reject)
+      }
+    }
+  })
+  return builder
+}
+
+const ENTITY_ID = '00000000-0000-0000-0000-000000000001'
+
+// Helper function to make staff IDs with one weekly schedule block each
+function seedStaff(count: number): string[] {
+  const staffIds = Array.from({ length: count }, (_, index) => `staff-${index}`)
+  mockRows.set('weekly_schedules', staffIds.map((staffId, index) => ({
+    id: `schedule-${index}`,
+    staff_member_id: staffId,
+    day_of_week: 1,
+    start_time: '09:00',
+    end_time: '17:00',
+    is_available: true,
+    effective_from: '2024-01-01'
+  })))
+  return staffIds
+}
+
+// Helper function to load a week of availability and list the tables queried, in a stable order
+async function loadWeek(staffIds: string[]) {
+  mockRoundTrips.length = 0
+  const data = await loadAvailabilityData(ENTITY_ID, staffIds, '2024-06-03', '2024-06-09')
+  return { data, tables: mockRoundTrips.map(query => query.table).sort() }
+}
+
+describe('loadAvailabilityData', () => {
+  afterEach(() => {
+    mockRows.clear()
+  })
+
+  it('makes the same number of round trips for one staff member as for many', async () => {
+    const one = await loadWeek(seedStaff(1))
+    const many = await loadWeek(seedStaff(50))
+
+    expect(many.tables).toEqual(one.tables)
+    expect(many.data.queryCount).toBe(one.data.queryCount)
+    expect(many.data.schedulesByStaff.size).toBe(50)
+  })
+
+  it('reports every round trip in queryCount', async () => {
+    const { data, tables } = await loadWeek(seedStaff(10))
+
+    expect(data.queryCount).toBe(tables.length)
+  })
+
+  it('loads every staff member in one query per table', async () => {
+    const staffIds = seedStaff(20)
+    await loadWeek(staffIds)
+
+    const staffQueries = mockRoundTrips.filter(query => query.calls.some(([name, args]) => name === 'in' && args[0] === 'staff_member_id'))
+    expect(staffQueries.map(query => query.table).sort()).toEqual(['booking_participants', 'external_bookings', 'schedule_exceptions', 'weekly_schedules'])
+    for (const query of staffQueries) {
+      expect(query.calls).toContainEqual(['in', ['staff_member_id', staffIds]])
+    }
+  })
+
+  it('adds a round trip only per extra page of rows', async () => {
+    const small = await loadWeek(seedStaff(1))
+    const large = await loadWeek(seedStaff(1500))
+
+    expect(large.data.queryCount).toBe(small.data.queryCount + 1)
+    expect(large.data.schedulesByStaff.size).toBe(1500)
+  })
+})
@@ -0,0 +1,214 @@
+import { NextRequest } from 'next/server'
+import { Pool } from 'pg'
+import { POST } from '@/app/api/slots/book/route'
+import { planBooking, BookingPlan } from '@/lib/booking-requests'
+import { createBooking, NewBooking } from '@/lib/bookings'
+
+// Bookings go through the real create_external_booking and lock_booking_slot in the Postgres
+// started by jest.global-setup.js. Each call runs on its own connection, so simultaneous
+// requests only stay apart through the function's advisory locks.
+const mockPool = new Pool({ connectionString: process.env.TEST_DATABASE_URL, max: 12, idleTimeoutMillis: 0 })
+
+jest.mock('@/lib/supabase', () => ({
+  supabaseAdmin: {
+    rpc: (name: string, params: Record<string, unknown>) => mockRpc(name, params),
+    from: () => mockExternalIdLookup()
+  }
+}))
+jest.mock('@/lib/subscription', () => ({
+  validateRosterAccess: async () => ({ allowed: true })
+}))
+jest.mock('@/lib/booking-requests', () => ({
+  ...jest.requireActual('@/lib/booking-requests'),
+  planBooking: jest.fn()
+}))
+jest.mock('@/lib/waitlist', () => ({ acceptOfferForHold: async () => undefined }))
+jest.mock('@/lib/webhooks', () => ({ emitBookingEvent: () => undefined }))
+
+// Helper function to turn HH:MM into minutes since midnight
+function mockMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+// Calls the function as PostgREST would, with database errors in its { code, message } shape
+async function mockRpc(name: string, params: Record<string, unknown>) {
+  if (name !== 'create_external_booking') {
+    throw new Error(`Unexpected RPC ${name}`)
+  }
+
+  try {
+    const { rows } = await mockPool.query(
+      'SELECT * FROM create_external_booking($1::JSONB, $2::JSONB, $3::UUID[])',
+      [JSON.stringify(params.p_booking), JSON.stringify(params.p_participants), params.p_resource_ids]
+    )
+    return { data: rows[0], error: null }
+  } catch (error) {
+    const { code, message } = error as { code: string; message: string }
+    return { data: null, error: { code, message } }
+  }
+}
+
+// The route's early duplicate check reads committed bookings by external ID
+function mockExternalIdLookup() {
+  let externalId: unknown
+  const query = {
+    select: () => query,
+    eq: (_column: string, value: unknown) => {
+      externalId = value
+      return query
+    },
+    single: async () => {
+      const { rows } = await mockPool.query('SELECT id FROM external_bookings WHERE external_booking_id = $1', [externalId])
+      return rows.length === 1 ? { data: rows[0], error: null } : { data: null, error: { code: 'PGRST116' } }
+    }
+  }
+  return query
+}
+
+// Helper function to count the bookings that were stored
+async function storedBookings(): Promise<number> {
+  const { rows } = await mockPool.query('SELECT COUNT(*)::INTEGER AS count FROM external_bookings')
+  return rows[0].count
+}
+
+const ENTITY_ID = '6f1c2b0e-3d4a-4c5b-9e8f-1a2b3c4d5e6f'
+const STAFF_ID = '8a7b6c5d-4e3f-4a1b-8c2d-3e4f5a6b7c8d'
+const OTHER_STAFF_ID = '2d3e4f5a-6b7c-4d8e-9f0a-1b2c3d4e5f6a'
+
+// Helper function to build a booking for a staff member at a time
+function newBooking(externalId: string, bookingTime: string, bookingEndTime: string, staffId = STAFF_ID): NewBooking {
+  return {
+    entity_platform_id: ENTITY_ID,
+    staff_member_id: staffId,
+    external_booking_id: externalId,
+    source_service: 'hms',
+    booking_date: '2024-06-03',
+    booking_time: bookingTime,
+    booking_end_time: bookingEndTime,
+    duration_minutes: mockMinutes(bookingEndTime) - mockMinutes(bookingTime),
+    buffer_before_minutes: 0,
+    buffer_after_minutes: 0
+  }
+}
+
+beforeAll(async () => {
+  await mockPool.query(
+    `INSERT INTO staff_members (id, entity_platform_id, full_name, role_type)
+     VALUES ($1, $3, 'Dr. Patel', 'vet'), ($2, $3, 'Sam Lee', 'nurse')`,
+    [STAFF_ID, OTHER_STAFF_ID, ENTITY_ID]
+  )
+  // Open every connection up front, so simultaneous requests reach the database together
+  await Promise.all(Array.from({ length: 12 }, () => mockPool.query('SELECT 1')))
+})
+
+beforeEach(async () => {
+  await mockPool.query('TRUNCATE external_bookings CASCADE')
+})
+
+afterAll(async () => {
+  await mockPool.query('TRUNCATE staff_members CASCADE')
+  await mockPool.end()
+})
+
+describe('createBooking under concurrency', () => {
+  it('books exactly one of several simultaneous requests for the same time', async () => {
+    const results = await Promise.all(Array.from({ length: 10 }, (_, index) =>
+      createBooking(newBooking(`HMS-${index}`, '10:00', '10:30'))
+    ))
+
+    expect(results.filter(result => result.conflict === null)).toHaveLength(1)
+    expect(results.filter(result => result.conflict === 'Time slot conflicts with existing booking')).toHaveLength(9)
+    expect(await storedBookings()).toBe(1)
+  })
+
+  it('treats overlapping buffers as the same time', async () => {
+    const results = await Promise.all([
+      createBooking(newBooking('HMS-1', '10:00', '10:30')),
+      createBooking({ ...newBooking('HMS-2', '10:30', '11:00'), buffer_before_minutes: 10 })
+    ])
+
+    expect(results.filter(result => result.conflict === null)).toHaveLength(1)
+    expect(await storedBookings()).toBe(1)
+  })
+
+  it('lets simultaneous requests for different staff or times all succeed', async () => {
+    const results = await Promise.all([
+      createBooking(newBooking('HMS-1', '10:00', '10:30')),
+      createBooking(newBooking('HMS-2', '10:30', '11:00')),
+      createBooking(newBooking('HMS-3', '10:00', '10:30', OTHER_STAFF_ID))
+    ])
+
+    expect(results.every(result => result.conflict === null)).toBe(true)
+    expect(await storedBookings()).toBe(3)
+  })
+
+  it('lets a participant block the same time for their own bookings', async () => {
+    const results = await Promise.all([
+      createBooking(newBooking('HMS-1', '10:00', '10:30'), [{ staff_member_id: OTHER_STAFF_ID, role_type: 'nurse' }]),
+      createBooking(newBooking('HMS-2', '10:15', '10:45', OTHER_STAFF_ID))
+    ])
+
+    expect(results.filter(result => result.conflict === null)).toHaveLength(1)
+  })
+})
+
+describe('POST /api/slots/book under concurrency', () => {
+  // Every request passes the pre-checks, as they would when all arrive before any is booked
+  const plan: BookingPlan = {
+    staff: { id: STAFF_ID, full_name: 'Dr. Patel', role_type: 'vet', can_take_appointments: true },
+    participants: [],
+    appointmentType: null,
+    bookingTimes: { booking_time: '10:00', booking_end_time: '10:30', duration_minutes: 30, buffer_before_minutes: 0, buffer_after_minutes: 0 },
+    bookingWindow: { start: 600, end: 630 },
+    assignedResources: [],
+    overriddenRules: [],
+    timeZone: 'UTC',
+    startsAt: new Date('2024-06-03T10:00:00Z'),
+    endsAt: new Date('2024-06-03T10:30:00Z')
+  }
+
+  beforeEach(() => {
+    jest.mocked(planBooking).mockResolvedValue({ plan, rejection: null })
+  })
+
+  // Helper function to send a booking request to the route
+  function book(externalId: string, staffId = STAFF_ID) {
+    return POST(new NextRequest('http://localhost:6840/api/slots/book', {
+      method: 'POST',
+      body: JSON.stringify({
+        entity_platform_id: ENTITY_ID,
+        staff_member_id: staffId,
+        booking_date: '2024-06-03',
+        booking_time: '10:00',
+        booking_end_time: '10:30',
+        duration_minutes: 30,
+        external_booking_id: externalId,
+        source_service: 'hms'
+      })
+    }))
+  }
+
+  it('answers 201 to exactly one request and 409 booking_conflict to the rest', async () => {
+    const responses = await Promise.all(Array.from({ length: 8 }, (_, index) => book(`HMS-${index}`)))
+    const statuses = responses.map(response => response.status)
+
+    expect(statuses.filter(status => status === 201)).toHaveLength(1)
+    expect(statuses.filter(status => status === 409)).toHaveLength(7)
+
+    const conflicts = await Promise.all(responses.filter(response => response.status === 409).map(response => response.json()))
+    for (const body of conflicts) {
+      expect(body).toEqual({ error: 'Time slot conflicts with existing booking', code: 'booking_conflict' })
+    }
+    expect(await storedBookings()).toBe(1)
+  })
+
+  it('answers 409 duplicate_booking when one external ID is sent for two staff members at once', async () => {
+    const responses = await Promise.all([book('HMS-1'), book('HMS-1', OTHER_STAFF_ID)])
+
+    expect(responses.map(response => response.status).sort()).toEqual([201, 409])
+    const conflict = responses.find(response => response.status === 409)!
+    expect(await conflict.json()).toEqual({ error: 'Booking with this external ID already exists', code: 'duplicate_booking' })
+    expect(await storedBookings()).toBe(1)
+  })
+})
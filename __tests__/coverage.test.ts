@@ -0,0 +1,94 @@
+import { buildCoverageReport, CoverageRequirement } from '@/lib/coverage'
+import { loadAvailabilityData, AvailabilityData } from '@/lib/slots'
+
+const mockVets = [
+  { id: 'vet-1', full_name: 'Dr. Patel', role_type: 'vet' },
+  { id: 'vet-2', full_name: 'Dr. Okafor', role_type: 'vet' }
+]
+
+// Only the staff query reaches the database; schedules come from loadAvailabilityData
+jest.mock('@/lib/supabase', () => {
+  const query = {
+    select: () => query,
+    eq: () => query,
+    in: () => query,
+    order: () => query,
+    range: async () => ({ data: mockVets, error: null })
+  }
+  return { supabaseAdmin: { from: () => query } }
+})
+jest.mock('@/lib/slots', () => ({
+  ...jest.requireActual('@/lib/slots'),
+  loadAvailabilityData: jest.fn()
+}))
+
+const MONDAY = '2024-06-03'
+const TUESDAY = '2024-06-04'
+
+// Exactly one vet on duty from Monday 22:00 to Tuesday 06:00
+const nightBand: CoverageRequirement = {
+  id: 'requirement-1',
+  entity_platform_id: 'entity-1',
+  role_type: 'vet',
+  day_of_week: 1,
+  start_time: '22:00',
+  end_time: '06:00',
+  min_staff: 1,
+  max_staff: 1,
+  is_active: true,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z'
+}
+
+// Helper function to give each vet one Monday block
+function mondayShifts(...shifts: [string, string, string][]): AvailabilityData {
+  return {
+    schedulesByStaff: new Map(shifts.map(([staffId, startTime, endTime]) => [staffId, [{
+      staff_member_id: staffId,
+      day_of_week: 1,
+      start_time: startTime,
+      end_time: endTime,
+      is_available: true,
+      effective_from: '2024-01-01',
+      slot_duration_minutes: 30
+    }]])),
+    exceptionsByStaffDate: new Map(),
+    bookingsByStaffDate: new Map(),
+    holdsByStaffDate: new Map(),
+    closuresByDate: new Map(),
+    overbookingPolicies: new Map(),
+    queryCount: 0
+  }
+}
+
+describe('buildCoverageReport with an overnight band', () => {
+  it('checks the band up to midnight on its own date and the rest on the next date', async () => {
+    jest.mocked(loadAvailabilityData).mockResolvedValue(mondayShifts(['vet-1', '20:00', '04:00'], ['vet-2', '22:00', '02:00']))
+
+    const report = await buildCoverageReport('entity-1', [nightBand], [MONDAY, TUESDAY])
+
+    expect(report.intervals.map(({ date, start_time, end_time, shift_date, on_duty, status }) =>
+      ({ date, start_time, end_time, shift_date, on_duty, status })
+    )).toEqual([
+      { date: MONDAY, start_time: '22:00', end_time: '24:00', shift_date: MONDAY, on_duty: 2, status: 'overstaffed' },
+      { date: TUESDAY, start_time: '00:00', end_time: '02:00', shift_date: MONDAY, on_duty: 2, status: 'overstaffed' },
+      { date: TUESDAY, start_time: '04:00', end_time: '06:00', shift_date: MONDAY, on_duty: 0, status: 'understaffed' }
+    ])
+    expect(report.summary).toEqual({ understaffed: 1, overstaffed: 2, understaffed_minutes: 120, overstaffed_minutes: 240 })
+  })
+
+  it('checks the after-midnight part of a band that started the day before the range', async () => {
+    jest.mocked(loadAvailabilityData).mockResolvedValue(mondayShifts(['vet-1', '20:00', '04:00']))
+
+    const report = await buildCoverageReport('entity-1', [nightBand], [TUESDAY])
+
+    expect(report.intervals).toEqual([expect.objectContaining({
+      date: TUESDAY,
+      start_time: '04:00',
+      end_time: '06:00',
+      shift_date: MONDAY,
+      on_duty: 0,
+      shortfall: 1
+    })])
+  })
+})
@@ -0,0 +1,79 @@
+import { getBookingWindow } from '@/lib/availability'
+import { checkStaffCapacity, checkWorkingHours, generateSlotsForStaff, AvailabilityData, BookingRow } from '@/lib/slots'
+
+jest.mock('@/lib/supabase', () => ({ supabaseAdmin: {} }))
+
+const STAFF = { id: 'staff-1', full_name: 'Dr. Patel', role_type: 'vet' }
+const MONDAY = '2024-06-03'
+const TUESDAY = '2024-06-04'
+
+// Helper function to give the staff member one Monday night shift, 20:00-08:00, and the given bookings
+function nightShift(bookings: BookingRow[] = []): AvailabilityData {
+  return {
+    schedulesByStaff: new Map([[STAFF.id, [{
+      staff_member_id: STAFF.id,
+      day_of_week: 1,
+      start_time: '20:00',
+      end_time: '08:00',
+      is_available: true,
+      effective_from: '2024-01-01',
+      slot_duration_minutes: 30
+    }]]]),
+    exceptionsByStaffDate: new Map(),
+    bookingsByStaffDate: new Map(bookings.map(booking => [`${booking.staff_member_id}|${booking.booking_date}`, [booking]])),
+    holdsByStaffDate: new Map(),
+    closuresByDate: new Map(),
+    overbookingPolicies: new Map(),
+    queryCount: 0
+  }
+}
+
+// A Monday booking that runs past midnight, with clean-up time after it
+const lateBooking: BookingRow = {
+  id: 'booking-1',
+  staff_member_id: STAFF.id,
+  booking_date: MONDAY,
+  booking_time: '23:30',
+  booking_end_time: '00:30',
+  buffer_before_minutes: 0,
+  buffer_after_minutes: 15
+}
+
+describe('bookings across midnight', () => {
+  it('ends a booking whose end time is before its start time on the next day', () => {
+    expect(getBookingWindow(lateBooking)).toEqual({ start: 23 * 60 + 30, end: 24 * 60 + 45 })
+  })
+
+  it('offers slots that run past midnight on a night shift', () => {
+    const slots = generateSlotsForStaff(STAFF, MONDAY, { duration: 60 }, 'UTC', nightShift())
+
+    // Later starts belong to Tuesday's slots
+    expect(slots[slots.length - 1]).toMatchObject({
+      start_time: '2024-06-03T23:30:00+00:00',
+      end_time: '2024-06-04T00:30:00+00:00',
+      is_available: true
+    })
+
+    const tuesday = generateSlotsForStaff(STAFF, TUESDAY, { duration: 60 }, 'UTC', nightShift())
+    expect(tuesday[0].start_time).toBe('2024-06-04T00:00:00+00:00')
+    expect(tuesday[tuesday.length - 1].end_time).toBe('2024-06-04T08:00:00+00:00')
+  })
+
+  it('keeps the staff member busy the next day for the rest of the booking and its buffer', () => {
+    const data = nightShift([lateBooking])
+
+    expect(checkStaffCapacity(STAFF, TUESDAY, { start: 30, end: 60 }, data).code).toBe('booking_conflict')
+    expect(checkStaffCapacity(STAFF, TUESDAY, { start: 45, end: 75 }, data).code).toBeNull()
+
+    const slots = generateSlotsForStaff(STAFF, TUESDAY, { duration: 30 }, 'UTC', data)
+    expect(slots.find(slot => slot.start_time === '2024-06-04T00:30:00+00:00')?.unavailable_reason).toBe('Already booked')
+  })
+
+  it('lets a booking just after midnight use the shift that started the night before for its buffer', () => {
+    const data = nightShift()
+
+    expect(checkWorkingHours(STAFF.id, TUESDAY, { start: -15, end: 30 }, data)).toBeNull()
+    expect(checkWorkingHours(STAFF.id, MONDAY, { start: 23 * 60 + 30, end: 24 * 60 + 30 }, data)).toBeNull()
+    expect(checkWorkingHours(STAFF.id, TUESDAY, { start: 7 * 60 + 30, end: 8 * 60 + 30 }, data)?.code).toBe('outside_working_hours')
+  })
+})
@@ -0,0 +1,56 @@
+import { expandRecurrence, parseRecurrenceRule, MAX_SERIES_OCCURRENCES, RecurrenceRule } from '@/lib/recurrence'
+
+// Helper function to parse a rule the test expects to be valid
+function parse(rule: string): RecurrenceRule {
+  const parsed = parseRecurrenceRule(rule)
+  if (parsed.error !== null) {
+    throw new Error(parsed.error)
+  }
+  return parsed.rule
+}
+
+describe('expandRecurrence', () => {
+  it('stops a weekly BYDAY rule after COUNT occurrences, skipping listed days before the start', () => {
+    // 2024-06-05 is a Wednesday, so that week's Monday is left out
+    expect(expandRecurrence(parse('RRULE:FREQ=WEEKLY;BYDAY=TH,MO;COUNT=5'), '2024-06-05')).toEqual([
+      '2024-06-06',
+      '2024-06-10',
+      '2024-06-13',
+      '2024-06-17',
+      '2024-06-20'
+    ])
+  })
+
+  it('includes the UNTIL date and repeats every INTERVAL weeks', () => {
+    expect(expandRecurrence(parse('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU;UNTIL=20240702T235959Z'), '2024-06-04')).toEqual([
+      '2024-06-04',
+      '2024-06-18',
+      '2024-07-02'
+    ])
+  })
+
+  it('repeats a weekly rule without BYDAY on the start date\'s weekday', () => {
+    expect(expandRecurrence(parse('FREQ=WEEKLY;UNTIL=20240620'), '2024-06-06')).toEqual(['2024-06-06', '2024-06-13', '2024-06-20'])
+  })
+
+  it('skips months without the start date\'s day', () => {
+    expect(expandRecurrence(parse('FREQ=MONTHLY;COUNT=3'), '2024-01-31')).toEqual(['2024-01-31', '2024-03-31', '2024-05-31'])
+  })
+
+  it('returns one date more than the limit for an UNTIL rule that runs too long', () => {
+    expect(expandRecurrence(parse('FREQ=DAILY;UNTIL=20251231'), '2024-06-01')).toHaveLength(MAX_SERIES_OCCURRENCES + 1)
+  })
+})
+
+describe('parseRecurrenceRule', () => {
+  it.each([
+    ['FREQ=WEEKLY;COUNT=4;UNTIL=20241231', 'Exactly one of COUNT or UNTIL is required'],
+    ['FREQ=WEEKLY', 'Exactly one of COUNT or UNTIL is required'],
+    ['FREQ=DAILY;BYDAY=MO;COUNT=4', 'BYDAY is only supported with FREQ=WEEKLY'],
+    ['FREQ=WEEKLY;BYDAY=XX;COUNT=4', 'BYDAY must list weekdays as MO, TU, WE, TH, FR, SA or SU'],
+    [`FREQ=DAILY;COUNT=${MAX_SERIES_OCCURRENCES + 1}`, `COUNT must be between 1 and ${MAX_SERIES_OCCURRENCES}`],
+    ['FREQ=YEARLY;COUNT=2', 'FREQ must be DAILY, WEEKLY or MONTHLY']
+  ])('rejects %s', (rule, error) => {
+    expect(parseRecurrenceRule(rule)).toEqual({ rule: null, error })
+  })
+})
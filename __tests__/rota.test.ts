@@ -0,0 +1,49 @@
+import { appliesInCycleWeek, getCycleWeek, RotaCycle } from '@/lib/rota'
+
+jest.mock('@/lib/supabase', () => ({ supabaseAdmin: {} }))
+
+// Three-week rota whose week 1 starts on Monday 2025-03-03
+const CYCLE: RotaCycle = { cycle_weeks: 3, anchor_date: '2025-03-03' }
+
+describe('getCycleWeek', () => {
+  it.each([
+    ['2025-03-03', 1],
+    ['2025-03-09', 1],
+    ['2025-03-10', 2],
+    ['2025-03-17', 3],
+    ['2025-03-24', 1],
+    ['2025-06-02', 2]
+  ])('puts %s, on or after the anchor, in week %i', (date, week) => {
+    expect(getCycleWeek(CYCLE, date)).toBe(week)
+  })
+
+  it.each([
+    ['2025-03-02', 3],
+    ['2025-02-24', 3],
+    ['2025-02-23', 2],
+    ['2025-02-17', 2],
+    ['2025-02-10', 1],
+    ['2024-12-30', 1]
+  ])('counts %s, before the anchor, backwards into week %i', (date, week) => {
+    expect(getCycleWeek(CYCLE, date)).toBe(week)
+  })
+})
+
+describe('appliesInCycleWeek', () => {
+  const weekTwoBlock = { rota_pattern_id: 'pattern-1', cycle_week: 2, rota_pattern: CYCLE }
+
+  it('applies a rota block only in its own week, either side of the anchor', () => {
+    expect(appliesInCycleWeek(weekTwoBlock, '2025-03-11')).toBe(true)
+    expect(appliesInCycleWeek(weekTwoBlock, '2025-02-18')).toBe(true)
+    expect(appliesInCycleWeek(weekTwoBlock, '2025-03-04')).toBe(false)
+    expect(appliesInCycleWeek(weekTwoBlock, '2025-02-25')).toBe(false)
+  })
+
+  it('applies blocks without a rota pattern every week', () => {
+    expect(appliesInCycleWeek({ rota_pattern_id: null, cycle_week: null }, '2025-02-25')).toBe(true)
+  })
+
+  it('never applies a rota block whose pattern was not loaded with it', () => {
+    expect(appliesInCycleWeek({ rota_pattern_id: 'pattern-1', cycle_week: 2 }, '2025-03-11')).toBe(false)
+  })
+})
@@ -0,0 +1,160 @@
+import { NextRequest } from 'next/server'
+import { POST } from '@/app/api/schedules/route'
+import { generateSlotsForStaff, AvailabilityData } from '@/lib/slots'
+import { addDays } from '@/lib/recurrence'
+import { ScheduleBlock, WeeklySchedule } from '@/lib/schedules'
+
+// In-memory weekly_schedules table with the filters the schedule routes use, and a stand-in
+// for supersede_weekly_schedules that ends or cancels the old rows and inserts the new version
+const ENTITY_ID = '6f1c2b9e-3d4a-4c5b-8e7f-9a0b1c2d3e4f'
+const STAFF = { id: '0d8e7f6a-5b4c-4d3e-9f2a-1b0c9d8e7f6a', full_name: 'Dr. Patel', role_type: 'vet' }
+const MONDAY = '2024-06-03'
+
+const mockSchedules: WeeklySchedule[] = []
+
+jest.mock('@/lib/supabase', () => ({
+  supabaseAdmin: {
+    from: (table: string) => mockQuery(table),
+    rpc: async (name: string, params: Record<string, unknown>) => mockRpc(name, params)
+  }
+}))
+jest.mock('@/lib/subscription', () => ({
+  validateRosterAccess: async () => ({ allowed: true })
+}))
+jest.mock('@/lib/waitlist', () => ({ scheduleWaitlistMatch: () => undefined }))
+jest.mock('@/lib/webhooks', () => ({ emitWebhookEvent: () => undefined }))
+
+// Helper function to store a row the way the date columns would
+function mockStore(block: Partial<WeeklySchedule>): WeeklySchedule {
+  const row = {
+    slot_interval_minutes: null,
+    effective_until: null,
+    is_active: true,
+    previous_version_id: null,
+    change_reason: null,
+    end_reason: null,
+    rota_pattern_id: null,
+    cycle_week: null,
+    ...block,
+    id: `schedule-${mockSchedules.length + 1}`,
+    effective_from: block.effective_from!.slice(0, 10),
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z'
+  } as WeeklySchedule
+  if (row.effective_until) {
+    row.effective_until = row.effective_until.slice(0, 10)
+  }
+  mockSchedules.push(row)
+  return row
+}
+
+function mockQuery(table: string) {
+  if (table === 'staff_members') {
+    const staff = { ...STAFF, entity_platform_id: ENTITY_ID, employee_id: 'E-1' }
+    const query = { select: () => query, eq: () => query, single: async () => ({ data: staff, error: null }) }
+    return query
+  }
+  if (table !== 'weekly_schedules') {
+    throw new Error(`Unexpected table ${table}`)
+  }
+
+  const filters: ((row: WeeklySchedule) => boolean)[] = []
+  const field = (row: WeeklySchedule, column: string) => (row as unknown as Record<string, unknown>)[column]
+  const rows = () => mockSchedules.filter(row => filters.every(filter => filter(row)))
+  const query = {
+    select: () => query,
+    order: () => query,
+    eq: (column: string, value: unknown) => { filters.push(row => field(row, column) === value); return query },
+    in: (column: string, values: unknown[]) => { filters.push(row => values.includes(field(row, column))); return query },
+    lte: (column: string, value: string) => { filters.push(row => String(field(row, column)) <= value); return query },
+    // Only the "still in effect on a date" filter is used
+    or: (expression: string) => {
+      const date = expression.split('effective_until.gte.')[1]
+      filters.push(row => row.effective_until === null || row.effective_until >= date)
+      return query
+    },
+    insert: (blocks: Partial<WeeklySchedule>[]) => {
+      const created = blocks.map(mockStore)
+      return { select: () => ({ single: async () => ({ data: created[0], error: null }) }) }
+    },
+    then: (resolve: (result: { data: WeeklySchedule[]; error: null }) => void) => resolve({ data: rows(), error: null })
+  }
+  return query
+}
+
+async function mockRpc(name: string, params: Record<string, unknown>) {
+  if (name !== 'supersede_weekly_schedules') {
+    throw new Error(`Unexpected RPC ${name}`)
+  }
+
+  const effectiveDate = params.p_effective_date as string
+  for (const row of mockSchedules.filter(row => (params.p_schedule_ids as string[]).includes(row.id))) {
+    if (row.effective_from >= effectiveDate) {
+      row.is_active = false
+    } else {
+      row.effective_until = addDays(effectiveDate, -1)
+    }
+  }
+  const created = (params.p_blocks as ScheduleBlock[]).map(block => mockStore({ ...block, effective_from: effectiveDate }))
+  return { data: created, error: null }
+}
+
+// Helper function to add a Monday block through the API
+async function addBlock(startTime: string, endTime: string, effectiveFrom: string) {
+  const response = await POST(new NextRequest('http://localhost/api/schedules', {
+    method: 'POST',
+    body: JSON.stringify({
+      entity_platform_id: ENTITY_ID,
+      staff_member_id: STAFF.id,
+      day_of_week: 1,
+      start_time: startTime,
+      end_time: endTime,
+      effective_from: `${effectiveFrom}T00:00:00Z`,
+      slot_duration_minutes: 60
+    })
+  }))
+  return { status: response.status, body: await response.json() }
+}
+
+// Helper function to compute slots from the stored rows, as slot search would load them
+function availableStarts(date: string): string[] {
+  const data: AvailabilityData = {
+    schedulesByStaff: new Map([[STAFF.id, mockSchedules.filter(row => row.is_active)]]),
+    exceptionsByStaffDate: new Map(),
+    bookingsByStaffDate: new Map(),
+    holdsByStaffDate: new Map(),
+    closuresByDate: new Map(),
+    overbookingPolicies: new Map(),
+    queryCount: 0
+  }
+  return generateSlotsForStaff(STAFF, date, { duration: 60 }, 'UTC', data)
+    .filter(slot => slot.is_available)
+    .map(slot => slot.start_time.slice(11, 16))
+}
+
+beforeEach(() => {
+  mockSchedules.length = 0
+})
+
+describe('POST /api/schedules with a later effective_from', () => {
+  it('keeps the day\'s earlier blocks alongside the new one', async () => {
+    expect((await addBlock('09:00', '11:00', '2024-01-01')).status).toBe(201)
+    const { status, body } = await addBlock('14:00', '16:00', '2024-05-01')
+
+    expect(status).toBe(201)
+    expect(body.day_schedules).toHaveLength(2)
+    expect(availableStarts(MONDAY)).toEqual(['09:00', '10:00', '14:00', '15:00'])
+
+    // Before the new block takes effect only the original one applies
+    expect(availableStarts('2024-04-29')).toEqual(['09:00', '10:00'])
+  })
+
+  it('refuses a block that a later version of the day would hide', async () => {
+    await addBlock('09:00', '11:00', '2024-05-01')
+    const { status, body } = await addBlock('14:00', '16:00', '2024-01-01')
+
+    expect(status).toBe(409)
+    expect(body.superseded_on).toBe('2024-05-01')
+    expect(availableStarts(MONDAY)).toEqual(['09:00', '10:00'])
+  })
+})
@@ -0,0 +1,62 @@
+import { formatInTimezone, getTimezoneOffset, zonedTimeToUtc } from '@/lib/timezone'
+import { generateSlotsForStaff, AvailabilityData } from '@/lib/slots'
+
+jest.mock('@/lib/supabase', () => ({ supabaseAdmin: {} }))
+
+const LONDON = 'Europe/London'
+const STAFF = { id: 'staff-1', full_name: 'Dr. Patel', role_type: 'vet' }
+
+// Clocks go forward from 01:00 to 02:00 on this Sunday, and back from 02:00 to 01:00 on this one
+const SPRING_FORWARD = '2024-03-31'
+const FALL_BACK = '2024-10-27'
+
+// Helper function to give the staff member one Sunday block, 00:00-04:00
+function earlySundayShift(): AvailabilityData {
+  return {
+    schedulesByStaff: new Map([[STAFF.id, [{
+      staff_member_id: STAFF.id,
+      day_of_week: 0,
+      start_time: '00:00',
+      end_time: '04:00',
+      is_available: true,
+      effective_from: '2024-01-01',
+      slot_duration_minutes: 60
+    }]]]),
+    exceptionsByStaffDate: new Map(),
+    bookingsByStaffDate: new Map(),
+    holdsByStaffDate: new Map(),
+    closuresByDate: new Map(),
+    overbookingPolicies: new Map(),
+    queryCount: 0
+  }
+}
+
+describe('daylight saving transitions', () => {
+  it('maps wall-clock times either side of the spring-forward gap to their own offsets', () => {
+    expect(zonedTimeToUtc(SPRING_FORWARD, 30, LONDON)?.toISOString()).toBe('2024-03-31T00:30:00.000Z')
+    expect(zonedTimeToUtc(SPRING_FORWARD, 150, LONDON)?.toISOString()).toBe('2024-03-31T01:30:00.000Z')
+    expect(getTimezoneOffset(new Date('2024-03-31T00:59:00Z'), LONDON)).toBe(0)
+    expect(getTimezoneOffset(new Date('2024-03-31T01:00:00Z'), LONDON)).toBe(60)
+  })
+
+  it('returns null for a wall-clock time that the clocks skip', () => {
+    expect(zonedTimeToUtc(SPRING_FORWARD, 60, LONDON)).toBeNull()
+    expect(zonedTimeToUtc(SPRING_FORWARD, 90, LONDON)).toBeNull()
+  })
+
+  it('resolves a wall-clock time that happens twice to its second occurrence', () => {
+    const instant = zonedTimeToUtc(FALL_BACK, 90, LONDON)!
+    expect(instant.toISOString()).toBe('2024-10-27T01:30:00.000Z')
+    expect(formatInTimezone(instant, LONDON)).toBe('2024-10-27T01:30:00+00:00')
+  })
+
+  it('offers no slot that starts or ends in the skipped hour and labels the rest with their own offset', () => {
+    const slots = generateSlotsForStaff(STAFF, SPRING_FORWARD, { duration: 60 }, LONDON, earlySundayShift())
+
+    // 00:00-01:00 ends at 01:00 and 01:00-02:00 starts there, a time the clocks skip
+    expect(slots.map(slot => slot.start_time)).toEqual([
+      '2024-03-31T02:00:00+01:00',
+      '2024-03-31T03:00:00+01:00'
+    ])
+  })
+})
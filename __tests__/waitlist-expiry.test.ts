@@ -0,0 +1,83 @@
+import { after, NextRequest } from 'next/server'
+import { GET } from '@/app/api/waitlist/offers/route'
+
+// In-memory waitlist tables with the filters expiry and the offer list use
+const mockTables: Record<string, Record<string, unknown>[]> = {}
+
+jest.mock('next/server', () => ({
+  ...jest.requireActual('next/server'),
+  after: jest.fn()
+}))
+jest.mock('@/lib/supabase', () => ({
+  supabaseAdmin: { from: (table: string) => mockQuery(table) }
+}))
+jest.mock('@/lib/subscription', () => ({
+  validateRosterAccess: async () => ({ allowed: true })
+}))
+
+function mockQuery(table: string) {
+  const filters: ((row: Record<string, unknown>) => boolean)[] = []
+  let changes: Record<string, unknown> | null = null
+  const run = () => {
+    const rows = mockTables[table].filter(row => filters.every(filter => filter(row)))
+    if (changes) {
+      rows.forEach(row => Object.assign(row, changes))
+    }
+    return { data: rows.map(row => ({ ...row })), error: null }
+  }
+  const query = {
+    select: () => query,
+    order: () => query,
+    update: (update: Record<string, unknown>) => { changes = update; return query },
+    eq: (column: string, value: unknown) => { filters.push(row => row[column] === value); return query },
+    in: (column: string, values: unknown[]) => { filters.push(row => values.includes(row[column])); return query },
+    lte: (column: string, value: string) => { filters.push(row => String(row[column]) <= value); return query },
+    then: (resolve: (result: ReturnType<typeof run>) => void) => resolve(run())
+  }
+  return query
+}
+
+const ENTITY_ID = 'entity-1'
+
+// Helper function to add an entry with a pending offer that expires at the given time
+function offeredEntry(id: string, expiresAt: string) {
+  mockTables.waitlist_entries.push({ id, entity_platform_id: ENTITY_ID, status: 'offered' })
+  mockTables.waitlist_offers.push({
+    id: `offer-${id}`,
+    entity_platform_id: ENTITY_ID,
+    waitlist_entry_id: id,
+    status: 'pending',
+    expires_at: expiresAt
+  })
+}
+
+beforeEach(() => {
+  mockTables.waitlist_entries = []
+  mockTables.waitlist_offers = []
+  jest.mocked(after).mockClear()
+})
+
+describe('GET /api/waitlist/offers', () => {
+  it('expires lapsed offers before listing them and matches their entries again', async () => {
+    offeredEntry('lapsed', new Date(Date.now() - 60000).toISOString())
+    offeredEntry('current', new Date(Date.now() + 600000).toISOString())
+
+    const response = await GET(new NextRequest(`http://localhost/api/waitlist/offers?entity_id=${ENTITY_ID}`))
+    const body = await response.json()
+
+    expect(body.data.map((offer: { id: string; status: string }) => [offer.id, offer.status])).toEqual([
+      ['offer-lapsed', 'expired'],
+      ['offer-current', 'pending']
+    ])
+    expect(mockTables.waitlist_entries.map(entry => entry.status)).toEqual(['waiting', 'offered'])
+    expect(after).toHaveBeenCalledTimes(1)
+  })
+
+  it('schedules no match when nothing lapsed', async () => {
+    offeredEntry('current', new Date(Date.now() + 600000).toISOString())
+
+    await GET(new NextRequest(`http://localhost/api/waitlist/offers?entity_id=${ENTITY_ID}`))
+
+    expect(after).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,111 @@
+import { createHmac } from 'crypto'
+import { emitWebhookEvent, pingSubscription, signWebhookPayload, WebhookSubscription } from '@/lib/webhooks'
+
+// The delivery log only has to hand rows back the way PostgREST would. The one due retry is
+// the only pending delivery, and no subscription listens for new events
+const mockDueDeliveries: Record<string, unknown>[] = []
+const mockAfterTasks: (() => Promise<void>)[] = []
+
+jest.mock('next/server', () => ({
+  ...jest.requireActual('next/server'),
+  after: (task: () => Promise<void>) => mockAfterTasks.push(task)
+}))
+jest.mock('@/lib/supabase', () => ({
+  supabaseAdmin: { from: (table: string) => mockQuery(table) }
+}))
+
+function mockQuery(table: string) {
+  let rows: Record<string, unknown>[] | null = null
+  let changes: Record<string, unknown> | null = null
+  const result = () => {
+    if (rows) {
+      return { data: rows.map((row, index) => ({ ...row, id: `delivery-${index + 1}`, attempt_count: 0 })), error: null }
+    }
+    if (changes) {
+      return { data: [{ id: 'claimed' }], error: null }
+    }
+    return { data: table === 'webhook_deliveries' ? mockDueDeliveries : [], error: null }
+  }
+  const query = {
+    select: () => query,
+    eq: () => query,
+    lte: () => query,
+    order: () => query,
+    limit: () => query,
+    contains: () => query,
+    overrideTypes: () => query,
+    insert: (inserted: Record<string, unknown>[]) => { rows = inserted; return query },
+    update: (update: Record<string, unknown>) => { changes = update; return query },
+    single: async () => ({ data: changes, error: null }),
+    then: (resolve: (value: ReturnType<typeof result>) => void) => resolve(result())
+  }
+  return query
+}
+
+const subscription: WebhookSubscription = {
+  id: 'subscription-1',
+  entity_platform_id: 'entity-1',
+  url: 'https://receiver.example/hooks',
+  secret: 'whsec_test',
+  event_types: ['booking.created'],
+  source_service: null,
+  description: null,
+  is_active: true,
+  created_at: '2024-06-01T00:00:00Z',
+  updated_at: '2024-06-01T00:00:00Z'
+}
+
+afterEach(() => {
+  jest.restoreAllMocks()
+  mockDueDeliveries.length = 0
+  mockAfterTasks.length = 0
+})
+
+describe('webhook signatures', () => {
+  it('signs the timestamp and raw body with HMAC-SHA256', () => {
+    // Computed independently: printf '1717401600.{"id":"evt_1","type":"ping"}' | openssl dgst -sha256 -hmac whsec_test
+    expect(signWebhookPayload('whsec_test', '1717401600', '{"id":"evt_1","type":"ping"}'))
+      .toBe('5988ba54525be8bce23a5d629f4e7638e91a034602bbc968e655abae41ea9158')
+  })
+
+  it('sends a signature the receiver can check against the body it gets', async () => {
+    const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(new Response('ok', { status: 200 }))
+
+    const delivery = await pingSubscription(subscription)
+
+    expect(delivery.status).toBe('delivered')
+    const [, init] = fetchMock.mock.calls[0]
+    const headers = init!.headers as Record<string, string>
+    const expected = createHmac('sha256', subscription.secret)
+      .update(`${headers['X-Roster-Timestamp']}.${init!.body}`)
+      .digest('hex')
+    expect(headers['X-Roster-Signature']).toBe(`sha256=${expected}`)
+    expect(JSON.parse(init!.body as string)).toMatchObject({ type: 'ping', entity_platform_id: 'entity-1' })
+  })
+})
+
+describe('emitWebhookEvent', () => {
+  it('sends the entity\'s due retries once the event has been dispatched', async () => {
+    const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(new Response('ok', { status: 200 }))
+    mockDueDeliveries.push({
+      id: 'delivery-due',
+      entity_platform_id: 'entity-1',
+      subscription_id: subscription.id,
+      event_id: 'event-1',
+      event_type: 'booking.created',
+      payload: { id: 'event-1', type: 'booking.created' },
+      status: 'pending',
+      attempt_count: 1,
+      next_attempt_at: '2024-06-01T00:01:00Z',
+      subscription
+    })
+
+    emitWebhookEvent('entity-1', 'schedule.changed', {})
+    expect(fetchMock).not.toHaveBeenCalled()
+    await Promise.all(mockAfterTasks.map(task => task()))
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    const [, init] = fetchMock.mock.calls[0]
+    expect((init!.headers as Record<string, string>)['X-Roster-Delivery']).toBe('delivery-due')
+  })
+})
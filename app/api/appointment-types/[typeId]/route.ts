@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { validateRosterAccess } from '@/lib/subscription'
+import { z } from 'zod'
+
+// Validation schema for appointment type updates (code is fixed once created)
+const updateAppointmentTypeSchema = z.object({
+  entity_platform_id: z.string().uuid(),
+  name: z.string().min(1).max(255).optional(),
+  description: z.string().max(1000).optional(),
+  duration_minutes: z.number().int().min(5).max(480).optional(),
+  eligible_role_types: z.array(z.string().min(1)).optional(),
+  buffer_before_minutes: z.number().int().min(0).max(120).optional(),
+  buffer_after_minutes: z.number().int().min(0).max(120).optional(),
+  required_resource_types: z.array(z.string().min(1)).optional(),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #4F46E5').optional(),
+  is_active: z.boolean().optional(),
+})
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ typeId: string }> }
+) {
+  try {
+    const { typeId } = await params
+    const body = await request.json()
+
+    // Validate input
+    const { entity_platform_id: entityId, ...updates } = updateAppointmentTypeSchema.parse(body)
+
+    // Check subscription access
+    const accessCheck = await validateRosterAccess(entityId)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        { 
+          error: 'Access denied to roster module',
+          reason: accessCheck.error 
+        },
+        { status: 403 }
+      )
+    }
+
+    // Existing bookings keep the duration and buffers they were made with
+    const { data: appointmentType, error: updateError } = await supabaseAdmin
+      .from('appointment_types')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', typeId)
+      .eq('entity_platform_id', entityId)
+      .select()
+      .maybeSingle()
+
+    if (updateError) {
+      console.error('Appointment type update error:', updateError)
+      return NextResponse.json(
+        { error: 'Failed to update appointment type' },
+        { status: 500 }
+      )
+    }
+
+    if (!appointmentType) {
+      return NextResponse.json(
+        { error: 'Appointment type not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Appointment type updated successfully',
+      data: appointmentType
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { 
+          error: 'Validation failed',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Appointment type PATCH error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Appointment types are deactivated rather than deleted so past bookings keep their reference
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ typeId: string }> }
+) {
+  try {
+    const { typeId } = await params
+    const { searchParams } = new URL(request.url)
+    const entityId = searchParams.get('entity_id')
+
+    if (!entityId) {
+      return NextResponse.json(
+        { error: 'entity_id parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    // Check subscription access to roster module
+    const accessCheck = await validateRosterAccess(entityId)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        { 
+          error: 'Access denied to roster module',
+          reason: accessCheck.error 
+        },
+        { status: 403 }
+      )
+    }
+
+    const { data: appointmentType, error } = await supabaseAdmin
+      .from('appointment_types')
+      .update({ is_active: false, updated_at: new Date().toISOString() })
+      .eq('id', typeId)
+      .eq('entity_platform_id', entityId)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      console.error('Appointment type deactivation error:', error)
+      return NextResponse.json(
+        { error: 'Failed to deactivate appointment type' },
+        { status: 500 }
+      )
+    }
+
+    if (!appointmentType) {
+      return NextResponse.json(
+        { error: 'Appointment type not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Appointment type deactivated successfully',
+      data: appointmentType
+    })
+
+  } catch (error) {
+    console.error('Appointment type DELETE error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
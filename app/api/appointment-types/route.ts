@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { validateRosterAccess } from '@/lib/subscription'
+import { z } from 'zod'
+
+// Validation schema for appointment type creation
+const createAppointmentTypeSchema = z.object({
+  entity_platform_id: z.string().uuid(),
+  code: z.string().regex(/^[a-z0-9_]+$/, 'Code must be lowercase letters, digits and underscores').max(50), // e.g. consultation, vaccination
+  name: z.string().min(1).max(255),
+  description: z.string().max(1000).optional(),
+  duration_minutes: z.number().int().min(5).max(480),
+  eligible_role_types: z.array(z.string().min(1)).default([]), // Empty = any role
+  buffer_before_minutes: z.number().int().min(0).max(120).default(0),
+  buffer_after_minutes: z.number().int().min(0).max(120).default(0),
+  required_resource_types: z.array(z.string().min(1)).default([]), // Rooms or equipment each booking needs, e.g. operating_theater
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #4F46E5').optional(),
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const entityId = searchParams.get('entity_id')
+    const activeOnly = searchParams.get('active_only') !== 'false'
+    const roleType = searchParams.get('role_type')
+
+    if (!entityId) {
+      return NextResponse.json(
+        { error: 'entity_id parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    // Check subscription access to roster module
+    const accessCheck = await validateRosterAccess(entityId)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        { 
+          error: 'Access denied to roster module',
+          reason: accessCheck.error 
+        },
+        { status: 403 }
+      )
+    }
+
+    let query = supabaseAdmin
+      .from('appointment_types')
+      .select('*')
+      .eq('entity_platform_id', entityId)
+
+    // Apply filters
+    if (activeOnly) {
+      query = query.eq('is_active', true)
+    }
+
+    if (roleType) {
+      // Types with no eligible roles listed are open to every role
+      query = query.or(`eligible_role_types.cs.{${roleType}},eligible_role_types.eq.{}`)
+    }
+
+    const { data: appointmentTypes, error } = await query.order('name')
+
+    if (error) {
+      console.error('Database error:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch appointment types' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: appointmentTypes,
+      count: appointmentTypes.length
+    })
+
+  } catch (error) {
+    console.error('Appointment types GET error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    
+    // Validate input
+    const validatedData = createAppointmentTypeSchema.parse(body)
+
+    // Check subscription access
+    const accessCheck = await validateRosterAccess(validatedData.entity_platform_id)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        { 
+          error: 'Access denied to roster module',
+          reason: accessCheck.error 
+        },
+        { status: 403 }
+      )
+    }
+
+    // Codes are unique per hospital
+    const { data: existingType } = await supabaseAdmin
+      .from('appointment_types')
+      .select('id')
+      .eq('entity_platform_id', validatedData.entity_platform_id)
+      .eq('code', validatedData.code)
+      .maybeSingle()
+
+    if (existingType) {
+      return NextResponse.json(
+        { error: `An appointment type with code ${validatedData.code} already exists` },
+        { status: 409 }
+      )
+    }
+
+    const { data: appointmentType, error: createError } = await supabaseAdmin
+      .from('appointment_types')
+      .insert([validatedData])
+      .select()
+      .single()
+
+    if (createError) {
+      console.error('Appointment type creation error:', createError)
+      return NextResponse.json(
+        { error: 'Failed to create appointment type' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Appointment type created successfully',
+      data: appointmentType
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { 
+          error: 'Validation failed',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Appointment types POST error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
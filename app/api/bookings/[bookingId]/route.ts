@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { validateRosterAccess } from '@/lib/subscription'
+import { BOOKING_DETAILS_SELECT } from '@/lib/bookings'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ bookingId: string }> }
+) {
+  try {
+    const { bookingId } = await params
+    const { searchParams } = new URL(request.url)
+    const entityId = searchParams.get('entity_id')
+
+    if (!entityId) {
+      return NextResponse.json(
+        { error: 'entity_id parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    // Check subscription access to roster module
+    const accessCheck = await validateRosterAccess(entityId)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    const { data: booking, error } = await supabaseAdmin
+      .from('external_bookings')
+      .select(BOOKING_DETAILS_SELECT)
+      .eq('id', bookingId)
+      .eq('entity_platform_id', entityId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Database error:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch booking' },
+        { status: 500 }
+      )
+    }
+
+    if (!booking) {
+      return NextResponse.json(
+        { error: 'Booking not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: booking
+    })
+
+  } catch (error) {
+    console.error('Booking GET error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
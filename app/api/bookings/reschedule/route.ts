@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateRosterAccess } from '@/lib/subscription'
+import { formatInTimezone } from '@/lib/timezone'
+import { conflictCode, planReschedule } from '@/lib/booking-requests'
+import {
+  bookingLocatorSchema,
+  findBooking,
+  hasBookingLocator,
+  rescheduleBooking,
+  BOOKING_LOCATOR_MESSAGE,
+  CreateBookingResult
+} from '@/lib/bookings'
+import { scheduleWaitlistMatchForBooking } from '@/lib/waitlist'
+import { emitBookingEvent } from '@/lib/webhooks'
+import { z } from 'zod'
+
+// Validation schema for moving a booking; the duration, team and resources stay the same
+const rescheduleBookingSchema = bookingLocatorSchema.extend({
+  booking_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+  booking_time: z.string().regex(/^\d{2}:\d{2}$/, 'Time must be in HH:MM format'),
+}).refine(hasBookingLocator, BOOKING_LOCATOR_MESSAGE)
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    // Validate input
+    const validatedData = rescheduleBookingSchema.parse(body)
+
+    // Check subscription access
+    const accessCheck = await validateRosterAccess(validatedData.entity_platform_id)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    const booking = await findBooking(validatedData)
+    if (!booking) {
+      return NextResponse.json(
+        { error: 'Booking not found' },
+        { status: 404 }
+      )
+    }
+
+    if (booking.status !== 'active') {
+      return NextResponse.json(
+        { error: `Cannot reschedule a ${booking.status} booking`, code: 'booking_inactive', current_status: booking.status },
+        { status: 409 }
+      )
+    }
+
+    const { plan, rejection } = await planReschedule(booking, validatedData.booking_date, validatedData.booking_time)
+    if (rejection) {
+      return NextResponse.json(rejection.body, { status: rejection.status })
+    }
+    const { bookingTimes, timeZone, startsAt, endsAt } = plan
+
+    // Conflicts with other bookings are checked in the same transaction as the move
+    let result: CreateBookingResult
+    try {
+      result = await rescheduleBooking(
+        booking.id,
+        validatedData.booking_date,
+        bookingTimes.booking_time,
+        bookingTimes.booking_end_time
+      )
+    } catch {
+      return NextResponse.json(
+        { error: 'Failed to reschedule booking' },
+        { status: 500 }
+      )
+    }
+
+    if (result.conflict !== null) {
+      return NextResponse.json(
+        { error: result.conflict, code: conflictCode(result.conflict) },
+        { status: 409 }
+      )
+    }
+
+    // The time the booking left is free for the waitlist
+    scheduleWaitlistMatchForBooking(booking, 'booking_rescheduled')
+
+    emitBookingEvent('booking.rescheduled', result.booking, {
+      previous: {
+        booking_date: booking.booking_date,
+        booking_time: booking.booking_time,
+        booking_end_time: booking.booking_end_time
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Booking rescheduled successfully',
+      data: result.booking,
+      starts_at: formatInTimezone(startsAt, timeZone),
+      ends_at: formatInTimezone(endsAt, timeZone),
+      timezone: timeZone
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Booking reschedule POST error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,190 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { validateRosterAccess } from '@/lib/subscription'
+import { BOOKING_DETAILS_SELECT, ExternalBooking } from '@/lib/bookings'
+import { decodeCursor, encodeCursor, keysetFilter } from '@/lib/pagination'
+import { z } from 'zod'
+
+// Sort columns per sort option; the last column is unique so pages never overlap
+const SORT_COLUMNS = {
+  start: ['booking_date', 'booking_time', 'id'],
+  created_at: ['created_at', 'id'],
+  updated_at: ['updated_at', 'id']
+} as const
+
+// Metadata filters look like metadata.patient_id=abc
+const METADATA_PREFIX = 'metadata.'
+
+// Embed used only to filter by participant; it is not part of the response
+const PARTICIPANT_FILTER = 'participant_filter'
+
+// Validation schema for booking searches
+const listBookingsSchema = z.object({
+  entity_id: z.string().uuid(),
+  staff_ids: z.array(z.string().uuid()).optional(), // Comma-separated; matches the booked staff member or a participant
+  start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Start date must be in YYYY-MM-DD format').optional(),
+  end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'End date must be in YYYY-MM-DD format').optional(),
+  statuses: z.array(z.enum(['active', 'cancelled', 'completed', 'no_show'])).optional(), // Comma-separated
+  source_service: z.string().min(1).optional(),
+  external_booking_id: z.string().min(1).optional(),
+  series_id: z.string().uuid().optional(),
+  metadata: z.record(
+    z.string().regex(/^[A-Za-z0-9_]+$/, 'Metadata keys may only contain letters, digits and underscores'),
+    z.string()
+  ),
+  sort: z.enum(['start', 'created_at', 'updated_at']).default('start'),
+  order: z.enum(['asc', 'desc']).default('asc'),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50)
+}).refine(query => !query.start_date || !query.end_date || query.start_date <= query.end_date, {
+  message: 'end_date must be on or after start_date',
+  path: ['end_date']
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const queryParams = {
+      entity_id: searchParams.get('entity_id'),
+      staff_ids: searchParams.get('staff_id')?.split(',') ?? undefined,
+      start_date: searchParams.get('start_date') ?? undefined,
+      end_date: searchParams.get('end_date') ?? undefined,
+      statuses: searchParams.get('status')?.split(',') ?? undefined,
+      source_service: searchParams.get('source_service') ?? undefined,
+      external_booking_id: searchParams.get('external_booking_id') ?? undefined,
+      series_id: searchParams.get('series_id') ?? undefined,
+      metadata: Object.fromEntries([...searchParams.entries()]
+        .filter(([name]) => name.startsWith(METADATA_PREFIX))
+        .map(([name, value]) => [name.slice(METADATA_PREFIX.length), value])),
+      sort: searchParams.get('sort') ?? undefined,
+      order: searchParams.get('order') ?? undefined,
+      cursor: searchParams.get('cursor') ?? undefined,
+      limit: searchParams.get('limit') ?? undefined
+    }
+
+    const validatedQuery = listBookingsSchema.parse(queryParams)
+
+    // Check subscription access to roster module
+    const accessCheck = await validateRosterAccess(validatedQuery.entity_id)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    const sortColumns = [...SORT_COLUMNS[validatedQuery.sort]]
+    let cursorValues: string[] | null = null
+    if (validatedQuery.cursor) {
+      cursorValues = decodeCursor(validatedQuery.cursor, validatedQuery.sort, validatedQuery.order, sortColumns.length)
+      if (!cursorValues) {
+        return NextResponse.json(
+          { error: 'Invalid cursor for this sort' },
+          { status: 400 }
+        )
+      }
+    }
+
+    let query = supabaseAdmin
+      .from('external_bookings')
+      .select(validatedQuery.staff_ids
+        ? `${BOOKING_DETAILS_SELECT}, ${PARTICIPANT_FILTER}:booking_participants(staff_member_id)`
+        : BOOKING_DETAILS_SELECT)
+      .eq('entity_platform_id', validatedQuery.entity_id)
+
+    if (validatedQuery.start_date) {
+      query = query.gte('booking_date', validatedQuery.start_date)
+    }
+    if (validatedQuery.end_date) {
+      query = query.lte('booking_date', validatedQuery.end_date)
+    }
+    if (validatedQuery.statuses) {
+      query = query.in('status', validatedQuery.statuses)
+    }
+    if (validatedQuery.source_service) {
+      query = query.eq('source_service', validatedQuery.source_service)
+    }
+    if (validatedQuery.external_booking_id) {
+      query = query.eq('external_booking_id', validatedQuery.external_booking_id)
+    }
+    if (validatedQuery.series_id) {
+      query = query.eq('series_id', validatedQuery.series_id)
+    }
+    for (const [key, value] of Object.entries(validatedQuery.metadata)) {
+      query = query.eq(`metadata->>${key}`, value)
+    }
+
+    // Staff filters include team bookings the staff member takes part in: a filtered embed of
+    // the booking's participants is non-empty for those, so the database does the matching
+    if (validatedQuery.staff_ids) {
+      query = query
+        .in(`${PARTICIPANT_FILTER}.staff_member_id`, validatedQuery.staff_ids)
+        .or(`staff_member_id.in.(${validatedQuery.staff_ids.join(',')}),${PARTICIPANT_FILTER}.not.is.null`)
+    }
+
+    // Keyset pagination: continue strictly after the last row of the previous page
+    if (cursorValues) {
+      query = query.or(keysetFilter(sortColumns, cursorValues, validatedQuery.order))
+    }
+
+    for (const column of sortColumns) {
+      query = query.order(column, { ascending: validatedQuery.order === 'asc' })
+    }
+
+    // One extra row tells whether there is another page
+    const { data, error } = await query.limit(validatedQuery.limit + 1)
+
+    if (error) {
+      console.error('Database error:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch bookings' },
+        { status: 500 }
+      )
+    }
+
+    const bookings = data as unknown as (ExternalBooking & Record<string, unknown>)[]
+    const hasMore = bookings.length > validatedQuery.limit
+    const page = bookings.slice(0, validatedQuery.limit)
+    for (const booking of page) {
+      delete booking[PARTICIPANT_FILTER]
+    }
+    const lastBooking = page[page.length - 1]
+
+    return NextResponse.json({
+      success: true,
+      data: page,
+      count: page.length,
+      has_more: hasMore,
+      next_cursor: hasMore && lastBooking
+        ? encodeCursor(
+            validatedQuery.sort,
+            validatedQuery.order,
+            sortColumns.map(column => String(lastBooking[column as keyof typeof lastBooking]))
+          )
+        : null
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Bookings GET error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
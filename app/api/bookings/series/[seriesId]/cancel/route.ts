@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { validateRosterAccess } from '@/lib/subscription'
+import { findSeries } from '@/lib/series'
+import { scheduleWaitlistMatch } from '@/lib/waitlist'
+import { emitBookingEvent } from '@/lib/webhooks'
+import { z } from 'zod'
+
+// Validation schema for cancelling a whole series, or the rest of it from a date
+const cancelSeriesSchema = z.object({
+  entity_platform_id: z.string().uuid(),
+  from_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format').optional(),
+  reason: z.string().max(500).optional(),
+})
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ seriesId: string }> }
+) {
+  try {
+    const { seriesId } = await params
+    const body = await request.json()
+
+    // Validate input
+    const validatedData = cancelSeriesSchema.parse(body)
+
+    // Check subscription access
+    const accessCheck = await validateRosterAccess(validatedData.entity_platform_id)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    const series = await findSeries(validatedData.entity_platform_id, seriesId)
+    if (!series) {
+      return NextResponse.json(
+        { error: 'Booking series not found' },
+        { status: 404 }
+      )
+    }
+
+    // Only active occurrences change; completed, no-show and already cancelled ones keep their status
+    const now = new Date().toISOString()
+    let query = supabaseAdmin
+      .from('external_bookings')
+      .update({
+        status: 'cancelled',
+        status_changed_at: now,
+        status_reason: validatedData.reason ?? null,
+        updated_at: now
+      })
+      .eq('series_id', series.id)
+      .eq('status', 'active')
+
+    if (validatedData.from_date) {
+      query = query.gte('booking_date', validatedData.from_date)
+    }
+
+    const { data: cancelledBookings, error: updateError } = await query
+      .select()
+      .order('booking_date')
+
+    if (updateError) {
+      console.error('Series cancel error:', updateError)
+      return NextResponse.json(
+        { error: 'Failed to cancel booking series' },
+        { status: 500 }
+      )
+    }
+
+    // Cancelled occurrences free their time for the waitlist
+    if (cancelledBookings.length > 0) {
+      scheduleWaitlistMatch({
+        entityPlatformId: series.entity_platform_id,
+        trigger: 'booking_cancelled',
+        staffIds: [series.staff_member_id],
+        startDate: cancelledBookings[0].booking_date,
+        endDate: cancelledBookings[cancelledBookings.length - 1].booking_date
+      })
+    }
+
+    for (const booking of cancelledBookings) {
+      emitBookingEvent('booking.cancelled', booking, { previous_status: 'active' })
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `${cancelledBookings.length} occurrences cancelled`,
+      data: cancelledBookings,
+      count: cancelledBookings.length
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Booking series cancel POST error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
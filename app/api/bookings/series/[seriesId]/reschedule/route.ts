@@ -0,0 +1,195 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateRosterAccess } from '@/lib/subscription'
+import { conflictCode, planReschedule, ReschedulePlan } from '@/lib/booking-requests'
+import { rescheduleBooking, ExternalBooking } from '@/lib/bookings'
+import { addDays } from '@/lib/recurrence'
+import {
+  findSeries,
+  getSeriesBookings,
+  occurrenceNumber,
+  rescheduleBookingSeries,
+  OccurrenceResult
+} from '@/lib/series'
+import { scheduleWaitlistMatch } from '@/lib/waitlist'
+import { emitBookingEvent } from '@/lib/webhooks'
+import { z } from 'zod'
+
+// Validation schema for moving a series: a new time of day, a shift by whole days, or both
+const rescheduleSeriesSchema = z.object({
+  entity_platform_id: z.string().uuid(),
+  booking_time: z.string().regex(/^\d{2}:\d{2}$/, 'Time must be in HH:MM format').optional(),
+  day_offset: z.number().int().min(-28).max(28).optional(), // e.g. 1 moves every Monday occurrence to Tuesday
+  from_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format').optional(),
+  mode: z.enum(['all_or_nothing', 'best_effort']).default('all_or_nothing'),
+}).refine(data => data.booking_time !== undefined || data.day_offset !== undefined, {
+  message: 'Either booking_time or day_offset is required',
+  path: ['booking_time']
+})
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ seriesId: string }> }
+) {
+  try {
+    const { seriesId } = await params
+    const body = await request.json()
+
+    // Validate input
+    const validatedData = rescheduleSeriesSchema.parse(body)
+
+    // Check subscription access
+    const accessCheck = await validateRosterAccess(validatedData.entity_platform_id)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    const series = await findSeries(validatedData.entity_platform_id, seriesId)
+    if (!series) {
+      return NextResponse.json(
+        { error: 'Booking series not found' },
+        { status: 404 }
+      )
+    }
+
+    // Only active occurrences move; the rest of the series history stays as it was
+    const bookings = (await getSeriesBookings(series.id, validatedData.from_date))
+      .filter(booking => booking.status === 'active')
+
+    if (bookings.length === 0) {
+      return NextResponse.json(
+        { error: 'No active occurrences to reschedule' },
+        { status: 404 }
+      )
+    }
+
+    // Every occurrence gets the same checks as a single reschedule
+    const results: OccurrenceResult[] = []
+    const planned: { result: OccurrenceResult; booking: ExternalBooking; plan: ReschedulePlan }[] = []
+
+    for (const booking of bookings) {
+      const bookingDate = addDays(booking.booking_date, validatedData.day_offset ?? 0)
+      const bookingTime = validatedData.booking_time ?? booking.booking_time.slice(0, 5)
+      const { plan, rejection } = await planReschedule(booking, bookingDate, bookingTime)
+
+      const result: OccurrenceResult = rejection
+        ? {
+            occurrence: occurrenceNumber(booking.external_booking_id),
+            booking_date: bookingDate,
+            status: 'failed',
+            booking_id: booking.id,
+            code: rejection.body.code,
+            error: String(rejection.body.error),
+            ...(typeof rejection.body.reason === 'string' && { reason: rejection.body.reason })
+          }
+        : { occurrence: occurrenceNumber(booking.external_booking_id), booking_date: bookingDate, status: 'rescheduled', booking_id: booking.id }
+
+      results.push(result)
+      if (plan) {
+        planned.push({ result, booking, plan })
+      }
+    }
+
+    const failedCount = results.length - planned.length
+    if (planned.length === 0 || (validatedData.mode === 'all_or_nothing' && failedCount > 0)) {
+      return NextResponse.json(
+        {
+          error: `${failedCount} of ${results.length} occurrences cannot be rescheduled`,
+          code: 'series_incomplete',
+          occurrences: results.filter(result => result.status === 'failed')
+        },
+        { status: 409 }
+      )
+    }
+
+    const toMove = ({ result, booking, plan }: { result: OccurrenceResult; booking: ExternalBooking; plan: ReschedulePlan }) => ({
+      booking_id: booking.id,
+      booking_date: result.booking_date,
+      booking_time: plan.bookingTimes.booking_time,
+      booking_end_time: plan.bookingTimes.booking_end_time
+    })
+
+    if (validatedData.mode === 'all_or_nothing') {
+      // One transaction: a conflict on any occurrence moves none of them
+      const moved = await rescheduleBookingSeries(planned.map(toMove))
+      if (moved.conflict !== null) {
+        return NextResponse.json(
+          { error: moved.conflict, code: conflictCode(moved.conflict), booking_id: moved.conflictBookingId },
+          { status: 409 }
+        )
+      }
+    } else {
+      // Best effort: each occurrence moves on its own
+      for (const entry of planned) {
+        const move = toMove(entry)
+        const moved = await rescheduleBooking(move.booking_id, move.booking_date, move.booking_time, move.booking_end_time)
+        if (moved.conflict !== null) {
+          Object.assign(entry.result, { status: 'failed', code: conflictCode(moved.conflict), error: moved.conflict })
+        }
+      }
+    }
+
+    const movedCount = results.filter(result => result.status === 'rescheduled').length
+
+    // The dates the occurrences left are free for the waitlist
+    if (movedCount > 0) {
+      scheduleWaitlistMatch({
+        entityPlatformId: series.entity_platform_id,
+        trigger: 'booking_rescheduled',
+        staffIds: [series.staff_member_id],
+        startDate: bookings[0].booking_date,
+        endDate: bookings[bookings.length - 1].booking_date
+      })
+
+      // Subscribers get each moved occurrence as it is now, with where it was before
+      const movedIds = new Set(results.filter(result => result.status === 'rescheduled').map(result => result.booking_id))
+      const previousById = new Map(bookings.map(booking => [booking.id, booking]))
+      for (const booking of await getSeriesBookings(series.id)) {
+        const previous = previousById.get(booking.id)
+        if (previous && movedIds.has(booking.id)) {
+          emitBookingEvent('booking.rescheduled', booking, {
+            previous: {
+              booking_date: previous.booking_date,
+              booking_time: previous.booking_time,
+              booking_end_time: previous.booking_end_time
+            }
+          })
+        }
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `${movedCount} of ${results.length} occurrences rescheduled`,
+      data: {
+        series,
+        occurrences: results
+      }
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Booking series reschedule POST error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
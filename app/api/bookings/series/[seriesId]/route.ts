@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateRosterAccess } from '@/lib/subscription'
+import { findSeries, getSeriesBookings } from '@/lib/series'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ seriesId: string }> }
+) {
+  try {
+    const { seriesId } = await params
+    const { searchParams } = new URL(request.url)
+    const entityId = searchParams.get('entity_id')
+
+    if (!entityId) {
+      return NextResponse.json(
+        { error: 'entity_id parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    // Check subscription access to roster module
+    const accessCheck = await validateRosterAccess(entityId)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    const series = await findSeries(entityId, seriesId)
+    if (!series) {
+      return NextResponse.json(
+        { error: 'Booking series not found' },
+        { status: 404 }
+      )
+    }
+
+    const bookings = await getSeriesBookings(series.id)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...series,
+        bookings
+      }
+    })
+
+  } catch (error) {
+    console.error('Booking series GET error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
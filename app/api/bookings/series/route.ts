@@ -0,0 +1,227 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateRosterAccess } from '@/lib/subscription'
+import {
+  bookingRequestSchema,
+  conflictCode,
+  hasBookingLength,
+  planBooking,
+  BookingPlan,
+  BOOKING_LENGTH_MESSAGE
+} from '@/lib/booking-requests'
+import { createBooking, ExternalBooking } from '@/lib/bookings'
+import { expandRecurrence, parseRecurrenceRule, MAX_SERIES_OCCURRENCES } from '@/lib/recurrence'
+import {
+  createBookingSeries,
+  getSeriesBookings,
+  insertSeries,
+  occurrenceExternalId,
+  NewSeries,
+  OccurrenceResult,
+  SeriesOccurrence
+} from '@/lib/series'
+import { emitBookingEvent } from '@/lib/webhooks'
+import { z } from 'zod'
+
+// Validation schema for a recurring series; booking_date is the first possible date
+const createSeriesSchema = bookingRequestSchema.extend({
+  recurrence_rule: z.string().min(1), // e.g. FREQ=WEEKLY;BYDAY=MO;COUNT=10
+  mode: z.enum(['all_or_nothing', 'best_effort']).default('all_or_nothing'),
+  external_series_id: z.string().min(1),
+  source_service: z.string().min(1),
+  metadata: z.record(z.string(), z.any()).optional()
+}).refine(hasBookingLength, BOOKING_LENGTH_MESSAGE)
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    // Validate input
+    const validatedData = createSeriesSchema.parse(body)
+
+    // Check subscription access
+    const accessCheck = await validateRosterAccess(validatedData.entity_platform_id)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    const { rule, error: ruleError } = parseRecurrenceRule(validatedData.recurrence_rule)
+    if (ruleError !== null) {
+      return NextResponse.json(
+        { error: ruleError, code: 'invalid_recurrence' },
+        { status: 400 }
+      )
+    }
+
+    const dates = expandRecurrence(rule, validatedData.booking_date)
+    if (dates.length === 0 || dates.length > MAX_SERIES_OCCURRENCES) {
+      return NextResponse.json(
+        { error: `A series must have between 1 and ${MAX_SERIES_OCCURRENCES} occurrences`, code: 'invalid_recurrence' },
+        { status: 400 }
+      )
+    }
+
+    // Every occurrence gets the same checks as a single booking
+    const results: OccurrenceResult[] = []
+    const planned: { result: OccurrenceResult; plan: BookingPlan }[] = []
+
+    for (const [index, date] of dates.entries()) {
+      const { plan, rejection } = await planBooking({ ...validatedData, booking_date: date })
+      const result: OccurrenceResult = rejection
+        ? {
+            occurrence: index + 1,
+            booking_date: date,
+            status: 'failed',
+            code: rejection.body.code,
+            error: String(rejection.body.error),
+            ...(typeof rejection.body.reason === 'string' && { reason: rejection.body.reason })
+          }
+        : { occurrence: index + 1, booking_date: date, status: 'booked' }
+
+      results.push(result)
+      if (plan) {
+        planned.push({ result, plan })
+      }
+    }
+
+    const failedCount = results.length - planned.length
+    if (planned.length === 0 || (validatedData.mode === 'all_or_nothing' && failedCount > 0)) {
+      return NextResponse.json(
+        {
+          error: `${failedCount} of ${results.length} occurrences cannot be booked`,
+          code: 'series_incomplete',
+          occurrences: results.filter(result => result.status === 'failed')
+        },
+        { status: 409 }
+      )
+    }
+
+    const series: NewSeries = {
+      entity_platform_id: validatedData.entity_platform_id,
+      staff_member_id: validatedData.staff_member_id,
+      external_series_id: validatedData.external_series_id,
+      source_service: validatedData.source_service,
+      recurrence_rule: validatedData.recurrence_rule,
+      start_date: validatedData.booking_date,
+      booking_time: validatedData.booking_time,
+      appointment_type_id: planned[0].plan.appointmentType?.id ?? null,
+      mode: validatedData.mode,
+      metadata: validatedData.metadata ?? null
+    }
+
+    const toOccurrence = ({ result, plan }: { result: OccurrenceResult; plan: BookingPlan }): SeriesOccurrence => ({
+      booking: {
+        entity_platform_id: validatedData.entity_platform_id,
+        staff_member_id: validatedData.staff_member_id,
+        booking_date: result.booking_date,
+        ...plan.bookingTimes,
+        appointment_type_id: plan.appointmentType?.id ?? null,
+        external_booking_id: occurrenceExternalId(validatedData.external_series_id, result.occurrence),
+        source_service: validatedData.source_service,
+        metadata: validatedData.metadata
+      },
+      participants: plan.participants.map(participant => ({ staff_member_id: participant.id, role_type: participant.role_type })),
+      resource_ids: plan.assignedResources.map(resource => resource.resource_id)
+    })
+
+    let createdSeries
+    const createdBookings: ExternalBooking[] = []
+    if (validatedData.mode === 'all_or_nothing') {
+      // One transaction: a conflict on any occurrence books none of them
+      const created = await createBookingSeries(series, planned.map(toOccurrence))
+      if (created.conflict !== null) {
+        return NextResponse.json(
+          {
+            error: created.conflict,
+            code: created.conflictDate ? conflictCode(created.conflict) : 'duplicate_series',
+            booking_date: created.conflictDate
+          },
+          { status: 409 }
+        )
+      }
+      createdSeries = created.series
+
+      const bookings = await getSeriesBookings(createdSeries.id)
+      createdBookings.push(...bookings)
+      for (const { result } of planned) {
+        const externalId = occurrenceExternalId(validatedData.external_series_id, result.occurrence)
+        result.booking_id = bookings.find(booking => booking.external_booking_id === externalId)?.id
+      }
+    } else {
+      createdSeries = await insertSeries(series)
+      if (!createdSeries) {
+        return NextResponse.json(
+          { error: 'Series with this external ID already exists', code: 'duplicate_series' },
+          { status: 409 }
+        )
+      }
+
+      // Best effort: each occurrence is booked on its own and may still lose a race. An
+      // unexpected error fails only that occurrence, so the series and the bookings already
+      // made are still reported
+      for (const entry of planned) {
+        const occurrence = toOccurrence(entry)
+        let created
+        try {
+          created = await createBooking(
+            { ...occurrence.booking, series_id: createdSeries.id },
+            occurrence.participants,
+            occurrence.resource_ids
+          )
+        } catch (error) {
+          console.error('Series occurrence booking error:', error)
+          Object.assign(entry.result, { status: 'failed', code: 'booking_error', error: 'Failed to create booking' })
+          continue
+        }
+
+        if (created.conflict !== null) {
+          Object.assign(entry.result, { status: 'failed', code: conflictCode(created.conflict), error: created.conflict })
+        } else {
+          entry.result.booking_id = created.booking.id
+          createdBookings.push(created.booking)
+        }
+      }
+    }
+
+    const bookedCount = results.filter(result => result.status === 'booked').length
+
+    // Subscribers see each occurrence as an ordinary booking with series_id set
+    for (const booking of createdBookings) {
+      emitBookingEvent('booking.created', booking)
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `${bookedCount} of ${results.length} occurrences booked`,
+      data: {
+        series: createdSeries,
+        occurrences: results
+      }
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Booking series POST error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { validateRosterAccess } from '@/lib/subscription'
+import {
+  bookingLocatorSchema,
+  canTransition,
+  findBooking,
+  hasBookingLocator,
+  BOOKING_LOCATOR_MESSAGE,
+  BOOKING_TRANSITIONS
+} from '@/lib/bookings'
+import { scheduleWaitlistMatchForBooking } from '@/lib/waitlist'
+import { emitBookingEvent } from '@/lib/webhooks'
+import { z } from 'zod'
+
+// Validation schema for booking status changes (cancel, complete, no-show)
+const updateBookingStatusSchema = bookingLocatorSchema.extend({
+  status: z.enum(['cancelled', 'completed', 'no_show']),
+  reason: z.string().max(500).optional(), // e.g. why the client cancelled
+}).refine(hasBookingLocator, BOOKING_LOCATOR_MESSAGE)
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    // Validate input
+    const validatedData = updateBookingStatusSchema.parse(body)
+
+    // Check subscription access
+    const accessCheck = await validateRosterAccess(validatedData.entity_platform_id)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    const booking = await findBooking(validatedData)
+    if (!booking) {
+      return NextResponse.json(
+        { error: 'Booking not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!canTransition(booking.status, validatedData.status)) {
+      return NextResponse.json(
+        {
+          error: `Cannot change booking from ${booking.status} to ${validatedData.status}`,
+          current_status: booking.status,
+          allowed_statuses: BOOKING_TRANSITIONS[booking.status] ?? []
+        },
+        { status: 409 }
+      )
+    }
+
+    // Only apply the change if nobody else moved the booking in the meantime
+    const now = new Date().toISOString()
+    const { data: updatedBooking, error: updateError } = await supabaseAdmin
+      .from('external_bookings')
+      .update({
+        status: validatedData.status,
+        status_changed_at: now,
+        status_reason: validatedData.reason ?? null,
+        updated_at: now
+      })
+      .eq('id', booking.id)
+      .eq('status', booking.status)
+      .select()
+      .maybeSingle()
+
+    if (updateError) {
+      console.error('Booking status update error:', updateError)
+      return NextResponse.json(
+        { error: 'Failed to update booking status' },
+        { status: 500 }
+      )
+    }
+
+    if (!updatedBooking) {
+      return NextResponse.json(
+        { error: 'Booking was changed by another request; fetch it and try again' },
+        { status: 409 }
+      )
+    }
+
+    // A cancellation frees the time for the waitlist
+    if (updatedBooking.status === 'cancelled') {
+      scheduleWaitlistMatchForBooking(updatedBooking, 'booking_cancelled')
+    }
+
+    emitBookingEvent(
+      updatedBooking.status === 'cancelled' ? 'booking.cancelled' : 'booking.status_changed',
+      updatedBooking,
+      { previous_status: booking.status }
+    )
+
+    return NextResponse.json({
+      success: true,
+      message: `Booking ${validatedData.status === 'no_show' ? 'marked as no-show' : validatedData.status}`,
+      data: updatedBooking
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Booking status POST error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
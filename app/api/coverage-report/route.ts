@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateRosterAccess } from '@/lib/subscription'
+import { buildCoverageReport, loadCoverageRequirements } from '@/lib/coverage'
+import { enumerateDates } from '@/lib/slots'
+import { z } from 'zod'
+
+// Maximum number of days a single report may span
+const MAX_RANGE_DAYS = 31
+
+// Validation schema for coverage report queries
+const coverageReportSchema = z.object({
+  entity_id: z.string().uuid(),
+  start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Start date must be in YYYY-MM-DD format'),
+  end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'End date must be in YYYY-MM-DD format').optional(), // Defaults to start_date
+  role_type: z.string().min(1).optional(),
+})
+
+// Understaffed and overstaffed intervals for a date range, against the hospital's coverage requirements
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const validatedQuery = coverageReportSchema.parse({
+      entity_id: searchParams.get('entity_id'),
+      start_date: searchParams.get('start_date'),
+      end_date: searchParams.get('end_date') ?? undefined,
+      role_type: searchParams.get('role_type') ?? undefined
+    })
+
+    // Check subscription access to roster module
+    const accessCheck = await validateRosterAccess(validatedQuery.entity_id)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    const startDate = validatedQuery.start_date
+    const endDate = validatedQuery.end_date ?? startDate
+
+    if (endDate < startDate) {
+      return NextResponse.json(
+        { error: 'end_date must be on or after start_date' },
+        { status: 400 }
+      )
+    }
+
+    const dates = enumerateDates(startDate, endDate)
+    if (dates.length > MAX_RANGE_DAYS) {
+      return NextResponse.json(
+        { error: `Date range cannot exceed ${MAX_RANGE_DAYS} days` },
+        { status: 400 }
+      )
+    }
+
+    const requirements = await loadCoverageRequirements(validatedQuery.entity_id, validatedQuery.role_type)
+    const report = await buildCoverageReport(validatedQuery.entity_id, requirements, dates)
+
+    return NextResponse.json({
+      success: true,
+      data: report.intervals,
+      summary: report.summary,
+      requirements_checked: requirements.length,
+      start_date: startDate,
+      end_date: endDate
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Coverage report GET error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
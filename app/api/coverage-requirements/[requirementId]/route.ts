@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { validateRosterAccess } from '@/lib/subscription'
+import { z } from 'zod'
+
+// Raised by the valid_coverage_time and valid_coverage_levels checks
+const CHECK_VIOLATION_CODE = '23514'
+
+// Validation schema for coverage requirement updates (role_type and day_of_week are fixed once created)
+const updateCoverageRequirementSchema = z.object({
+  entity_platform_id: z.string().uuid(),
+  start_time: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format (HH:MM)').optional(),
+  end_time: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format (HH:MM)').optional(),
+  min_staff: z.number().int().min(0).max(1000).optional(),
+  max_staff: z.number().int().min(0).max(1000).nullable().optional(), // null removes the upper limit
+  is_active: z.boolean().optional(),
+})
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ requirementId: string }> }
+) {
+  try {
+    const { requirementId } = await params
+    const body = await request.json()
+
+    // Validate input
+    const { entity_platform_id: entityId, ...updates } = updateCoverageRequirementSchema.parse(body)
+
+    // Check subscription access
+    const accessCheck = await validateRosterAccess(entityId)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    // The database checks the result against the fields that are not changed
+    const { data: requirement, error: updateError } = await supabaseAdmin
+      .from('coverage_requirements')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', requirementId)
+      .eq('entity_platform_id', entityId)
+      .select()
+      .maybeSingle()
+
+    if (updateError) {
+      if (updateError.code === CHECK_VIOLATION_CODE) {
+        return NextResponse.json(
+          { error: 'Start and end time must differ, and max_staff must not be below min_staff' },
+          { status: 400 }
+        )
+      }
+
+      console.error('Coverage requirement update error:', updateError)
+      return NextResponse.json(
+        { error: 'Failed to update coverage requirement' },
+        { status: 500 }
+      )
+    }
+
+    if (!requirement) {
+      return NextResponse.json(
+        { error: 'Coverage requirement not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Coverage requirement updated successfully',
+      data: requirement
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Coverage requirement PATCH error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ requirementId: string }> }
+) {
+  try {
+    const { requirementId } = await params
+    const { searchParams } = new URL(request.url)
+    const entityId = searchParams.get('entity_id')
+
+    if (!entityId) {
+      return NextResponse.json(
+        { error: 'entity_id parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    // Check subscription access to roster module
+    const accessCheck = await validateRosterAccess(entityId)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    const { data: deleted, error } = await supabaseAdmin
+      .from('coverage_requirements')
+      .delete()
+      .eq('id', requirementId)
+      .eq('entity_platform_id', entityId)
+      .select('id')
+
+    if (error) {
+      console.error('Coverage requirement deletion error:', error)
+      return NextResponse.json(
+        { error: 'Failed to delete coverage requirement' },
+        { status: 500 }
+      )
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json(
+        { error: 'Coverage requirement not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Coverage requirement deleted successfully'
+    })
+
+  } catch (error) {
+    console.error('Coverage requirement DELETE error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
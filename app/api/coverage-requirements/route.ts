@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { validateRosterAccess } from '@/lib/subscription'
+import { parseTime } from '@/lib/availability'
+import { z } from 'zod'
+
+// Validation schema for coverage requirement creation; one requirement is created per weekday
+const createCoverageRequirementSchema = z.object({
+  entity_platform_id: z.string().uuid(),
+  role_type: z.string().min(1).max(100),
+  days_of_week: z.array(z.number().int().min(0).max(6)).min(1).max(7), // 0 = Sunday, 6 = Saturday
+  start_time: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format (HH:MM)'),
+  end_time: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format (HH:MM)'),
+  min_staff: z.number().int().min(0).max(1000),
+  max_staff: z.number().int().min(0).max(1000).optional(), // Omit for no upper limit
+}).refine(data => parseTime(data.start_time) !== parseTime(data.end_time), {
+  message: 'Start and end time must differ; an end time before the start time runs past midnight',
+  path: ['end_time']
+}).refine(data => data.max_staff === undefined || data.max_staff >= data.min_staff, {
+  message: 'max_staff must not be below min_staff',
+  path: ['max_staff']
+}).refine(data => new Set(data.days_of_week).size === data.days_of_week.length, {
+  message: 'Each weekday may only be listed once',
+  path: ['days_of_week']
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const entityId = searchParams.get('entity_id')
+    const roleType = searchParams.get('role_type')
+    const activeOnly = searchParams.get('active_only') !== 'false'
+
+    if (!entityId) {
+      return NextResponse.json(
+        { error: 'entity_id parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    // Check subscription access to roster module
+    const accessCheck = await validateRosterAccess(entityId)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    let query = supabaseAdmin
+      .from('coverage_requirements')
+      .select('*')
+      .eq('entity_platform_id', entityId)
+
+    if (roleType) {
+      query = query.eq('role_type', roleType)
+    }
+
+    if (activeOnly) {
+      query = query.eq('is_active', true)
+    }
+
+    const { data: requirements, error } = await query.order('role_type').order('day_of_week').order('start_time')
+
+    if (error) {
+      console.error('Database error:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch coverage requirements' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: requirements,
+      count: requirements.length
+    })
+
+  } catch (error) {
+    console.error('Coverage requirements GET error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    // Validate input
+    const { days_of_week, ...requirementData } = createCoverageRequirementSchema.parse(body)
+
+    // Check subscription access
+    const accessCheck = await validateRosterAccess(requirementData.entity_platform_id)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    // Requirements may overlap (e.g. a busier lunchtime band inside the day band); each is checked on its own
+    const { data: requirements, error: createError } = await supabaseAdmin
+      .from('coverage_requirements')
+      .insert(days_of_week.map(day_of_week => ({
+        ...requirementData,
+        day_of_week,
+        max_staff: requirementData.max_staff ?? null
+      })))
+      .select()
+
+    if (createError) {
+      console.error('Coverage requirement creation error:', createError)
+      return NextResponse.json(
+        { error: 'Failed to create coverage requirements' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Coverage requirements created successfully',
+      data: requirements
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Coverage requirements POST error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
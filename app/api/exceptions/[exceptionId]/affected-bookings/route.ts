@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateRosterAccess } from '@/lib/subscription'
+import { EXCEPTION_UNAVAILABLE_REASONS } from '@/lib/availability'
+import { findAffectedBookings, findUnavailabilityException, resolveAffectedBookings } from '@/lib/reassignment'
+import { z } from 'zod'
+
+// Validation schema for acting on affected bookings: per-booking decisions, or one action for all of them
+const resolveAffectedBookingsSchema = z.object({
+  entity_platform_id: z.string().uuid(),
+  action: z.enum(['cancel', 'reassign']).optional(), // Applies to every affected booking without its own decision
+  bookings: z.array(z.object({
+    booking_id: z.string().uuid(),
+    action: z.enum(['cancel', 'reassign']),
+    to_staff_id: z.string().uuid().optional(), // Omit to take the first free alternative
+  }).refine(decision => decision.action === 'reassign' || !decision.to_staff_id, {
+    message: 'to_staff_id only applies to reassign',
+    path: ['to_staff_id']
+  })).max(200).default([]),
+  reason: z.string().max(500).optional(),
+}).refine(data => data.action !== undefined || data.bookings.length > 0, {
+  message: 'Either action or bookings is required',
+  path: ['action']
+})
+
+// Bookings the exception overlaps right now, with same-role staff who could take them over
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ exceptionId: string }> }
+) {
+  try {
+    const { exceptionId } = await params
+    const { searchParams } = new URL(request.url)
+    const entityId = searchParams.get('entity_id')
+
+    if (!entityId) {
+      return NextResponse.json(
+        { error: 'entity_id parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    // Check subscription access to roster module
+    const accessCheck = await validateRosterAccess(entityId)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    const exception = await findUnavailabilityException(entityId, exceptionId)
+    if (!exception) {
+      return NextResponse.json(
+        { error: 'Schedule exception not found' },
+        { status: 404 }
+      )
+    }
+
+    if (exception.is_available) {
+      return NextResponse.json(
+        { error: 'Extra working hours do not affect bookings' },
+        { status: 400 }
+      )
+    }
+
+    const affectedBookings = await findAffectedBookings(exception)
+
+    return NextResponse.json({
+      success: true,
+      data: affectedBookings,
+      count: affectedBookings.length
+    })
+
+  } catch (error) {
+    console.error('Affected bookings GET error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Bulk-cancel or reassign affected bookings; each booking succeeds or fails on its own
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ exceptionId: string }> }
+) {
+  try {
+    const { exceptionId } = await params
+    const body = await request.json()
+
+    // Validate input
+    const validatedData = resolveAffectedBookingsSchema.parse(body)
+
+    // Check subscription access
+    const accessCheck = await validateRosterAccess(validatedData.entity_platform_id)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    const exception = await findUnavailabilityException(validatedData.entity_platform_id, exceptionId)
+    if (!exception) {
+      return NextResponse.json(
+        { error: 'Schedule exception not found' },
+        { status: 404 }
+      )
+    }
+
+    if (exception.is_available) {
+      return NextResponse.json(
+        { error: 'Extra working hours do not affect bookings' },
+        { status: 400 }
+      )
+    }
+
+    // Only bookings the exception still affects can be acted on
+    const affectedBookings = await findAffectedBookings(exception)
+    const decided = new Set(validatedData.bookings.map(decision => decision.booking_id))
+    const decisions = [
+      ...validatedData.bookings,
+      ...(validatedData.action
+        ? affectedBookings
+            .filter(entry => !decided.has(entry.booking.id))
+            .map(entry => ({ booking_id: entry.booking.id, action: validatedData.action! }))
+        : [])
+    ]
+
+    const results = await resolveAffectedBookings(
+      affectedBookings,
+      decisions,
+      validatedData.reason ?? exception.reason ?? EXCEPTION_UNAVAILABLE_REASONS[exception.exception_type]
+    )
+    const resolvedCount = results.filter(result => result.status !== 'failed').length
+
+    return NextResponse.json({
+      success: true,
+      message: `${resolvedCount} of ${results.length} bookings resolved`,
+      data: results
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Affected bookings POST error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,21 +1,50 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
 import { validateRosterAccess } from '@/lib/subscription'
+import {
+  getExceptionWindow,
+  getNextDayExceptionWindow,
+  parseTime,
+  windowsOverlap,
+  ScheduleExceptionRow,
+  TimeWindow,
+  EXCEPTION_UNAVAILABLE_REASONS
+} from '@/lib/availability'
+import { addDays } from '@/lib/recurrence'
+import { scheduleWaitlistMatch } from '@/lib/waitlist'
+import { emitWebhookEvent } from '@/lib/webhooks'
+import {
+  findAffectedBookings,
+  resolveAffectedBookings,
+  AffectedBooking,
+  AffectedBookingResult
+} from '@/lib/reassignment'
 import { z } from 'zod'
 
 // Validation schema for schedule exception creation
 const createExceptionSchema = z.object({
   entity_platform_id: z.string().uuid(),
-  staff_member_id: z.string().uuid().optional(), // Optional for hospital-wide exceptions
+  staff_member_id: z.string().uuid().optional(), // Omit for hospital-wide closures that apply to every staff member
   exception_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (YYYY-MM-DD)'),
   exception_type: z.enum(['holiday', 'sick_leave', 'personal_leave', 'emergency', 'training', 'custom']),
-  is_available: z.boolean().default(false), // Most exceptions make staff unavailable
+  is_available: z.boolean().default(false), // true adds start_time-end_time as extra working hours
   start_time: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format (HH:MM)').optional(),
   end_time: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format (HH:MM)').optional(),
   reason: z.string().max(500).optional(),
   notes: z.string().max(1000).optional(),
+  // What to do with active bookings the unavailability overlaps; report only lists them
+  on_affected_bookings: z.enum(['report', 'cancel', 'reassign']).default('report'),
 })
 
+// Helper function to list the windows an exception covers by date, including the part of an overnight one after midnight
+function exceptionPieces(exception: Pick<ScheduleExceptionRow, 'start_time' | 'end_time'> & { exception_date: string }): { date: string; window: TimeWindow }[] {
+  const nextDay = getNextDayExceptionWindow(exception)
+  return [
+    { date: exception.exception_date, window: getExceptionWindow(exception) },
+    ...(nextDay ? [{ date: addDays(exception.exception_date, 1), window: nextDay }] : [])
+  ]
+}
+
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
@@ -113,7 +142,7 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     
     // Validate input
-    const validatedData = createExceptionSchema.parse(body)
+    const { on_affected_bookings: onAffectedBookings, ...validatedData } = createExceptionSchema.parse(body)
 
     // Check subscription access
     const accessCheck = await validateRosterAccess(validatedData.entity_platform_id)
@@ -145,22 +174,46 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Validate time range if both start and end times are provided
+    // Partial-day exceptions need both ends of the window
+    if (Boolean(validatedData.start_time) !== Boolean(validatedData.end_time)) {
+      return NextResponse.json(
+        { error: 'start_time and end_time must be provided together' },
+        { status: 400 }
+      )
+    }
+
+    // Validate time range if both start and end times are provided; an end time before the start time runs past midnight
     if (validatedData.start_time && validatedData.end_time) {
-      if (validatedData.start_time >= validatedData.end_time) {
+      if (parseTime(validatedData.start_time) === parseTime(validatedData.end_time)) {
         return NextResponse.json(
-          { error: 'Start time must be before end time' },
+          { error: 'Start and end time must differ; an end time before the start time runs past midnight' },
           { status: 400 }
         )
       }
     }
 
-    // Check for existing exceptions on the same date
+    // Hospital-wide exceptions are closures; extra hours only make sense per staff member
+    if (!validatedData.staff_member_id && validatedData.is_available) {
+      return NextResponse.json(
+        { error: 'Hospital-wide exceptions cannot add working hours; set staff_member_id' },
+        { status: 400 }
+      )
+    }
+
+    // Extra working hours must say which hours they add
+    if (validatedData.is_available && !validatedData.start_time) {
+      return NextResponse.json(
+        { error: 'start_time and end_time are required when is_available is true' },
+        { status: 400 }
+      )
+    }
+
+    // Check for overlapping exceptions on the same date, and on the dates either side for overnight ones
     let conflictQuery = supabaseAdmin
       .from('schedule_exceptions')
-      .select('id')
+      .select('id, exception_date, start_time, end_time')
       .eq('entity_platform_id', validatedData.entity_platform_id)
-      .eq('exception_date', validatedData.exception_date)
+      .in('exception_date', [addDays(validatedData.exception_date, -1), validatedData.exception_date, addDays(validatedData.exception_date, 1)])
       .eq('is_active', true)
 
     if (validatedData.staff_member_id) {
@@ -179,9 +232,17 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    if (existingExceptions && existingExceptions.length > 0) {
+    // Partial-day exceptions may share a date as long as their windows do not overlap
+    const newPieces = exceptionPieces(validatedData)
+    const overlapping = existingExceptions?.filter(existing =>
+      exceptionPieces(existing).some(piece => newPieces.some(newPiece =>
+        newPiece.date === piece.date && windowsOverlap(newPiece.window, piece.window)
+      ))
+    ) ?? []
+
+    if (overlapping.length > 0) {
       return NextResponse.json(
-        { error: 'An exception already exists for this date and staff member' },
+        { error: 'An overlapping exception already exists for this date and staff member' },
         { status: 409 }
       )
     }
@@ -209,10 +270,44 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Extra working hours open capacity for the waitlist
+    if (validatedData.is_available) {
+      scheduleWaitlistMatch({
+        entityPlatformId: validatedData.entity_platform_id,
+        trigger: 'extra_hours_added',
+        staffIds: validatedData.staff_member_id ? [validatedData.staff_member_id] : undefined,
+        startDate: validatedData.exception_date,
+        endDate: getNextDayExceptionWindow(validatedData) ? addDays(validatedData.exception_date, 1) : validatedData.exception_date
+      })
+    }
+
+    emitWebhookEvent(validatedData.entity_platform_id, 'exception.created', { exception: newException })
+
+    // Unavailability can strand existing bookings. The exception stands even if this step fails;
+    // GET /api/exceptions/{id}/affected-bookings shows the same list later
+    let affectedBookings: AffectedBooking[] | null = null
+    let resolutions: AffectedBookingResult[] = []
+    if (!validatedData.is_available) {
+      try {
+        affectedBookings = await findAffectedBookings(newException)
+        if (onAffectedBookings !== 'report') {
+          resolutions = await resolveAffectedBookings(
+            affectedBookings,
+            affectedBookings.map(entry => ({ booking_id: entry.booking.id, action: onAffectedBookings })),
+            validatedData.reason ?? EXCEPTION_UNAVAILABLE_REASONS[validatedData.exception_type]
+          )
+        }
+      } catch (impactError) {
+        console.error('Affected bookings error:', impactError)
+      }
+    }
+
     return NextResponse.json({
       success: true,
       message: 'Schedule exception created successfully',
-      data: newException
+      data: newException,
+      affected_bookings: affectedBookings,
+      ...(onAffectedBookings !== 'report' && { resolutions })
     }, { status: 201 })
 
   } catch (error) {
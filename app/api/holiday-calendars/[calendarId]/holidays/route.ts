@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { validateRosterAccess } from '@/lib/subscription'
+import { holidaySchema } from '@/lib/closures'
+import { z } from 'zod'
+
+// Validation schema for adding holidays to an existing calendar
+const addHolidaysSchema = z.object({
+  entity_platform_id: z.string().uuid(),
+  holidays: z.array(holidaySchema).min(1),
+})
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ calendarId: string }> }
+) {
+  try {
+    const { calendarId } = await params
+    const body = await request.json()
+
+    // Validate input
+    const validatedData = addHolidaysSchema.parse(body)
+
+    // Check subscription access
+    const accessCheck = await validateRosterAccess(validatedData.entity_platform_id)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    // Only the owning hospital can edit a calendar; shared calendars are managed centrally
+    const { data: calendar, error: calendarError } = await supabaseAdmin
+      .from('holiday_calendars')
+      .select('id')
+      .eq('id', calendarId)
+      .eq('entity_platform_id', validatedData.entity_platform_id)
+      .eq('is_active', true)
+      .single()
+
+    if (calendarError || !calendar) {
+      return NextResponse.json(
+        { error: 'Holiday calendar not found or not owned by this entity' },
+        { status: 404 }
+      )
+    }
+
+    const { data: holidays, error: createError } = await supabaseAdmin
+      .from('holiday_calendar_dates')
+      .insert(validatedData.holidays.map(holiday => ({ ...holiday, calendar_id: calendar.id })))
+      .select()
+
+    if (createError) {
+      console.error('Holiday creation error:', createError)
+      return NextResponse.json(
+        { error: 'Failed to add holidays to calendar' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Holidays added successfully',
+      data: holidays,
+      count: holidays.length
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Holidays POST error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
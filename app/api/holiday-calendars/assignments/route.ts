@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { validateRosterAccess } from '@/lib/subscription'
+import { z } from 'zod'
+
+// Validation schema for assigning a holiday calendar to a hospital
+const assignCalendarSchema = z.object({
+  entity_platform_id: z.string().uuid(),
+  calendar_id: z.string().uuid(),
+})
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    // Validate input
+    const validatedData = assignCalendarSchema.parse(body)
+
+    // Check subscription access
+    const accessCheck = await validateRosterAccess(validatedData.entity_platform_id)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    // Hospitals can assign shared calendars or their own
+    const { data: calendar, error: calendarError } = await supabaseAdmin
+      .from('holiday_calendars')
+      .select('id, name')
+      .eq('id', validatedData.calendar_id)
+      .or(`entity_platform_id.is.null,entity_platform_id.eq.${validatedData.entity_platform_id}`)
+      .eq('is_active', true)
+      .single()
+
+    if (calendarError || !calendar) {
+      return NextResponse.json(
+        { error: 'Holiday calendar not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data: existingAssignment } = await supabaseAdmin
+      .from('entity_holiday_calendars')
+      .select('id')
+      .eq('entity_platform_id', validatedData.entity_platform_id)
+      .eq('calendar_id', validatedData.calendar_id)
+      .maybeSingle()
+
+    if (existingAssignment) {
+      return NextResponse.json(
+        { error: 'Holiday calendar is already assigned to this entity' },
+        { status: 409 }
+      )
+    }
+
+    const { data: assignment, error: createError } = await supabaseAdmin
+      .from('entity_holiday_calendars')
+      .insert([validatedData])
+      .select()
+      .single()
+
+    if (createError) {
+      console.error('Holiday calendar assignment error:', createError)
+      return NextResponse.json(
+        { error: 'Failed to assign holiday calendar' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Holiday calendar "${calendar.name}" assigned successfully`,
+      data: assignment
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Holiday calendar assignments POST error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const entityId = searchParams.get('entity_id')
+    const calendarId = searchParams.get('calendar_id')
+
+    if (!entityId || !calendarId) {
+      return NextResponse.json(
+        { error: 'entity_id and calendar_id parameters are required' },
+        { status: 400 }
+      )
+    }
+
+    // Check subscription access to roster module
+    const accessCheck = await validateRosterAccess(entityId)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    const { data: removed, error } = await supabaseAdmin
+      .from('entity_holiday_calendars')
+      .delete()
+      .eq('entity_platform_id', entityId)
+      .eq('calendar_id', calendarId)
+      .select('id')
+
+    if (error) {
+      console.error('Holiday calendar unassignment error:', error)
+      return NextResponse.json(
+        { error: 'Failed to unassign holiday calendar' },
+        { status: 500 }
+      )
+    }
+
+    if (!removed || removed.length === 0) {
+      return NextResponse.json(
+        { error: 'Holiday calendar is not assigned to this entity' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Holiday calendar unassigned successfully'
+    })
+
+  } catch (error) {
+    console.error('Holiday calendar assignments DELETE error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,181 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { validateRosterAccess } from '@/lib/subscription'
+import { holidaySchema } from '@/lib/closures'
+import { z } from 'zod'
+
+// Validation schema for holiday calendar creation
+const createCalendarSchema = z.object({
+  entity_platform_id: z.string().uuid(),
+  name: z.string().min(1).max(255),
+  description: z.string().max(1000).optional(),
+  country_code: z.string().length(2).optional(),
+  holidays: z.array(holidaySchema).default([]),
+  assign: z.boolean().default(true), // Assign the new calendar to the creating hospital
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const entityId = searchParams.get('entity_id')
+
+    if (!entityId) {
+      return NextResponse.json(
+        { error: 'entity_id parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    // Check subscription access to roster module
+    const accessCheck = await validateRosterAccess(entityId)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    // Shared calendars (no owner) plus the hospital's own calendars
+    const { data: calendars, error } = await supabaseAdmin
+      .from('holiday_calendars')
+      .select(`
+        *,
+        holidays:holiday_calendar_dates(
+          id,
+          holiday_date,
+          name,
+          is_recurring,
+          start_time,
+          end_time
+        ),
+        assignments:entity_holiday_calendars(entity_platform_id)
+      `)
+      .or(`entity_platform_id.is.null,entity_platform_id.eq.${entityId}`)
+      .eq('assignments.entity_platform_id', entityId)
+      .eq('is_active', true)
+      .order('name')
+
+    if (error) {
+      console.error('Database error:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch holiday calendars' },
+        { status: 500 }
+      )
+    }
+
+    const data = calendars.map(({ assignments, ...calendar }) => ({
+      ...calendar,
+      is_assigned: assignments.length > 0
+    }))
+
+    return NextResponse.json({
+      success: true,
+      data,
+      count: data.length
+    })
+
+  } catch (error) {
+    console.error('Holiday calendars GET error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    // Validate input
+    const validatedData = createCalendarSchema.parse(body)
+
+    // Check subscription access
+    const accessCheck = await validateRosterAccess(validatedData.entity_platform_id)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    const { holidays, assign, ...calendarData } = validatedData
+
+    // Create the calendar
+    const { data: calendar, error: createError } = await supabaseAdmin
+      .from('holiday_calendars')
+      .insert([calendarData])
+      .select()
+      .single()
+
+    if (createError) {
+      console.error('Holiday calendar creation error:', createError)
+      return NextResponse.json(
+        { error: 'Failed to create holiday calendar' },
+        { status: 500 }
+      )
+    }
+
+    if (holidays.length > 0) {
+      const { error: holidaysError } = await supabaseAdmin
+        .from('holiday_calendar_dates')
+        .insert(holidays.map(holiday => ({ ...holiday, calendar_id: calendar.id })))
+
+      if (holidaysError) {
+        console.error('Holiday creation error:', holidaysError)
+        // Don't leave a half-created calendar behind
+        await supabaseAdmin.from('holiday_calendars').delete().eq('id', calendar.id)
+        return NextResponse.json(
+          { error: 'Failed to create holidays for calendar' },
+          { status: 500 }
+        )
+      }
+    }
+
+    if (assign) {
+      const { error: assignError } = await supabaseAdmin
+        .from('entity_holiday_calendars')
+        .insert([{ entity_platform_id: validatedData.entity_platform_id, calendar_id: calendar.id }])
+
+      if (assignError) {
+        console.error('Holiday calendar assignment error:', assignError)
+        return NextResponse.json(
+          { error: 'Holiday calendar created but could not be assigned', data: calendar },
+          { status: 500 }
+        )
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Holiday calendar created successfully',
+      data: { ...calendar, holidays, is_assigned: assign }
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Holiday calendars POST error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { validateRosterAccess } from '@/lib/subscription'
+import { z } from 'zod'
+
+// Validation schema for overbooking policy updates (role_type is fixed once created)
+const updateOverbookingPolicySchema = z.object({
+  entity_platform_id: z.string().uuid(),
+  max_concurrent_bookings: z.number().int().min(1).max(10).optional(),
+  max_overbooked_per_day: z.number().int().min(0).nullable().optional(), // null removes the daily limit
+  allowed_source_services: z.array(z.string().min(1)).optional(),
+  is_active: z.boolean().optional(),
+})
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ policyId: string }> }
+) {
+  try {
+    const { policyId } = await params
+    const body = await request.json()
+
+    // Validate input
+    const { entity_platform_id: entityId, ...updates } = updateOverbookingPolicySchema.parse(body)
+
+    // Check subscription access
+    const accessCheck = await validateRosterAccess(entityId)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    // Existing bookings are never undone; a lower limit only applies to new bookings
+    const { data: policy, error: updateError } = await supabaseAdmin
+      .from('overbooking_policies')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', policyId)
+      .eq('entity_platform_id', entityId)
+      .select()
+      .maybeSingle()
+
+    if (updateError) {
+      console.error('Overbooking policy update error:', updateError)
+      return NextResponse.json(
+        { error: 'Failed to update overbooking policy' },
+        { status: 500 }
+      )
+    }
+
+    if (!policy) {
+      return NextResponse.json(
+        { error: 'Overbooking policy not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Overbooking policy updated successfully',
+      data: policy
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Overbooking policy PATCH error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Deleting a policy puts the role back to one booking at a time
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ policyId: string }> }
+) {
+  try {
+    const { policyId } = await params
+    const { searchParams } = new URL(request.url)
+    const entityId = searchParams.get('entity_id')
+
+    if (!entityId) {
+      return NextResponse.json(
+        { error: 'entity_id parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    // Check subscription access to roster module
+    const accessCheck = await validateRosterAccess(entityId)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    const { data: deleted, error } = await supabaseAdmin
+      .from('overbooking_policies')
+      .delete()
+      .eq('id', policyId)
+      .eq('entity_platform_id', entityId)
+      .select('id')
+
+    if (error) {
+      console.error('Overbooking policy deletion error:', error)
+      return NextResponse.json(
+        { error: 'Failed to delete overbooking policy' },
+        { status: 500 }
+      )
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json(
+        { error: 'Overbooking policy not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Overbooking policy deleted successfully'
+    })
+
+  } catch (error) {
+    console.error('Overbooking policy DELETE error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { validateRosterAccess } from '@/lib/subscription'
+import { z } from 'zod'
+
+// Validation schema for overbooking policy creation
+const createOverbookingPolicySchema = z.object({
+  entity_platform_id: z.string().uuid(),
+  role_type: z.string().min(1).max(100),
+  max_concurrent_bookings: z.number().int().min(1).max(10), // e.g. 2 lets a nurse see two short appointments at once
+  max_overbooked_per_day: z.number().int().min(0).optional(), // Omit for no daily limit
+  allowed_source_services: z.array(z.string().min(1)).default([]), // Empty = every service may overbook, e.g. ['ff-er']
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const entityId = searchParams.get('entity_id')
+    const activeOnly = searchParams.get('active_only') !== 'false'
+
+    if (!entityId) {
+      return NextResponse.json(
+        { error: 'entity_id parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    // Check subscription access to roster module
+    const accessCheck = await validateRosterAccess(entityId)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    let query = supabaseAdmin
+      .from('overbooking_policies')
+      .select('*')
+      .eq('entity_platform_id', entityId)
+
+    if (activeOnly) {
+      query = query.eq('is_active', true)
+    }
+
+    const { data: policies, error } = await query.order('role_type')
+
+    if (error) {
+      console.error('Database error:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch overbooking policies' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: policies,
+      count: policies.length
+    })
+
+  } catch (error) {
+    console.error('Overbooking policies GET error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    // Validate input
+    const validatedData = createOverbookingPolicySchema.parse(body)
+
+    // Check subscription access
+    const accessCheck = await validateRosterAccess(validatedData.entity_platform_id)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    // One policy per role per hospital
+    const { data: existingPolicy } = await supabaseAdmin
+      .from('overbooking_policies')
+      .select('id')
+      .eq('entity_platform_id', validatedData.entity_platform_id)
+      .eq('role_type', validatedData.role_type)
+      .maybeSingle()
+
+    if (existingPolicy) {
+      return NextResponse.json(
+        { error: `An overbooking policy for ${validatedData.role_type} already exists`, policy_id: existingPolicy.id },
+        { status: 409 }
+      )
+    }
+
+    const { data: policy, error: createError } = await supabaseAdmin
+      .from('overbooking_policies')
+      .insert([{ ...validatedData, max_overbooked_per_day: validatedData.max_overbooked_per_day ?? null }])
+      .select()
+      .single()
+
+    if (createError) {
+      console.error('Overbooking policy creation error:', createError)
+      return NextResponse.json(
+        { error: 'Failed to create overbooking policy' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Overbooking policy created successfully',
+      data: policy
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Overbooking policy POST error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,190 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { validateRosterAccess } from '@/lib/subscription'
+import { parseTime } from '@/lib/availability'
+import { z } from 'zod'
+
+// Validation schema for resource downtime (maintenance, repairs, deep cleaning)
+const createResourceExceptionSchema = z.object({
+  entity_platform_id: z.string().uuid(),
+  exception_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (YYYY-MM-DD)'),
+  start_time: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format (HH:MM)').optional(),
+  end_time: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format (HH:MM)').optional(),
+  reason: z.string().max(500).optional(),
+  created_by: z.string().uuid().optional(),
+})
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ resourceId: string }> }
+) {
+  try {
+    const { resourceId } = await params
+    const { searchParams } = new URL(request.url)
+    const entityId = searchParams.get('entity_id')
+    const startDate = searchParams.get('start_date')
+    const endDate = searchParams.get('end_date')
+
+    if (!entityId) {
+      return NextResponse.json(
+        { error: 'entity_id parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    // Check subscription access to roster module
+    const accessCheck = await validateRosterAccess(entityId)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    let query = supabaseAdmin
+      .from('resource_exceptions')
+      .select(`
+        *,
+        resource:resources!inner(
+          id,
+          entity_platform_id,
+          name,
+          resource_type
+        )
+      `)
+      .eq('resource_id', resourceId)
+      .eq('resource.entity_platform_id', entityId)
+      .eq('is_active', true)
+
+    if (startDate) {
+      query = query.gte('exception_date', startDate)
+    }
+
+    if (endDate) {
+      query = query.lte('exception_date', endDate)
+    }
+
+    const { data: exceptions, error } = await query.order('exception_date').order('start_time')
+
+    if (error) {
+      console.error('Database error:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch resource exceptions' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: exceptions,
+      count: exceptions.length
+    })
+
+  } catch (error) {
+    console.error('Resource exceptions GET error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ resourceId: string }> }
+) {
+  try {
+    const { resourceId } = await params
+    const body = await request.json()
+
+    // Validate input
+    const { entity_platform_id: entityId, ...exceptionData } = createResourceExceptionSchema.parse(body)
+
+    // Check subscription access
+    const accessCheck = await validateRosterAccess(entityId)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    // Verify resource exists and belongs to this entity
+    const { data: resource, error: resourceError } = await supabaseAdmin
+      .from('resources')
+      .select('id')
+      .eq('id', resourceId)
+      .eq('entity_platform_id', entityId)
+      .eq('is_active', true)
+      .single()
+
+    if (resourceError || !resource) {
+      return NextResponse.json(
+        { error: 'Resource not found or does not belong to this entity' },
+        { status: 404 }
+      )
+    }
+
+    // Partial-day downtime needs both times; omit both for the whole day
+    if (!exceptionData.start_time !== !exceptionData.end_time) {
+      return NextResponse.json(
+        { error: 'start_time and end_time must be provided together' },
+        { status: 400 }
+      )
+    }
+
+    if (exceptionData.start_time && exceptionData.end_time &&
+        parseTime(exceptionData.start_time) >= parseTime(exceptionData.end_time)) {
+      return NextResponse.json(
+        { error: 'Start time must be before end time' },
+        { status: 400 }
+      )
+    }
+
+    const { data: exception, error: createError } = await supabaseAdmin
+      .from('resource_exceptions')
+      .insert([{ ...exceptionData, resource_id: resource.id }])
+      .select()
+      .single()
+
+    if (createError) {
+      console.error('Resource exception creation error:', createError)
+      return NextResponse.json(
+        { error: 'Failed to create resource exception' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Resource exception created successfully',
+      data: exception
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Resource exceptions POST error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,207 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { validateRosterAccess } from '@/lib/subscription'
+import { parseTime, windowsOverlap } from '@/lib/availability'
+import { z } from 'zod'
+
+// Validation schema for resource availability blocks
+const createResourceScheduleSchema = z.object({
+  entity_platform_id: z.string().uuid(),
+  day_of_week: z.number().int().min(0).max(6), // 0 = Sunday, 6 = Saturday
+  start_time: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format (HH:MM)'),
+  end_time: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format (HH:MM)'),
+  is_available: z.boolean().default(true), // false blocks time inside the day's blocks (e.g. daily cleaning)
+  effective_from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (YYYY-MM-DD)'),
+  effective_until: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (YYYY-MM-DD)').optional(),
+})
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ resourceId: string }> }
+) {
+  try {
+    const { resourceId } = await params
+    const { searchParams } = new URL(request.url)
+    const entityId = searchParams.get('entity_id')
+
+    if (!entityId) {
+      return NextResponse.json(
+        { error: 'entity_id parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    // Check subscription access to roster module
+    const accessCheck = await validateRosterAccess(entityId)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    const { data: schedules, error } = await supabaseAdmin
+      .from('resource_schedules')
+      .select(`
+        *,
+        resource:resources!inner(
+          id,
+          entity_platform_id,
+          name,
+          resource_type
+        )
+      `)
+      .eq('resource_id', resourceId)
+      .eq('resource.entity_platform_id', entityId)
+      .eq('is_active', true)
+      .order('day_of_week')
+      .order('start_time')
+
+    if (error) {
+      console.error('Database error:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch resource schedules' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: schedules,
+      count: schedules.length
+    })
+
+  } catch (error) {
+    console.error('Resource schedules GET error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ resourceId: string }> }
+) {
+  try {
+    const { resourceId } = await params
+    const body = await request.json()
+
+    // Validate input
+    const { entity_platform_id: entityId, ...scheduleData } = createResourceScheduleSchema.parse(body)
+
+    // Check subscription access
+    const accessCheck = await validateRosterAccess(entityId)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    // Verify resource exists and belongs to this entity
+    const { data: resource, error: resourceError } = await supabaseAdmin
+      .from('resources')
+      .select('id')
+      .eq('id', resourceId)
+      .eq('entity_platform_id', entityId)
+      .eq('is_active', true)
+      .single()
+
+    if (resourceError || !resource) {
+      return NextResponse.json(
+        { error: 'Resource not found or does not belong to this entity' },
+        { status: 404 }
+      )
+    }
+
+    // Validate time range
+    if (parseTime(scheduleData.start_time) >= parseTime(scheduleData.end_time)) {
+      return NextResponse.json(
+        { error: 'Start time must be before end time' },
+        { status: 400 }
+      )
+    }
+
+    // Check for overlapping blocks of the same kind, as for staff schedules
+    const { data: existingSchedules, error: overlapError } = await supabaseAdmin
+      .from('resource_schedules')
+      .select('id, start_time, end_time, is_available')
+      .eq('resource_id', resourceId)
+      .eq('day_of_week', scheduleData.day_of_week)
+      .eq('is_active', true)
+      .lte('effective_from', scheduleData.effective_from)
+      .or(`effective_until.is.null,effective_until.gte.${scheduleData.effective_from}`)
+
+    if (overlapError) {
+      console.error('Overlap check error:', overlapError)
+      return NextResponse.json(
+        { error: 'Failed to check for schedule conflicts' },
+        { status: 500 }
+      )
+    }
+
+    const newBlock = { start: parseTime(scheduleData.start_time), end: parseTime(scheduleData.end_time) }
+    const conflictingBlocks = existingSchedules?.filter(existing =>
+      (existing.is_available !== false) === scheduleData.is_available &&
+      windowsOverlap({ start: parseTime(existing.start_time), end: parseTime(existing.end_time) }, newBlock)
+    ) ?? []
+
+    if (conflictingBlocks.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Schedule conflict: This block overlaps an existing availability block for this resource on this day',
+          conflicting_schedule_ids: conflictingBlocks.map(block => block.id)
+        },
+        { status: 409 }
+      )
+    }
+
+    const { data: schedule, error: createError } = await supabaseAdmin
+      .from('resource_schedules')
+      .insert([{ ...scheduleData, resource_id: resource.id }])
+      .select()
+      .single()
+
+    if (createError) {
+      console.error('Resource schedule creation error:', createError)
+      return NextResponse.json(
+        { error: 'Failed to create resource schedule' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Resource schedule created successfully',
+      data: schedule
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Resource schedules POST error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { validateRosterAccess } from '@/lib/subscription'
+import { z } from 'zod'
+
+// Validation schema for resource creation
+const createResourceSchema = z.object({
+  entity_platform_id: z.string().uuid(),
+  name: z.string().min(1).max(255), // e.g. Theatre 1, X-ray Room B
+  resource_type: z.string().regex(/^[a-z0-9_]+$/, 'Resource type must be lowercase letters, digits and underscores').max(50), // e.g. operating_theater, xray_room, ultrasound
+  description: z.string().max(1000).optional(),
+  location: z.string().max(255).optional(),
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const entityId = searchParams.get('entity_id')
+    const resourceType = searchParams.get('resource_type')
+    const activeOnly = searchParams.get('active_only') !== 'false'
+
+    if (!entityId) {
+      return NextResponse.json(
+        { error: 'entity_id parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    // Check subscription access to roster module
+    const accessCheck = await validateRosterAccess(entityId)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    let query = supabaseAdmin
+      .from('resources')
+      .select('*')
+      .eq('entity_platform_id', entityId)
+
+    if (resourceType) {
+      query = query.eq('resource_type', resourceType)
+    }
+
+    if (activeOnly) {
+      query = query.eq('is_active', true)
+    }
+
+    const { data: resources, error } = await query.order('resource_type').order('name')
+
+    if (error) {
+      console.error('Database error:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch resources' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: resources,
+      count: resources.length
+    })
+
+  } catch (error) {
+    console.error('Resources GET error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    // Validate input
+    const validatedData = createResourceSchema.parse(body)
+
+    // Check subscription access
+    const accessCheck = await validateRosterAccess(validatedData.entity_platform_id)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    // Resource names are unique within a hospital
+    const { data: existingResource } = await supabaseAdmin
+      .from('resources')
+      .select('id')
+      .eq('entity_platform_id', validatedData.entity_platform_id)
+      .eq('name', validatedData.name)
+      .maybeSingle()
+
+    if (existingResource) {
+      return NextResponse.json(
+        { error: `Resource "${validatedData.name}" already exists for this entity` },
+        { status: 409 }
+      )
+    }
+
+    const { data: resource, error: createError } = await supabaseAdmin
+      .from('resources')
+      .insert([validatedData])
+      .select()
+      .single()
+
+    if (createError) {
+      console.error('Resource creation error:', createError)
+      return NextResponse.json(
+        { error: 'Failed to create resource' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Resource created successfully',
+      data: resource
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Resources POST error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,204 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { validateRosterAccess } from '@/lib/subscription'
+import { getEntityTimezone, getTodayInTimezone } from '@/lib/timezone'
+import { addDays } from '@/lib/recurrence'
+import { findRotaPattern, getCycleWeek } from '@/lib/rota'
+import { supersedeSchedules, WeeklySchedule } from '@/lib/schedules'
+import { emitWebhookEvent } from '@/lib/webhooks'
+import { z } from 'zod'
+
+// Validation schema for ending a rota; its blocks stay in the history up to the day before effective_from
+const endRotaPatternSchema = z.object({
+  entity_id: z.string().uuid(),
+  effective_from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (YYYY-MM-DD)').optional(),
+  reason: z.string().max(500).optional(),
+})
+
+// Helper function to load a pattern's blocks that are not cancelled, oldest version first
+async function loadPatternSchedules(patternId: string): Promise<WeeklySchedule[]> {
+  const { data, error } = await supabaseAdmin
+    .from('weekly_schedules')
+    .select('*')
+    .eq('rota_pattern_id', patternId)
+    .eq('is_active', true)
+    .order('effective_from')
+    .order('cycle_week')
+    .order('day_of_week')
+    .order('start_time')
+
+  if (error) {
+    console.error('Rota blocks fetch error:', error)
+    throw new Error('Failed to fetch rota blocks')
+  }
+
+  return data
+}
+
+// A pattern with its blocks and the cycle week of each of the next weeks
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ patternId: string }> }
+) {
+  try {
+    const { patternId } = await params
+    const { searchParams } = new URL(request.url)
+    const entityId = searchParams.get('entity_id')
+
+    if (!entityId) {
+      return NextResponse.json(
+        { error: 'entity_id parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    // Check subscription access to roster module
+    const accessCheck = await validateRosterAccess(entityId)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    const pattern = await findRotaPattern(entityId, patternId)
+    if (!pattern) {
+      return NextResponse.json(
+        { error: 'Rota pattern not found' },
+        { status: 404 }
+      )
+    }
+
+    const date = searchParams.get('date') || getTodayInTimezone(await getEntityTimezone(entityId))
+    const schedules = await loadPatternSchedules(patternId)
+
+    // One full cycle from date, so callers can see which week applies when
+    const upcomingWeeks = Array.from({ length: pattern.cycle_weeks }, (_, index) => {
+      const weekDate = addDays(date, index * 7)
+      return { week_of: weekDate, cycle_week: getCycleWeek(pattern, weekDate) }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...pattern,
+        schedules,
+        cycle_week: getCycleWeek(pattern, date),
+        upcoming_weeks: upcomingWeeks
+      },
+      date
+    })
+
+  } catch (error) {
+    console.error('Rota pattern GET error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// End a rota from a date; blocks that have not started by then are cancelled
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ patternId: string }> }
+) {
+  try {
+    const { patternId } = await params
+    const { searchParams } = new URL(request.url)
+    const validatedQuery = endRotaPatternSchema.parse({
+      entity_id: searchParams.get('entity_id'),
+      effective_from: searchParams.get('effective_from') ?? undefined,
+      reason: searchParams.get('reason') ?? undefined
+    })
+
+    // Check subscription access to roster module
+    const accessCheck = await validateRosterAccess(validatedQuery.entity_id)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    const pattern = await findRotaPattern(validatedQuery.entity_id, patternId)
+    if (!pattern) {
+      return NextResponse.json(
+        { error: 'Rota pattern not found' },
+        { status: 404 }
+      )
+    }
+
+    const today = getTodayInTimezone(await getEntityTimezone(validatedQuery.entity_id))
+    const effectiveDate = validatedQuery.effective_from ?? today
+    if (effectiveDate < today) {
+      return NextResponse.json(
+        { error: 'Schedule changes cannot be backdated; effective_from must be today or later' },
+        { status: 400 }
+      )
+    }
+
+    // Blocks that already ended are history and stay as they are
+    const schedules = (await loadPatternSchedules(patternId))
+      .filter(schedule => !schedule.effective_until || schedule.effective_until >= effectiveDate)
+
+    if (schedules.length === 0) {
+      return NextResponse.json(
+        { error: `This rota has no blocks in effect on or after ${effectiveDate}` },
+        { status: 409 }
+      )
+    }
+
+    const result = await supersedeSchedules(
+      schedules.map(schedule => schedule.id),
+      effectiveDate,
+      [],
+      validatedQuery.reason ?? null
+    )
+    if (result.conflict !== null) {
+      return NextResponse.json(
+        { error: result.conflict },
+        { status: 409 }
+      )
+    }
+
+    emitWebhookEvent(validatedQuery.entity_id, 'schedule.changed', {
+      change: 'ended',
+      effective_from: effectiveDate,
+      rota_pattern: pattern,
+      schedules
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: `Rota ends after ${addDays(effectiveDate, -1)}`,
+      ended_schedule_ids: schedules.map(schedule => schedule.id)
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Rota pattern DELETE error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,269 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { validateRosterAccess } from '@/lib/subscription'
+import { getEntityTimezone, getTodayInTimezone } from '@/lib/timezone'
+import { parseTime } from '@/lib/availability'
+import { getCycleWeek, MAX_CYCLE_WEEKS, RotaPattern } from '@/lib/rota'
+import { findOverlappingBlocks, WeeklySchedule } from '@/lib/schedules'
+import { scheduleWaitlistMatch } from '@/lib/waitlist'
+import { emitWebhookEvent } from '@/lib/webhooks'
+import { z } from 'zod'
+
+// Validation schema for one block of a rota; cycle_week 1 is the week starting on anchor_date
+const rotaBlockSchema = z.object({
+  cycle_week: z.number().int().min(1).max(MAX_CYCLE_WEEKS),
+  day_of_week: z.number().int().min(0).max(6), // 0 = Sunday, 6 = Saturday
+  start_time: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format (HH:MM)'),
+  end_time: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format (HH:MM)'),
+  is_available: z.boolean().default(true), // false marks a break inside the same cycle week's blocks
+  slot_duration_minutes: z.number().int().min(5).max(480).default(15),
+  slot_interval_minutes: z.number().int().min(5).max(240).optional(),
+}).refine(block => parseTime(block.start_time) !== parseTime(block.end_time), {
+  message: 'Start and end time must differ; an end time before the start time runs past midnight',
+  path: ['end_time']
+})
+
+// Validation schema for rota pattern creation
+const createRotaPatternSchema = z.object({
+  entity_platform_id: z.string().uuid(),
+  staff_member_id: z.string().uuid(),
+  name: z.string().min(1).max(255), // e.g. "Alternate weekends"
+  description: z.string().max(1000).optional(),
+  cycle_weeks: z.number().int().min(1).max(MAX_CYCLE_WEEKS),
+  anchor_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (YYYY-MM-DD)'),
+  effective_from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (YYYY-MM-DD)').optional(), // Defaults to anchor_date
+  effective_until: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (YYYY-MM-DD)').optional(),
+  blocks: z.array(rotaBlockSchema).min(1).max(200),
+}).refine(data => data.blocks.every(block => block.cycle_week <= data.cycle_weeks), {
+  message: 'Every block needs a cycle_week between 1 and cycle_weeks',
+  path: ['blocks']
+}).refine(data => !data.effective_until || data.effective_until >= (data.effective_from ?? data.anchor_date), {
+  message: 'effective_until must not be before effective_from',
+  path: ['effective_until']
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const entityId = searchParams.get('entity_id')
+    const staffMemberId = searchParams.get('staff_member_id')
+
+    if (!entityId) {
+      return NextResponse.json(
+        { error: 'entity_id parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    // Check subscription access to roster module
+    const accessCheck = await validateRosterAccess(entityId)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    // Cycle weeks are reported for this date, today in the hospital's timezone by default
+    const date = searchParams.get('date') || getTodayInTimezone(await getEntityTimezone(entityId))
+
+    let query = supabaseAdmin
+      .from('rota_patterns')
+      .select('*, schedules:weekly_schedules(*)')
+      .eq('entity_platform_id', entityId)
+      .eq('schedules.is_active', true)
+
+    if (staffMemberId) {
+      query = query.eq('staff_member_id', staffMemberId)
+    }
+
+    const { data, error } = await query.order('name')
+
+    if (error) {
+      console.error('Database error:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch rota patterns' },
+        { status: 500 }
+      )
+    }
+
+    const patterns = (data as (RotaPattern & { schedules: WeeklySchedule[] })[]).map(pattern => ({
+      ...pattern,
+      cycle_week: getCycleWeek(pattern, date)
+    }))
+
+    return NextResponse.json({
+      success: true,
+      data: patterns,
+      count: patterns.length,
+      date
+    })
+
+  } catch (error) {
+    console.error('Rota patterns GET error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    // Validate input
+    const { blocks, effective_from, effective_until, ...validatedData } = createRotaPatternSchema.parse(body)
+    const effectiveFrom = effective_from ?? validatedData.anchor_date
+
+    // Check subscription access
+    const accessCheck = await validateRosterAccess(validatedData.entity_platform_id)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    // Verify staff member exists and belongs to this entity
+    const { data: staffMember, error: staffError } = await supabaseAdmin
+      .from('staff_members')
+      .select('id')
+      .eq('id', validatedData.staff_member_id)
+      .eq('entity_platform_id', validatedData.entity_platform_id)
+      .eq('is_active', true)
+      .single()
+
+    if (staffError || !staffMember) {
+      return NextResponse.json(
+        { error: 'Staff member not found or does not belong to this entity' },
+        { status: 404 }
+      )
+    }
+
+    // Blocks of the same cycle week must not overlap each other, overnight ones included. A placeholder pattern ID
+    // keeps blocks of different cycle weeks apart until the pattern exists.
+    const newBlocks = blocks.map(block => ({ ...block, rota_pattern_id: 'new' }))
+    const overlapping = newBlocks.find((block, index) =>
+      findOverlappingBlocks(block, newBlocks.slice(index + 1)).length > 0
+    )
+    if (overlapping) {
+      return NextResponse.json(
+        { error: `Blocks overlap on day ${overlapping.day_of_week} of cycle week ${overlapping.cycle_week}` },
+        { status: 400 }
+      )
+    }
+
+    // Nor the staff member's other blocks in effect when the rota starts
+    const { data: existingSchedules, error: overlapError } = await supabaseAdmin
+      .from('weekly_schedules')
+      .select('*')
+      .eq('staff_member_id', validatedData.staff_member_id)
+      .eq('is_active', true)
+      .lte('effective_from', effectiveFrom)
+      .or(`effective_until.is.null,effective_until.gte.${effectiveFrom}`)
+
+    if (overlapError) {
+      console.error('Overlap check error:', overlapError)
+      return NextResponse.json(
+        { error: 'Failed to check for schedule conflicts' },
+        { status: 500 }
+      )
+    }
+
+    const conflictingBlocks = newBlocks.flatMap(block => findOverlappingBlocks(block, existingSchedules as WeeklySchedule[]))
+    if (conflictingBlocks.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Schedule conflict: The rota overlaps existing schedule blocks for this staff member',
+          conflicting_schedule_ids: [...new Set(conflictingBlocks.map(block => block.id))]
+        },
+        { status: 409 }
+      )
+    }
+
+    const { data: pattern, error: createError } = await supabaseAdmin
+      .from('rota_patterns')
+      .insert([validatedData])
+      .select()
+      .single()
+
+    if (createError) {
+      console.error('Rota pattern creation error:', createError)
+      return NextResponse.json(
+        { error: 'Failed to create rota pattern' },
+        { status: 500 }
+      )
+    }
+
+    const { data: schedules, error: blocksError } = await supabaseAdmin
+      .from('weekly_schedules')
+      .insert(blocks.map(block => ({
+        ...block,
+        staff_member_id: validatedData.staff_member_id,
+        rota_pattern_id: pattern.id,
+        effective_from: effectiveFrom,
+        effective_until: effective_until ?? null
+      })))
+      .select()
+
+    if (blocksError) {
+      // Without its blocks the pattern is useless; remove it so the request can be retried
+      await supabaseAdmin.from('rota_patterns').delete().eq('id', pattern.id)
+
+      console.error('Rota blocks creation error:', blocksError)
+      return NextResponse.json(
+        { error: 'Failed to create rota pattern' },
+        { status: 500 }
+      )
+    }
+
+    if (blocks.some(block => block.is_available)) {
+      scheduleWaitlistMatch({
+        entityPlatformId: validatedData.entity_platform_id,
+        trigger: 'schedule_added',
+        staffIds: [validatedData.staff_member_id],
+        startDate: effectiveFrom,
+        endDate: effective_until
+      })
+    }
+
+    emitWebhookEvent(validatedData.entity_platform_id, 'schedule.changed', {
+      change: 'created',
+      rota_pattern: pattern,
+      schedules
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Rota pattern created successfully',
+      data: { ...pattern, schedules }
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Rota patterns POST error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
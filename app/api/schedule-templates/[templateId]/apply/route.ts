@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateRosterAccess } from '@/lib/subscription'
+import { getEntityTimezone, getTodayInTimezone } from '@/lib/timezone'
+import {
+  applyTemplatePlan,
+  findScheduleTemplate,
+  loadTemplateTargets,
+  planTemplateApplication,
+  TemplatePlanEntry
+} from '@/lib/schedule-templates'
+import { scheduleWaitlistMatch } from '@/lib/waitlist'
+import { emitWebhookEvent } from '@/lib/webhooks'
+import { z } from 'zod'
+
+// Validation schema for applying a template to a list of staff members or a whole role
+const applyTemplateSchema = z.object({
+  entity_platform_id: z.string().uuid(),
+  staff_member_ids: z.array(z.string().uuid()).min(1).max(500).optional(),
+  role_type: z.string().min(1).max(100).optional(), // e.g. "nurse": every active staff member with the role
+  effective_from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (YYYY-MM-DD)'),
+  effective_until: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (YYYY-MM-DD)').optional(),
+  on_conflict: z.enum(['skip', 'replace', 'fail']).default('fail'),
+  dry_run: z.boolean().default(false), // true = only report what would happen
+  reason: z.string().max(500).optional(),
+}).refine(data => !data.staff_member_ids !== !data.role_type, {
+  message: 'Provide either staff_member_ids or role_type',
+  path: ['staff_member_ids']
+}).refine(data => !data.effective_until || data.effective_until >= data.effective_from, {
+  message: 'effective_until must not be before effective_from',
+  path: ['effective_until']
+})
+
+// Helper function to describe a plan entry for the response
+function toPreview(entry: TemplatePlanEntry) {
+  return {
+    staff_member_id: entry.staff_member.id,
+    full_name: entry.staff_member.full_name,
+    role_type: entry.staff_member.role_type,
+    action: entry.action,
+    conflicting_schedules: entry.conflicting_schedules
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  try {
+    const { templateId } = await params
+    const body = await request.json()
+
+    // Validate input
+    const validatedData = applyTemplateSchema.parse(body)
+    const entityId = validatedData.entity_platform_id
+
+    // Check subscription access
+    const accessCheck = await validateRosterAccess(entityId)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    const template = await findScheduleTemplate(entityId, templateId)
+    if (!template) {
+      return NextResponse.json(
+        { error: 'Schedule template not found' },
+        { status: 404 }
+      )
+    }
+
+    const today = getTodayInTimezone(await getEntityTimezone(entityId))
+    if (validatedData.effective_from < today) {
+      return NextResponse.json(
+        { error: 'Schedule changes cannot be backdated; effective_from must be today or later' },
+        { status: 400 }
+      )
+    }
+
+    const { staff, missingStaffIds } = await loadTemplateTargets(entityId, validatedData)
+    if (missingStaffIds.length > 0) {
+      return NextResponse.json(
+        { error: 'Staff members not found or do not belong to this entity', missing_staff_ids: missingStaffIds },
+        { status: 404 }
+      )
+    }
+    if (staff.length === 0) {
+      return NextResponse.json(
+        { error: `No active staff members with role ${validatedData.role_type}` },
+        { status: 404 }
+      )
+    }
+
+    const plan = await planTemplateApplication(template, staff, validatedData.effective_from, validatedData.on_conflict)
+    const preview = plan.map(toPreview)
+    const conflicts = plan.filter(entry => entry.conflicting_schedules.length > 0).length
+
+    if (validatedData.dry_run) {
+      return NextResponse.json({
+        success: true,
+        dry_run: true,
+        data: preview,
+        summary: { staff: plan.length, conflicts }
+      })
+    }
+
+    // Nothing is written when any staff member would clash
+    if (plan.some(entry => entry.action === 'conflict')) {
+      return NextResponse.json(
+        {
+          error: `Schedule conflict: ${conflicts} staff member(s) already have hours the template clashes with; choose skip or replace`,
+          data: preview
+        },
+        { status: 409 }
+      )
+    }
+
+    const results = await applyTemplatePlan(
+      template,
+      plan,
+      validatedData.effective_from,
+      validatedData.effective_until ?? null,
+      validatedData.reason ?? `Applied schedule template "${template.name}"`
+    )
+
+    const applied = results.filter(result => result.status === 'applied')
+    if (applied.length > 0 && template.blocks.some(block => block.is_available)) {
+      scheduleWaitlistMatch({
+        entityPlatformId: entityId,
+        trigger: 'schedule_added',
+        staffIds: applied.map(result => result.staff_member_id),
+        startDate: validatedData.effective_from,
+        endDate: validatedData.effective_until
+      })
+    }
+
+    for (const result of applied) {
+      emitWebhookEvent(entityId, 'schedule.changed', {
+        change: result.replaced_schedule_ids!.length > 0 ? 'updated' : 'created',
+        effective_from: validatedData.effective_from,
+        schedule_template: { id: template.id, name: template.name },
+        schedules: result.schedules,
+        replaced_schedule_ids: result.replaced_schedule_ids
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Schedule template applied to ${applied.length} of ${results.length} staff member(s)`,
+      data: results,
+      summary: {
+        applied: applied.length,
+        skipped: results.filter(result => result.status === 'skipped').length,
+        failed: results.filter(result => result.status === 'failed').length
+      }
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Schedule template apply error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
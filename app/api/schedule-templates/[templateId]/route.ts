@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { validateRosterAccess } from '@/lib/subscription'
+import { findScheduleTemplate } from '@/lib/schedule-templates'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  try {
+    const { templateId } = await params
+    const { searchParams } = new URL(request.url)
+    const entityId = searchParams.get('entity_id')
+
+    if (!entityId) {
+      return NextResponse.json(
+        { error: 'entity_id parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    // Check subscription access to roster module
+    const accessCheck = await validateRosterAccess(entityId)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    const template = await findScheduleTemplate(entityId, templateId)
+    if (!template) {
+      return NextResponse.json(
+        { error: 'Schedule template not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: template
+    })
+
+  } catch (error) {
+    console.error('Schedule template GET error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Retire a template; schedules it was applied to are ordinary blocks and stay as they are
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  try {
+    const { templateId } = await params
+    const { searchParams } = new URL(request.url)
+    const entityId = searchParams.get('entity_id')
+
+    if (!entityId) {
+      return NextResponse.json(
+        { error: 'entity_id parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    // Check subscription access to roster module
+    const accessCheck = await validateRosterAccess(entityId)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    const { data: template, error } = await supabaseAdmin
+      .from('schedule_templates')
+      .update({ is_active: false, updated_at: new Date().toISOString() })
+      .eq('id', templateId)
+      .eq('entity_platform_id', entityId)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      console.error('Schedule template deactivation error:', error)
+      return NextResponse.json(
+        { error: 'Failed to deactivate schedule template' },
+        { status: 500 }
+      )
+    }
+
+    if (!template) {
+      return NextResponse.json(
+        { error: 'Schedule template not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Schedule template deactivated successfully',
+      data: template
+    })
+
+  } catch (error) {
+    console.error('Schedule template DELETE error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { validateRosterAccess } from '@/lib/subscription'
+import { parseTime } from '@/lib/availability'
+import { findOverlappingBlocks } from '@/lib/schedules'
+import { TEMPLATE_WITH_BLOCKS_SELECT } from '@/lib/schedule-templates'
+import { z } from 'zod'
+
+// Validation schema for one block of a template
+const templateBlockSchema = z.object({
+  day_of_week: z.number().int().min(0).max(6), // 0 = Sunday, 6 = Saturday
+  start_time: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format (HH:MM)'),
+  end_time: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format (HH:MM)'),
+  is_available: z.boolean().default(true), // false marks a break inside the same day's blocks
+  slot_duration_minutes: z.number().int().min(5).max(480).default(15),
+  slot_interval_minutes: z.number().int().min(5).max(240).optional(),
+}).refine(block => parseTime(block.start_time) !== parseTime(block.end_time), {
+  message: 'Start and end time must differ; an end time before the start time runs past midnight',
+  path: ['end_time']
+})
+
+// Validation schema for schedule template creation
+const createTemplateSchema = z.object({
+  entity_platform_id: z.string().uuid(),
+  name: z.string().min(1).max(255), // e.g. "Standard vet week"
+  description: z.string().max(1000).optional(),
+  blocks: z.array(templateBlockSchema).min(1).max(100),
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const entityId = searchParams.get('entity_id')
+
+    if (!entityId) {
+      return NextResponse.json(
+        { error: 'entity_id parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    // Check subscription access to roster module
+    const accessCheck = await validateRosterAccess(entityId)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    const { data: templates, error } = await supabaseAdmin
+      .from('schedule_templates')
+      .select(TEMPLATE_WITH_BLOCKS_SELECT)
+      .eq('entity_platform_id', entityId)
+      .eq('is_active', true)
+      .order('name')
+
+    if (error) {
+      console.error('Database error:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch schedule templates' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: templates,
+      count: templates.length
+    })
+
+  } catch (error) {
+    console.error('Schedule templates GET error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    // Validate input
+    const { blocks, ...templateData } = createTemplateSchema.parse(body)
+
+    // Check subscription access
+    const accessCheck = await validateRosterAccess(templateData.entity_platform_id)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    // The blocks become one staff member's week, so they must not overlap each other, overnight ones included
+    const overlapping = blocks.find((block, index) => findOverlappingBlocks(block, blocks.slice(index + 1)).length > 0)
+    if (overlapping) {
+      return NextResponse.json(
+        { error: `Blocks overlap on day ${overlapping.day_of_week}` },
+        { status: 400 }
+      )
+    }
+
+    const { data: template, error: createError } = await supabaseAdmin
+      .from('schedule_templates')
+      .insert([templateData])
+      .select()
+      .single()
+
+    if (createError) {
+      console.error('Schedule template creation error:', createError)
+      return NextResponse.json(
+        { error: 'Failed to create schedule template' },
+        { status: 500 }
+      )
+    }
+
+    const { data: templateBlocks, error: blocksError } = await supabaseAdmin
+      .from('schedule_template_blocks')
+      .insert(blocks.map(block => ({ ...block, template_id: template.id })))
+      .select()
+
+    if (blocksError) {
+      console.error('Schedule template blocks creation error:', blocksError)
+      // Don't leave a template without blocks behind
+      await supabaseAdmin.from('schedule_templates').delete().eq('id', template.id)
+      return NextResponse.json(
+        { error: 'Failed to create schedule template' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Schedule template created successfully',
+      data: { ...template, blocks: templateBlocks }
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Schedule templates POST error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
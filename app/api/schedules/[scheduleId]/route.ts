@@ -0,0 +1,323 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateRosterAccess } from '@/lib/subscription'
+import { getEntityTimezone, getTodayInTimezone } from '@/lib/timezone'
+import { parseTime } from '@/lib/availability'
+import { addDays } from '@/lib/recurrence'
+import {
+  findOverlappingBlocks,
+  findSchedule,
+  loadDayVersion,
+  loadNeighbouringBlocks,
+  supersedeSchedules,
+  toNextVersion,
+  ScheduleBlock,
+  WeeklySchedule
+} from '@/lib/schedules'
+import { scheduleWaitlistMatch } from '@/lib/waitlist'
+import { emitWebhookEvent } from '@/lib/webhooks'
+import { z } from 'zod'
+
+// Validation schema for schedule updates. Changes apply from effective_from (today by default,
+// or a future date to schedule them); earlier dates keep the current version.
+const updateScheduleSchema = z.object({
+  entity_platform_id: z.string().uuid(),
+  start_time: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format (HH:MM)').optional(),
+  end_time: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format (HH:MM)').optional(),
+  is_available: z.boolean().optional(),
+  slot_duration_minutes: z.number().int().min(5).max(480).optional(),
+  slot_interval_minutes: z.number().int().min(5).max(240).nullable().optional(), // null = back to the hospital default
+  effective_from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (YYYY-MM-DD)').optional(),
+  reason: z.string().max(500).optional(),
+})
+
+// Validation schema for ending a block; it stays in the history up to the day before effective_from
+const endScheduleSchema = z.object({
+  entity_id: z.string().uuid(),
+  effective_from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (YYYY-MM-DD)').optional(),
+  reason: z.string().max(500).optional(),
+})
+
+// Helper function to check a change date against today and the version being changed
+function checkChangeDate(schedule: WeeklySchedule, date: string, today: string): string | null {
+  if (date < today) {
+    return 'Schedule changes cannot be backdated; effective_from must be today or later'
+  }
+  if (date < schedule.effective_from || (schedule.effective_until && date > schedule.effective_until)) {
+    return `effective_from must fall within this version (${schedule.effective_from} to ${schedule.effective_until ?? 'indefinite'})`
+  }
+  return null
+}
+
+// Change a block from a date: the current version ends the day before and a new version starts
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ scheduleId: string }> }
+) {
+  try {
+    const { scheduleId } = await params
+    const body = await request.json()
+
+    // Validate input
+    const { entity_platform_id: entityId, effective_from: changeDate, reason, ...changes } = updateScheduleSchema.parse(body)
+
+    // Check subscription access
+    const accessCheck = await validateRosterAccess(entityId)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    const schedule = await findSchedule(entityId, scheduleId)
+    if (!schedule) {
+      return NextResponse.json(
+        { error: 'Schedule not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!schedule.is_active) {
+      return NextResponse.json(
+        { error: 'This schedule version was cancelled and cannot be changed' },
+        { status: 409 }
+      )
+    }
+
+    // Versions that start later are changed from their first day, so history is never rewritten
+    const today = getTodayInTimezone(await getEntityTimezone(entityId))
+    const effectiveDate = changeDate
+      ?? (schedule.effective_from > today ? schedule.effective_from : today)
+    const dateError = checkChangeDate(schedule, effectiveDate, today)
+    if (dateError) {
+      return NextResponse.json(
+        { error: dateError },
+        { status: 400 }
+      )
+    }
+
+    const updated: ScheduleBlock = { ...toNextVersion(schedule), ...changes }
+
+    // An end time before the start time runs past midnight into the next day
+    if (parseTime(updated.start_time) === parseTime(updated.end_time)) {
+      return NextResponse.json(
+        { error: 'Start and end time must differ; an end time before the start time runs past midnight' },
+        { status: 400 }
+      )
+    }
+
+    const unchanged = (Object.keys(changes) as (keyof typeof changes)[]).every(field =>
+      field === 'start_time' || field === 'end_time'
+        ? parseTime(changes[field]!) === parseTime(schedule[field])
+        : changes[field] === schedule[field]
+    )
+    if (unchanged) {
+      return NextResponse.json(
+        { error: 'No changes to apply' },
+        { status: 400 }
+      )
+    }
+
+    const day = await loadDayVersion(schedule, effectiveDate)
+    if (day.supersededOn !== null) {
+      return NextResponse.json(
+        {
+          error: `A later version of this day takes effect on ${day.supersededOn}; change that version instead`,
+          superseded_on: day.supersededOn
+        },
+        { status: 409 }
+      )
+    }
+
+    const siblings = day.schedules.filter(sibling => sibling.id !== schedule.id)
+    const neighbours = await loadNeighbouringBlocks(schedule.staff_member_id, schedule.day_of_week, effectiveDate)
+    const conflictingBlocks = findOverlappingBlocks(updated, [...siblings, ...neighbours])
+    if (conflictingBlocks.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Schedule conflict: This block overlaps an existing schedule block for this staff member',
+          conflicting_schedule_ids: conflictingBlocks.map(block => block.id)
+        },
+        { status: 409 }
+      )
+    }
+
+    const result = await supersedeSchedules(
+      day.schedules.map(row => row.id),
+      effectiveDate,
+      [...siblings.map(toNextVersion), updated],
+      reason ?? null
+    )
+    if (result.conflict !== null) {
+      return NextResponse.json(
+        { error: result.conflict },
+        { status: 409 }
+      )
+    }
+
+    const newSchedule = result.schedules.find(row => row.previous_version_id === schedule.id)!
+
+    // Longer or moved hours can open capacity for the waitlist
+    if (newSchedule.is_available) {
+      scheduleWaitlistMatch({
+        entityPlatformId: entityId,
+        trigger: 'schedule_added',
+        staffIds: [schedule.staff_member_id],
+        startDate: effectiveDate,
+        endDate: newSchedule.effective_until ?? undefined
+      })
+    }
+
+    emitWebhookEvent(entityId, 'schedule.changed', {
+      change: 'updated',
+      effective_from: effectiveDate,
+      previous: schedule,
+      schedule: newSchedule
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: effectiveDate > today
+        ? `Schedule change scheduled for ${effectiveDate}`
+        : 'Schedule updated successfully',
+      data: newSchedule,
+      day_schedules: result.schedules
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Schedule PATCH error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// End a block from a date; the rows stay as history and versions that never started are cancelled
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ scheduleId: string }> }
+) {
+  try {
+    const { scheduleId } = await params
+    const { searchParams } = new URL(request.url)
+    const validatedQuery = endScheduleSchema.parse({
+      entity_id: searchParams.get('entity_id'),
+      effective_from: searchParams.get('effective_from') ?? undefined,
+      reason: searchParams.get('reason') ?? undefined
+    })
+
+    // Check subscription access to roster module
+    const accessCheck = await validateRosterAccess(validatedQuery.entity_id)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    const schedule = await findSchedule(validatedQuery.entity_id, scheduleId)
+    if (!schedule) {
+      return NextResponse.json(
+        { error: 'Schedule not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!schedule.is_active) {
+      return NextResponse.json(
+        { error: 'This schedule version was already cancelled' },
+        { status: 409 }
+      )
+    }
+
+    const today = getTodayInTimezone(await getEntityTimezone(validatedQuery.entity_id))
+    const effectiveDate = validatedQuery.effective_from
+      ?? (schedule.effective_from > today ? schedule.effective_from : today)
+    const dateError = checkChangeDate(schedule, effectiveDate, today)
+    if (dateError) {
+      return NextResponse.json(
+        { error: dateError },
+        { status: 400 }
+      )
+    }
+
+    const day = await loadDayVersion(schedule, effectiveDate)
+    if (day.supersededOn !== null) {
+      return NextResponse.json(
+        {
+          error: `A later version of this day takes effect on ${day.supersededOn}; change that version instead`,
+          superseded_on: day.supersededOn
+        },
+        { status: 409 }
+      )
+    }
+
+    // The day's other blocks carry over unchanged into the new version
+    const result = await supersedeSchedules(
+      day.schedules.map(row => row.id),
+      effectiveDate,
+      day.schedules.filter(sibling => sibling.id !== schedule.id).map(toNextVersion),
+      validatedQuery.reason ?? null
+    )
+    if (result.conflict !== null) {
+      return NextResponse.json(
+        { error: result.conflict },
+        { status: 409 }
+      )
+    }
+
+    emitWebhookEvent(validatedQuery.entity_id, 'schedule.changed', {
+      change: 'ended',
+      effective_from: effectiveDate,
+      schedule
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: effectiveDate > schedule.effective_from
+        ? `Schedule ends after ${addDays(effectiveDate, -1)}`
+        : 'Schedule cancelled before it took effect',
+      day_schedules: result.schedules
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Schedule DELETE error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { validateRosterAccess } from '@/lib/subscription'
+import { getEntityTimezone, getTodayInTimezone } from '@/lib/timezone'
+import { buildWeekVersions, WeeklySchedule } from '@/lib/schedules'
+import { z } from 'zod'
+
+// Validation schema for schedule history queries
+const scheduleHistorySchema = z.object({
+  entity_id: z.string().uuid(),
+  staff_member_id: z.string().uuid(),
+})
+
+// Every version of a staff member's week, past, current and scheduled, plus the rows behind them
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const validatedQuery = scheduleHistorySchema.parse({
+      entity_id: searchParams.get('entity_id'),
+      staff_member_id: searchParams.get('staff_member_id')
+    })
+
+    // Check subscription access to roster module
+    const accessCheck = await validateRosterAccess(validatedQuery.entity_id)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    // Cancelled versions are included so the log shows every change that was made
+    const { data, error } = await supabaseAdmin
+      .from('weekly_schedules')
+      .select('*, staff_member:staff_members!inner(entity_platform_id)')
+      .eq('staff_member_id', validatedQuery.staff_member_id)
+      .eq('staff_member.entity_platform_id', validatedQuery.entity_id)
+      .order('effective_from')
+      .order('day_of_week')
+      .order('start_time')
+
+    if (error) {
+      console.error('Database error:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch schedule history' },
+        { status: 500 }
+      )
+    }
+
+    const schedules = data as WeeklySchedule[]
+    const today = getTodayInTimezone(await getEntityTimezone(validatedQuery.entity_id))
+
+    return NextResponse.json({
+      success: true,
+      data: buildWeekVersions(schedules, today),
+      schedules,
+      count: schedules.length,
+      today
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Schedule history GET error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
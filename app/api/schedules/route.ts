@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
 import { validateRosterAccess } from '@/lib/subscription'
+import { getDayOfWeek, getEntityTimezone, getTodayInTimezone } from '@/lib/timezone'
+import { parseTime } from '@/lib/availability'
+import { addDays } from '@/lib/recurrence'
+import { appliesInCycleWeek, findRotaPattern, RotaBlockFields } from '@/lib/rota'
+import { findOverlappingBlocks, loadBlocksToCarryOver, supersedeSchedules, toNextVersion, ScheduleBlock, WeeklySchedule } from '@/lib/schedules'
+import { scheduleWaitlistMatch } from '@/lib/waitlist'
+import { emitWebhookEvent } from '@/lib/webhooks'
 import { z } from 'zod'
 
 // Validation schema for schedule creation
@@ -10,15 +17,16 @@ const createScheduleSchema = z.object({
   day_of_week: z.number().int().min(0).max(6), // 0 = Sunday, 6 = Saturday
   start_time: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format (HH:MM)'),
   end_time: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format (HH:MM)'),
-  is_available: z.boolean().default(true),
+  is_available: z.boolean().default(true), // false marks a break (e.g. lunch) inside the day's blocks
   effective_from: z.string().datetime(),
   effective_until: z.string().datetime().optional(),
   slot_duration_minutes: z.number().int().min(5).max(480).default(15),
-})
-
-const updateScheduleSchema = createScheduleSchema.partial().omit({
-  entity_platform_id: true,
-  staff_member_id: true,
+  slot_interval_minutes: z.number().int().min(5).max(240).optional(), // Start-time granularity; defaults to the hospital's, then slot_duration_minutes
+  rota_pattern_id: z.string().uuid().optional(), // Adds the block to a rotating rota
+  cycle_week: z.number().int().min(1).optional(), // Required with rota_pattern_id
+}).refine(data => (data.rota_pattern_id === undefined) === (data.cycle_week === undefined), {
+  message: 'rota_pattern_id and cycle_week go together',
+  path: ['cycle_week']
 })
 
 export async function GET(request: NextRequest) {
@@ -27,7 +35,6 @@ export async function GET(request: NextRequest) {
     const entityId = searchParams.get('entity_id')
     const staffMemberId = searchParams.get('staff_member_id')
     const dayOfWeek = searchParams.get('day_of_week')
-    const effectiveDate = searchParams.get('effective_date') || new Date().toISOString().split('T')[0]
 
     if (!entityId) {
       return NextResponse.json(
@@ -49,6 +56,9 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    // Default to today in the hospital's timezone rather than the server's
+    const effectiveDate = searchParams.get('effective_date') || getTodayInTimezone(await getEntityTimezone(entityId))
+
     // Build query for weekly schedules
     let query = supabaseAdmin
       .from('weekly_schedules')
@@ -61,6 +71,11 @@ export async function GET(request: NextRequest) {
           full_name,
           role_type,
           can_take_appointments
+        ),
+        rota_pattern:rota_patterns(
+          name,
+          cycle_weeks,
+          anchor_date
         )
       `)
       .eq('staff_member.entity_platform_id', entityId)
@@ -77,7 +92,7 @@ export async function GET(request: NextRequest) {
       query = query.eq('day_of_week', parseInt(dayOfWeek))
     }
 
-    const { data: schedules, error } = await query.order('day_of_week').order('start_time')
+    const { data, error } = await query.order('day_of_week').order('start_time')
 
     if (error) {
       console.error('Database error:', error)
@@ -87,6 +102,11 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    // The week starting on effective_date: rota blocks only in the cycle week of their day's date
+    const schedules = (data as (RotaBlockFields & { day_of_week: number })[]).filter(schedule =>
+      appliesInCycleWeek(schedule, addDays(effectiveDate, (schedule.day_of_week - getDayOfWeek(effectiveDate) + 7) % 7))
+    )
+
     return NextResponse.json({
       success: true,
       data: schedules,
@@ -125,7 +145,7 @@ export async function POST(request: NextRequest) {
     // Verify staff member exists and belongs to this entity
     const { data: staffMember, error: staffError } = await supabaseAdmin
       .from('staff_members')
-      .select('id, entity_platform_id')
+      .select('id, entity_platform_id, employee_id, full_name, role_type')
       .eq('id', validatedData.staff_member_id)
       .eq('entity_platform_id', validatedData.entity_platform_id)
       .eq('is_active', true)
@@ -138,20 +158,37 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Validate time range
-    if (validatedData.start_time >= validatedData.end_time) {
+    if (validatedData.rota_pattern_id) {
+      const pattern = await findRotaPattern(validatedData.entity_platform_id, validatedData.rota_pattern_id)
+      if (!pattern || pattern.staff_member_id !== validatedData.staff_member_id) {
+        return NextResponse.json(
+          { error: 'Rota pattern not found for this staff member' },
+          { status: 404 }
+        )
+      }
+      if (validatedData.cycle_week! > pattern.cycle_weeks) {
+        return NextResponse.json(
+          { error: `cycle_week must be between 1 and ${pattern.cycle_weeks} for this rota pattern` },
+          { status: 400 }
+        )
+      }
+    }
+
+    // Validate time range; an end time before the start time runs past midnight into the next day
+    if (parseTime(validatedData.start_time) === parseTime(validatedData.end_time)) {
       return NextResponse.json(
-        { error: 'Start time must be before end time' },
+        { error: 'Start and end time must differ; an end time before the start time runs past midnight' },
         { status: 400 }
       )
     }
 
-    // Check for overlapping schedules
+    // Check for overlapping schedule blocks (several non-overlapping blocks per day are allowed).
+    // Overnight blocks reach into the next day, so the days either side are checked too.
     const { data: existingSchedules, error: overlapError } = await supabaseAdmin
       .from('weekly_schedules')
-      .select('id')
+      .select('id, day_of_week, start_time, end_time, is_available, rota_pattern_id, cycle_week')
       .eq('staff_member_id', validatedData.staff_member_id)
-      .eq('day_of_week', validatedData.day_of_week)
+      .in('day_of_week', [(validatedData.day_of_week + 6) % 7, validatedData.day_of_week, (validatedData.day_of_week + 1) % 7])
       .eq('is_active', true)
       .lte('effective_from', validatedData.effective_from)
       .or(`effective_until.is.null,effective_until.gte.${validatedData.effective_from}`)
@@ -164,40 +201,106 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    if (existingSchedules && existingSchedules.length > 0) {
+    const conflictingBlocks = findOverlappingBlocks(validatedData, existingSchedules ?? [])
+
+    if (conflictingBlocks.length > 0) {
       return NextResponse.json(
-        { error: 'Schedule conflict: A schedule already exists for this staff member on this day' },
+        {
+          error: 'Schedule conflict: This block overlaps an existing schedule block for this staff member ',
+          conflicting_schedule_ids: conflictingBlocks.map(block => block.id)
+        },
         { status: 409 }
       )
     }
 
-    // Create the schedule
-    const { data: newSchedule, error: createError } = await supabaseAdmin
-      .from('weekly_schedules')
-      .insert([validatedData])
-      .select(`
-        *,
-        staff_member:staff_members(
-          id,
-          employee_id,
-          full_name,
-          role_type
-        )
-      `)
-      .single()
-
-    if (createError) {
-      console.error('Schedule creation error:', createError)
+    // Slots use only the latest version of a day, so a block starting after the day's other
+    // blocks joins them in a new version rather than hiding them
+    const effectiveFrom = validatedData.effective_from.slice(0, 10)
+    const carryOver = await loadBlocksToCarryOver(validatedData, effectiveFrom)
+    if (carryOver.supersededOn !== null) {
       return NextResponse.json(
-        { error: 'Failed to create schedule' },
-        { status: 500 }
+        {
+          error: `A later version of this day takes effect on ${carryOver.supersededOn}; add the block to that version instead`,
+          superseded_on: carryOver.supersededOn
+        },
+        { status: 409 }
       )
     }
 
+    let newSchedule: WeeklySchedule
+    let daySchedules: WeeklySchedule[] | undefined
+
+    if (carryOver.schedules.length === 0) {
+      const { data: created, error: createError } = await supabaseAdmin
+        .from('weekly_schedules')
+        .insert([validatedData])
+        .select()
+        .single()
+
+      if (createError) {
+        console.error('Schedule creation error:', createError)
+        return NextResponse.json(
+          { error: 'Failed to create schedule' },
+          { status: 500 }
+        )
+      }
+      newSchedule = created
+    } else {
+      const block: ScheduleBlock = {
+        staff_member_id: validatedData.staff_member_id,
+        day_of_week: validatedData.day_of_week,
+        start_time: validatedData.start_time,
+        end_time: validatedData.end_time,
+        is_available: validatedData.is_available,
+        slot_duration_minutes: validatedData.slot_duration_minutes,
+        slot_interval_minutes: validatedData.slot_interval_minutes ?? null,
+        effective_until: validatedData.effective_until?.slice(0, 10) ?? null,
+        previous_version_id: null,
+        rota_pattern_id: validatedData.rota_pattern_id ?? null,
+        cycle_week: validatedData.cycle_week ?? null
+      }
+      const result = await supersedeSchedules(
+        carryOver.schedules.map(schedule => schedule.id),
+        effectiveFrom,
+        [...carryOver.schedules.map(toNextVersion), block],
+        null
+      )
+      if (result.conflict !== null) {
+        return NextResponse.json(
+          { error: result.conflict },
+          { status: 409 }
+        )
+      }
+      newSchedule = result.schedules.find(schedule => schedule.previous_version_id === null)!
+      daySchedules = result.schedules
+    }
+
+    // A new working block opens capacity for the waitlist; breaks only take it away
+    if (validatedData.is_available) {
+      scheduleWaitlistMatch({
+        entityPlatformId: validatedData.entity_platform_id,
+        trigger: 'schedule_added',
+        staffIds: [validatedData.staff_member_id],
+        startDate: validatedData.effective_from.slice(0, 10),
+        endDate: validatedData.effective_until?.slice(0, 10)
+      })
+    }
+
+    emitWebhookEvent(validatedData.entity_platform_id, 'schedule.changed', { change: 'created', schedule: newSchedule })
+
     return NextResponse.json({
       success: true,
       message: 'Schedule created successfully',
-      data: newSchedule
+      data: {
+        ...newSchedule,
+        staff_member: {
+          id: staffMember.id,
+          employee_id: staffMember.employee_id,
+          full_name: staffMember.full_name,
+          role_type: staffMember.role_type
+        }
+      },
+      ...(daySchedules && { day_schedules: daySchedules })
     }, { status: 201 })
 
   } catch (error) {
@@ -1,40 +1,96 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
 import { validateRosterAccess } from '@/lib/subscription'
+import { getEntityTimezone } from '@/lib/timezone'
+import { getAppointmentType, resolveEligibleRoles, AppointmentType } from '@/lib/appointment-types'
+import { buildResourceRequirements, loadResourceAvailability } from '@/lib/resources'
+import { buildTeamRequirements, parseTeamComposition, TeamSlot } from '@/lib/teams'
+import { enumerateDates, generateSlotsForStaff, generateTeamSlots, getEntitySlotInterval, loadAvailabilityData, AvailabilityData, TimeSlot } from '@/lib/slots'
 import { z } from 'zod'
 
+// Maximum number of days a single range query may span
+const MAX_RANGE_DAYS = 31
+
 // Validation schema for slot queries
 const getAvailableSlotsSchema = z.object({
   entity_id: z.string().uuid(),
-  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format').optional(),
+  start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Start date must be in YYYY-MM-DD format').optional(),
+  end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'End date must be in YYYY-MM-DD format').optional(),
   staff_id: z.string().uuid().optional(),
-  duration: z.coerce.number().int().min(5).max(480).default(15),
-  role_type: z.string().optional()
+  duration: z.coerce.number().int().min(5).max(480).optional(), // Defaults to the appointment type's duration, else 15
+  role_type: z.string().optional(),
+  appointment_type: z.string().min(1).optional(), // Code from the hospital's appointment type catalog
+  resource_types: z.array(z.string().min(1)).optional(), // Comma-separated, e.g. ultrasound,xray_room
+  resource_ids: z.array(z.string().uuid()).optional(), // Comma-separated specific rooms or equipment
+  team: z.string().refine(team => parseTeamComposition(team) !== null, 'Team must look like vet:1,nurse:1').optional(),
+  team_staff_ids: z.array(z.string().uuid()).optional(), // Comma-separated staff who must all take part
+  source_service: z.string().min(1).optional(), // Service that will book; overbooking policies may be limited to some services
+  mode: z.enum(['all', 'first_available']).default('all'),
+  limit: z.coerce.number().int().min(1).max(100).default(10)
+}).refine(query => query.date || query.start_date, {
+  message: 'Either date or start_date is required',
+  path: ['date']
 })
 
-interface TimeSlot {
-  start_time: string
-  end_time: string
-  is_available: boolean
-  staff_id: string
-  staff_name: string
-  staff_role: string
-  unavailable_reason?: string
-}
-
 export async function GET(request: NextRequest) {
+  const requestStartedAt = performance.now()
+
   try {
     const { searchParams } = new URL(request.url)
     const queryParams = {
       entity_id: searchParams.get('entity_id'),
-      date: searchParams.get('date'),
-      staff_id: searchParams.get('staff_id'),
-      duration: searchParams.get('duration'),
-      role_type: searchParams.get('role_type')
+      date: searchParams.get('date') ?? undefined,
+      start_date: searchParams.get('start_date') ?? undefined,
+      end_date: searchParams.get('end_date') ?? undefined,
+      staff_id: searchParams.get('staff_id') ?? undefined,
+      duration: searchParams.get('duration') ?? undefined,
+      role_type: searchParams.get('role_type') ?? undefined,
+      appointment_type: searchParams.get('appointment_type') ?? undefined,
+      resource_types: searchParams.get('resource_types')?.split(',') ?? undefined,
+      resource_ids: searchParams.get('resource_ids')?.split(',') ?? undefined,
+      team: searchParams.get('team') ?? undefined,
+      team_staff_ids: searchParams.get('team_staff_ids')?.split(',') ?? undefined,
+      source_service: searchParams.get('source_service') ?? undefined,
+      mode: searchParams.get('mode') ?? undefined,
+      limit: searchParams.get('limit') ?? undefined
     }
 
     const validatedQuery = getAvailableSlotsSchema.parse(queryParams)
 
+    // A single date is shorthand for a one-day range
+    const startDate = validatedQuery.start_date ?? validatedQuery.date!
+    const endDate = validatedQuery.end_date ?? startDate
+
+    if (endDate < startDate) {
+      return NextResponse.json(
+        { error: 'end_date must be on or after start_date' },
+        { status: 400 }
+      )
+    }
+
+    const dates = enumerateDates(startDate, endDate)
+    if (dates.length > MAX_RANGE_DAYS) {
+      return NextResponse.json(
+        { error: `Date range cannot exceed ${MAX_RANGE_DAYS} days` },
+        { status: 400 }
+      )
+    }
+
+    // A team search returns times when every member is free together
+    const teamRequirements = buildTeamRequirements(
+      validatedQuery.team ? parseTeamComposition(validatedQuery.team)! : [],
+      validatedQuery.team_staff_ids
+    )
+    const isTeamSearch = teamRequirements.length > 0
+
+    if (isTeamSearch && (validatedQuery.staff_id || validatedQuery.role_type)) {
+      return NextResponse.json(
+        { error: 'Use team and team_staff_ids instead of staff_id and role_type for team searches' },
+        { status: 400 }
+      )
+    }
+
     // Check subscription access
     const accessCheck = await validateRosterAccess(validatedQuery.entity_id)
     if (!accessCheck.allowed) {
@@ -48,6 +104,39 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    // Appointment types supply the duration, eligible roles and buffers
+    let appointmentType: AppointmentType | null = null
+    if (validatedQuery.appointment_type) {
+      appointmentType = await getAppointmentType(validatedQuery.entity_id, validatedQuery.appointment_type)
+      if (!appointmentType) {
+        return NextResponse.json(
+          { error: `Unknown appointment type: ${validatedQuery.appointment_type}` },
+          { status: 404 }
+        )
+      }
+    }
+
+    // Slots are generated in the hospital's local time, at its start-time granularity
+    const [timeZone, entityInterval] = await Promise.all([
+      getEntityTimezone(validatedQuery.entity_id),
+      getEntitySlotInterval(validatedQuery.entity_id)
+    ])
+
+    const slotRequest = {
+      duration: validatedQuery.duration ?? appointmentType?.duration_minutes ?? 15,
+      bufferBefore: appointmentType?.buffer_before_minutes ?? 0,
+      bufferAfter: appointmentType?.buffer_after_minutes ?? 0,
+      entityInterval,
+      // Rooms and equipment required by the appointment type or asked for by the caller
+      resourceRequirements: buildResourceRequirements(
+        appointmentType?.required_resource_types ?? [],
+        validatedQuery.resource_types,
+        validatedQuery.resource_ids
+      ),
+      sourceService: validatedQuery.source_service
+    }
+    const eligibleRoles = resolveEligibleRoles(appointmentType, validatedQuery.role_type)
+
     // Get staff members based on filters
     let staffQuery = supabaseAdmin
       .from('staff_members')
@@ -60,8 +149,19 @@ export async function GET(request: NextRequest) {
       staffQuery = staffQuery.eq('id', validatedQuery.staff_id)
     }
 
-    if (validatedQuery.role_type) {
-      staffQuery = staffQuery.eq('role_type', validatedQuery.role_type)
+    if (isTeamSearch) {
+      // The team composition decides who is needed, not the appointment type's eligible roles
+      const teamFilters: string[] = []
+      const teamRoles = teamRequirements.flatMap(requirement => 'role_type' in requirement ? [requirement.role_type] : [])
+      if (teamRoles.length > 0) {
+        teamFilters.push(`role_type.in.(${[...new Set(teamRoles)].join(',')})`)
+      }
+      if (validatedQuery.team_staff_ids?.length) {
+        teamFilters.push(`id.in.(${validatedQuery.team_staff_ids.join(',')})`)
+      }
+      staffQuery = staffQuery.or(teamFilters.join(','))
+    } else if (eligibleRoles) {
+      staffQuery = staffQuery.in('role_type', eligibleRoles)
     }
 
     const { data: staff, error: staffError } = await staffQuery
@@ -74,35 +174,93 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    const responseMeta = {
+      date: validatedQuery.date,
+      start_date: startDate,
+      end_date: endDate,
+      duration: slotRequest.duration,
+      appointment_type: appointmentType?.code,
+      mode: validatedQuery.mode,
+      team: isTeamSearch ? teamRequirements : undefined,
+      timezone: timeZone
+    }
+
     if (!staff || staff.length === 0) {
       return NextResponse.json({
-        date: validatedQuery.date,
-        duration: validatedQuery.duration,
+        ...responseMeta,
         slots: [],
         subscription: accessCheck.subscription
       })
     }
 
-    // Generate time slots for each staff member
-    const allSlots: TimeSlot[] = []
-
-    for (const staffMember of staff) {
-      const slots = await generateSlotsForStaff(
-        staffMember,
-        validatedQuery.date,
-        validatedQuery.duration
+    // Load schedules, exceptions, bookings and required resources for all staff and the whole range at once
+    const loadStartedAt = performance.now()
+    let availabilityData: AvailabilityData
+    try {
+      const [staffAvailability, resourceAvailability] = await Promise.all([
+        loadAvailabilityData(
+          validatedQuery.entity_id,
+          staff.map(staffMember => staffMember.id),
+          startDate,
+          endDate
+        ),
+        slotRequest.resourceRequirements.length > 0
+          ? loadResourceAvailability(validatedQuery.entity_id, slotRequest.resourceRequirements, startDate, endDate)
+          : Promise.resolve(undefined)
+      ])
+      availabilityData = {
+        ...staffAvailability,
+        resources: resourceAvailability,
+        queryCount: staffAvailability.queryCount + (resourceAvailability?.queryCount ?? 0)
+      }
+    } catch (loadError) {
+      console.error('Availability load error:', loadError)
+      return NextResponse.json(
+        { error: 'Failed to load availability data' },
+        { status: 500 }
       )
-      allSlots.push(...slots)
     }
+    const loadDuration = performance.now() - loadStartedAt
 
-    // Sort slots by time
-    allSlots.sort((a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime())
+    // Generate time slots day by day so first_available can stop early
+    const computeStartedAt = performance.now()
+    const allSlots: (TimeSlot | TeamSlot)[] = []
+
+    for (const date of dates) {
+      // Team members are checked together on one grid rather than each on their own
+      const daySlots: (TimeSlot | TeamSlot)[] = isTeamSearch
+        ? generateTeamSlots(staff, teamRequirements, date, slotRequest, timeZone, availabilityData)
+        : staff.flatMap(staffMember => generateSlotsForStaff(staffMember, date, slotRequest, timeZone, availabilityData))
+
+      // Sort slots by time
+      daySlots.sort((a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime())
+
+      if (validatedQuery.mode === 'first_available') {
+        allSlots.push(...daySlots.filter(slot => slot.is_available))
+        if (allSlots.length >= validatedQuery.limit) {
+          break
+        }
+      } else {
+        allSlots.push(...daySlots)
+      }
+    }
+
+    const computeDuration = performance.now() - computeStartedAt
 
     return NextResponse.json({
-      date: validatedQuery.date,
-      duration: validatedQuery.duration,
-      slots: allSlots,
+      ...responseMeta,
+      slots: validatedQuery.mode === 'first_available'
+        ? allSlots.slice(0, validatedQuery.limit)
+        : allSlots,
       subscription: accessCheck.subscription
+    }, {
+      headers: {
+        'Server-Timing': [
+          `db;desc="${availabilityData.queryCount} availability queries";dur=${loadDuration.toFixed(1)}`,
+          `compute;dur=${computeDuration.toFixed(1)}`,
+          `total;dur=${(performance.now() - requestStartedAt).toFixed(1)}`
+        ].join(', ')
+      }
     })
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -119,109 +277,3 @@ export async function GET(request: NextRequest) {
     )
   }
 }
-
-async function generateSlotsForStaff(
-  staff: any,
-  date: string,
-  duration: number
-): Promise<TimeSlot[]> {
-  const dayOfWeek = new Date(date).getDay()
-  
-  // Get staff schedule for the day
-  const { data: schedules } = await supabaseAdmin
-    .from('weekly_schedules')
-    .select('*')
-    .eq('staff_member_id', staff.id)
-    .eq('day_of_week', dayOfWeek)
-    .eq('is_active', true)
-    .lte('effective_from', new Date(date).toISOString())
-    .or(`effective_until.is.null,effective_until.gte.${new Date(date).toISOString()}`)
-
-  if (!schedules || schedules.length === 0) {
-    return [{
-      start_time: `${date}T09:00:00Z`,
-      end_time: `${date}T09:${duration.toString().padStart(2, '0')}:00Z`,
-      is_available: false,
-      staff_id: staff.id,
-      staff_name: staff.full_name,
-      staff_role: staff.role_type,
-      unavailable_reason: 'No schedule defined'
-    }]
-  }
-
-  const schedule = schedules[0] // Use the most recent schedule
-
-  // Check for schedule exceptions
-  const { data: exceptions } = await supabaseAdmin
-    .from('schedule_exceptions')
-    .select('*')
-    .eq('staff_member_id', staff.id)
-    .eq('exception_date', date)
-
-  // If staff is unavailable on this date
-  if (exceptions?.some(e => e.exception_type === 'unavailable' || e.exception_type === 'holiday' || e.exception_type === 'sick_leave')) {
-    return [{
-      start_time: `${date}T${schedule.start_time}:00Z`,
-      end_time: `${date}T${schedule.end_time}:00Z`,
-      is_available: false,
-      staff_id: staff.id,
-      staff_name: staff.full_name,
-      staff_role: staff.role_type,
-      unavailable_reason: 'Staff unavailable'
-    }]
-  }
-
-  // Get existing bookings for this date
-  const { data: bookings } = await supabaseAdmin
-    .from('external_bookings')
-    .select('*')
-    .eq('staff_member_id', staff.id)
-    .eq('booking_date', date)
-    .eq('status', 'active')
-
-  // Generate time slots
-  const slots: TimeSlot[] = []
-  const startTime = parseTime(schedule.start_time)
-  const endTime = parseTime(schedule.end_time)
-  
-  let currentTime = startTime
-
-  while (currentTime + duration <= endTime) {
-    const slotStart = currentTime
-    const slotEnd = currentTime + duration
-
-    // Check if slot overlaps with any booking
-    const isBooked = bookings?.some(booking => {
-      const bookingStart = parseTime(booking.booking_time)
-      const bookingEnd = parseTime(booking.booking_end_time)
-      return slotStart < bookingEnd && slotEnd > bookingStart
-    }) || false
-
-    slots.push({
-      start_time: `${date}T${formatTime(slotStart)}:00Z`,
-      end_time: `${date}T${formatTime(slotEnd)}:00Z`,
-      is_available: !isBooked,
-      staff_id: staff.id,
-      staff_name: staff.full_name,
-      staff_role: staff.role_type,
-      unavailable_reason: isBooked ? 'Already booked' : undefined
-    })
-
-    currentTime += duration
-  }
-
-  return slots
-}
-
-// Helper function to parse time string (HH:MM) to minutes since midnight
-function parseTime(timeString: string): number {
-  const [hours, minutes] = timeString.split(':').map(Number)
-  return hours * 60 + minutes
-}
-
-// Helper function to format minutes since midnight to HH:MM
-function formatTime(minutes: number): string {
-  const hours = Math.floor(minutes / 60)
-  const mins = minutes % 60
-  return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`
-}
\ No newline at end of file
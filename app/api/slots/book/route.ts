@@ -1,20 +1,33 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
 import { validateRosterAccess } from '@/lib/subscription'
+import { formatInTimezone } from '@/lib/timezone'
+import { parseTime } from '@/lib/availability'
+import {
+  bookingRequestSchema,
+  conflictCode,
+  hasBookingLength,
+  planBooking,
+  BOOKING_LENGTH_MESSAGE
+} from '@/lib/booking-requests'
+import { createBooking, CreateBookingResult } from '@/lib/bookings'
+import { findActiveHold, SlotHold } from '@/lib/holds'
+import { acceptOfferForHold, expireOffersAndRematch } from '@/lib/waitlist'
+import { emitBookingEvent } from '@/lib/webhooks'
 import { z } from 'zod'
 
 // Validation schema for booking creation
-const createBookingSchema = z.object({
-  entity_platform_id: z.string().uuid(),
-  staff_member_id: z.string().uuid(),
-  booking_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
-  booking_time: z.string().regex(/^\d{2}:\d{2}$/, 'Time must be in HH:MM format'),
-  booking_end_time: z.string().regex(/^\d{2}:\d{2}$/, 'End time must be in HH:MM format'),
-  duration_minutes: z.number().int().min(5).max(480),
+const createBookingSchema = bookingRequestSchema.extend({
+  hold_token: z.string().uuid().optional(), // Confirms a hold from POST /api/slots/hold
   external_booking_id: z.string().min(1),
   source_service: z.string().min(1),
-  metadata: z.record(z.string(), z.any()).optional()
-})
+  metadata: z.record(z.string(), z.any()).optional(),
+  // Emergencies: book outside working hours, exceptions and closures. Recorded on the booking
+  override: z.object({
+    reason: z.string().min(1).max(500),
+    authorized_by: z.string().min(1).max(255),
+  }).optional()
+}).refine(hasBookingLength, BOOKING_LENGTH_MESSAGE)
 
 export async function POST(request: NextRequest) {
   try {
@@ -34,22 +47,42 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Validate staff exists and belongs to entity
-    const { data: staff, error: staffError } = await supabaseAdmin
-      .from('staff_members')
-      .select('*')
-      .eq('id', validatedData.staff_member_id)
-      .eq('entity_platform_id', validatedData.entity_platform_id)
-      .eq('is_active', true)
-      .single()
+    // A hold fixes the time, team and resources; the booking must be for the same time
+    let hold: SlotHold | null = null
+    if (validatedData.hold_token) {
+      hold = await findActiveHold(validatedData.entity_platform_id, validatedData.hold_token)
+      if (!hold) {
+        // A waitlist offer booked too late expires now, so its entry is matched again
+        await expireOffersAndRematch(validatedData.entity_platform_id).catch(() => {
+          // Already logged; the hold is gone either way
+        })
+        return NextResponse.json(
+          { error: 'Hold not found or expired', code: 'hold_expired' },
+          { status: 410 }
+        )
+      }
 
-    if (staffError || !staff) {
-      return NextResponse.json(
-        { error: 'Staff member not found or inactive' },
-        { status: 404 }
-      )
+      if (hold.staff_member_id !== validatedData.staff_member_id ||
+          hold.booking_date !== validatedData.booking_date ||
+          parseTime(hold.booking_time) !== parseTime(validatedData.booking_time)) {
+        return NextResponse.json(
+          { error: 'Booking does not match the held staff member, date and time', code: 'hold_mismatch' },
+          { status: 409 }
+        )
+      }
     }
 
+    const { plan, rejection } = await planBooking(
+      hold
+        ? { ...validatedData, participant_staff_ids: hold.participant_staff_ids, resource_ids: hold.resource_ids }
+        : validatedData,
+      { ignoreHoldId: hold?.id, override: Boolean(validatedData.override) }
+    )
+    if (rejection) {
+      return NextResponse.json(rejection.body, { status: rejection.status })
+    }
+    const { participants, appointmentType, bookingTimes, assignedResources, overriddenRules, timeZone, startsAt, endsAt } = plan
+
     // Check for existing booking with same external_booking_id
     const { data: existingBooking } = await supabaseAdmin
       .from('external_bookings')
@@ -59,57 +92,74 @@ export async function POST(request: NextRequest) {
 
     if (existingBooking) {
       return NextResponse.json(
-        { error: 'Booking with this external ID already exists' },
+        { error: 'Booking with this external ID already exists', code: 'duplicate_booking' },
         { status: 409 }
       )
     }
 
-    // Check for time conflicts
-    const { data: conflicts } = await supabaseAdmin
-      .from('external_bookings')
-      .select('*')
-      .eq('staff_member_id', validatedData.staff_member_id)
-      .eq('booking_date', validatedData.booking_date)
-      .eq('status', 'active')
-
-    if (conflicts && conflicts.length > 0) {
-      const hasConflict = conflicts.some(booking => {
-        const existingStart = parseTime(booking.booking_time)
-        const existingEnd = parseTime(booking.booking_end_time)
-        const newStart = parseTime(validatedData.booking_time)
-        const newEnd = parseTime(validatedData.booking_end_time)
-
-        return newStart < existingEnd && newEnd > existingStart
-      })
-
-      if (hasConflict) {
-        return NextResponse.json(
-          { error: 'Time slot conflicts with existing booking' },
-          { status: 409 }
-        )
-      }
-    }
-
-    // Create the booking
-    const { data: booking, error: bookingError } = await supabaseAdmin
-      .from('external_bookings')
-      .insert([{
-        ...validatedData,
-        status: 'active'
-      }])
-      .select()
-      .single()
-
-    if (bookingError) {
-      console.error('Booking creation error:', bookingError)
+    // Conflicts are checked again inside the insert transaction, so concurrent requests cannot both win
+    let result: CreateBookingResult
+    try {
+      result = await createBooking(
+        {
+          entity_platform_id: validatedData.entity_platform_id,
+          staff_member_id: validatedData.staff_member_id,
+          booking_date: validatedData.booking_date,
+          ...bookingTimes,
+          appointment_type_id: appointmentType?.id ?? null,
+          external_booking_id: validatedData.external_booking_id,
+          source_service: validatedData.source_service,
+          metadata: validatedData.metadata,
+          hold_id: hold?.id ?? null,
+          // Only bookings that actually bypassed a rule carry the override
+          ...(overriddenRules.length > 0 && {
+            override_reason: validatedData.override!.reason,
+            override_by: validatedData.override!.authorized_by,
+            overridden_rules: overriddenRules
+          })
+        },
+        participants.map(participant => ({ staff_member_id: participant.id, role_type: participant.role_type })),
+        assignedResources.map(resource => resource.resource_id)
+      )
+    } catch {
       return NextResponse.json(
         { error: 'Failed to create booking' },
         { status: 500 }
       )
     }
 
+    if (result.conflict !== null) {
+      return NextResponse.json(
+        { error: result.conflict, code: conflictCode(result.conflict) },
+        { status: 409 }
+      )
+    }
+    const { booking } = result
+
+    // Booking a waitlist offer's hold closes the offer and its waitlist entry
+    if (hold) {
+      await acceptOfferForHold(hold.id, booking.id).catch(() => {
+        // Already logged; the booking stands either way
+      })
+    }
+
+    emitBookingEvent('booking.created', booking, {
+      participant_staff_ids: participants.map(participant => participant.id),
+      resource_ids: assignedResources.map(resource => resource.resource_id)
+    })
+
     return NextResponse.json({ 
       booking,
+      participants: participants.map(participant => ({
+        staff_id: participant.id,
+        staff_name: participant.full_name,
+        staff_role: participant.role_type
+      })),
+      resources: assignedResources,
+      overridden_rules: overriddenRules,
+      starts_at: formatInTimezone(startsAt, timeZone),
+      ends_at: formatInTimezone(endsAt, timeZone),
+      timezone: timeZone,
       subscription: accessCheck.subscription 
     }, { status: 201 })
   } catch (error) {
@@ -127,9 +177,3 @@ export async function POST(request: NextRequest) {
     )
   }
 }
-
-// Helper function to parse time string (HH:MM) to minutes since midnight
-function parseTime(timeString: string): number {
-  const [hours, minutes] = timeString.split(':').map(Number)
-  return hours * 60 + minutes
-}
\ No newline at end of file
@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { validateRosterAccess } from '@/lib/subscription'
+import { formatInTimezone } from '@/lib/timezone'
+import { bookingRequestSchema, conflictCode, hasBookingLength, planBooking, BOOKING_LENGTH_MESSAGE } from '@/lib/booking-requests'
+import { buildHold, createHold, DEFAULT_HOLD_TTL_SECONDS, MAX_HOLD_TTL_SECONDS } from '@/lib/holds'
+import { scheduleWaitlistMatch } from '@/lib/waitlist'
+import { z } from 'zod'
+
+// Validation schema for holding a slot during checkout
+const createHoldSchema = bookingRequestSchema.extend({
+  ttl_seconds: z.number().int().min(30).max(MAX_HOLD_TTL_SECONDS).default(DEFAULT_HOLD_TTL_SECONDS),
+}).refine(hasBookingLength, BOOKING_LENGTH_MESSAGE)
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    // Validate input
+    const validatedData = createHoldSchema.parse(body)
+
+    // Check subscription access
+    const accessCheck = await validateRosterAccess(validatedData.entity_platform_id)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    // A hold is checked exactly like the booking it will become
+    const { plan, rejection } = await planBooking(validatedData)
+    if (rejection) {
+      return NextResponse.json(rejection.body, { status: rejection.status })
+    }
+
+    const result = await createHold(buildHold(
+      validatedData.entity_platform_id,
+      validatedData.booking_date,
+      plan,
+      validatedData.source_service ?? null,
+      validatedData.ttl_seconds
+    ))
+
+    if (result.conflict !== null) {
+      return NextResponse.json(
+        { error: result.conflict, code: conflictCode(result.conflict) },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Slot held successfully',
+      data: {
+        hold_token: result.hold.hold_token,
+        expires_at: result.hold.expires_at,
+        staff_member_id: result.hold.staff_member_id,
+        participant_staff_ids: result.hold.participant_staff_ids,
+        resources: plan.assignedResources,
+        booking_date: result.hold.booking_date,
+        starts_at: formatInTimezone(plan.startsAt, plan.timeZone),
+        ends_at: formatInTimezone(plan.endsAt, plan.timeZone),
+        timezone: plan.timeZone
+      }
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Slot hold POST error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const entityId = searchParams.get('entity_id')
+    const holdToken = searchParams.get('hold_token')
+
+    if (!entityId || !holdToken) {
+      return NextResponse.json(
+        { error: 'entity_id and hold_token parameters are required' },
+        { status: 400 }
+      )
+    }
+
+    // Check subscription access to roster module
+    const accessCheck = await validateRosterAccess(entityId)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    // Releasing frees the slot straight away instead of waiting for the hold to expire
+    const { data: released, error } = await supabaseAdmin
+      .from('slot_holds')
+      .update({ status: 'released', updated_at: new Date().toISOString() })
+      .eq('entity_platform_id', entityId)
+      .eq('hold_token', holdToken)
+      .eq('status', 'held')
+      .select('id, staff_member_id, participant_staff_ids, booking_date')
+
+    if (error) {
+      console.error('Hold release error:', error)
+      return NextResponse.json(
+        { error: 'Failed to release hold' },
+        { status: 500 }
+      )
+    }
+
+    if (!released || released.length === 0) {
+      return NextResponse.json(
+        { error: 'Hold not found or no longer held' },
+        { status: 404 }
+      )
+    }
+
+    // The released time is free for the waitlist
+    const [releasedHold] = released
+    scheduleWaitlistMatch({
+      entityPlatformId: entityId,
+      trigger: 'hold_released',
+      staffIds: [releasedHold.staff_member_id, ...releasedHold.participant_staff_ids],
+      startDate: releasedHold.booking_date,
+      endDate: releasedHold.booking_date
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Hold released successfully'
+    })
+
+  } catch (error) {
+    console.error('Slot hold DELETE error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
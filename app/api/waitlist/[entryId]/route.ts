@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { validateRosterAccess } from '@/lib/subscription'
+import { closeOffer, expireOffersAndRematch, findWaitlistEntry, scheduleWaitlistMatch, WaitlistOffer, WAITLIST_OFFER_SELECT } from '@/lib/waitlist'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ entryId: string }> }
+) {
+  try {
+    const { entryId } = await params
+    const { searchParams } = new URL(request.url)
+    const entityId = searchParams.get('entity_id')
+
+    if (!entityId) {
+      return NextResponse.json(
+        { error: 'entity_id parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    // Check subscription access to roster module
+    const accessCheck = await validateRosterAccess(entityId)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    // Lapsed offers must not be listed as pending, nor their entry as offered
+    await expireOffersAndRematch(entityId)
+
+    const entry = await findWaitlistEntry(entityId, entryId)
+    if (!entry) {
+      return NextResponse.json(
+        { error: 'Waitlist entry not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data: offers, error } = await supabaseAdmin
+      .from('waitlist_offers')
+      .select(WAITLIST_OFFER_SELECT)
+      .eq('waitlist_entry_id', entry.id)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Database error:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch waitlist offers' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...entry,
+        offers
+      }
+    })
+
+  } catch (error) {
+    console.error('Waitlist entry GET error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ entryId: string }> }
+) {
+  try {
+    const { entryId } = await params
+    const { searchParams } = new URL(request.url)
+    const entityId = searchParams.get('entity_id')
+
+    if (!entityId) {
+      return NextResponse.json(
+        { error: 'entity_id parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    // Check subscription access to roster module
+    const accessCheck = await validateRosterAccess(entityId)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    // Booked entries stay as they are; the booking itself is cancelled through POST /api/bookings/status
+    const { data: cancelled, error } = await supabaseAdmin
+      .from('waitlist_entries')
+      .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+      .eq('id', entryId)
+      .eq('entity_platform_id', entityId)
+      .in('status', ['waiting', 'offered'])
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      console.error('Waitlist entry cancel error:', error)
+      return NextResponse.json(
+        { error: 'Failed to cancel waitlist entry' },
+        { status: 500 }
+      )
+    }
+
+    if (!cancelled) {
+      return NextResponse.json(
+        { error: 'Waitlist entry not found or already closed' },
+        { status: 404 }
+      )
+    }
+
+    // A pending offer's slot goes back to everyone else
+    const { data: pendingOffers, error: offersError } = await supabaseAdmin
+      .from('waitlist_offers')
+      .select(WAITLIST_OFFER_SELECT)
+      .eq('waitlist_entry_id', cancelled.id)
+      .eq('status', 'pending')
+
+    if (offersError) {
+      console.error('Waitlist offer fetch error:', offersError)
+      return NextResponse.json(
+        { error: 'Failed to release pending offers' },
+        { status: 500 }
+      )
+    }
+
+    for (const offer of pendingOffers as WaitlistOffer[]) {
+      if (await closeOffer(offer, 'cancelled')) {
+        scheduleWaitlistMatch({
+          entityPlatformId: entityId,
+          trigger: 'hold_released',
+          staffIds: [offer.staff_member_id],
+          startDate: offer.booking_date,
+          endDate: offer.booking_date
+        })
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Waitlist entry cancelled successfully',
+      data: cancelled
+    })
+
+  } catch (error) {
+    console.error('Waitlist entry DELETE error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
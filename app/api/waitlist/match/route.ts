@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateRosterAccess } from '@/lib/subscription'
+import { matchWaitlist } from '@/lib/waitlist'
+import { z } from 'zod'
+
+// Validation schema for a matching run; call it on a schedule so expired offers pass to the next entry
+const matchWaitlistSchema = z.object({
+  entity_platform_id: z.string().uuid(),
+  staff_ids: z.array(z.string().uuid()).min(1).optional(), // Only offer these staff members' time
+  start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format').optional(),
+  end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format').optional(),
+}).refine(data => !data.start_date || !data.end_date || data.start_date <= data.end_date, {
+  message: 'end_date must be on or after start_date',
+  path: ['end_date']
+})
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    // Validate input
+    const validatedData = matchWaitlistSchema.parse(body)
+
+    // Check subscription access
+    const accessCheck = await validateRosterAccess(validatedData.entity_platform_id)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    const offers = await matchWaitlist({
+      entityPlatformId: validatedData.entity_platform_id,
+      trigger: 'manual',
+      staffIds: validatedData.staff_ids,
+      startDate: validatedData.start_date,
+      endDate: validatedData.end_date
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: `${offers.length} offer${offers.length === 1 ? '' : 's'} made`,
+      data: offers
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Waitlist match POST error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateRosterAccess } from '@/lib/subscription'
+import { closeOffer, expireOffersAndRematch, findOffer, scheduleWaitlistMatch } from '@/lib/waitlist'
+import { z } from 'zod'
+
+// Validation schema for declining an offer
+const declineOfferSchema = z.object({
+  entity_platform_id: z.string().uuid(),
+})
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ offerId: string }> }
+) {
+  try {
+    const { offerId } = await params
+    const body = await request.json()
+
+    // Validate input
+    const validatedData = declineOfferSchema.parse(body)
+
+    // Check subscription access
+    const accessCheck = await validateRosterAccess(validatedData.entity_platform_id)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    // A lapsed offer is already expired and cannot be declined
+    await expireOffersAndRematch(validatedData.entity_platform_id)
+
+    const offer = await findOffer(validatedData.entity_platform_id, offerId)
+    if (!offer) {
+      return NextResponse.json(
+        { error: 'Waitlist offer not found' },
+        { status: 404 }
+      )
+    }
+
+    // The entry goes back on the waitlist and will not be offered this slot again
+    if (!await closeOffer(offer, 'declined')) {
+      return NextResponse.json(
+        { error: `Offer is already ${offer.status}`, current_status: offer.status },
+        { status: 409 }
+      )
+    }
+
+    // The released slot goes to the next entry in line
+    scheduleWaitlistMatch({
+      entityPlatformId: offer.entity_platform_id,
+      trigger: 'offer_declined',
+      staffIds: [offer.staff_member_id],
+      startDate: offer.booking_date,
+      endDate: offer.booking_date
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Offer declined'
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Waitlist offer decline POST error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
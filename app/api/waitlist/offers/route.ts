@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { validateRosterAccess } from '@/lib/subscription'
+import { expireOffersAndRematch, WAITLIST_OFFER_SELECT } from '@/lib/waitlist'
+
+// Offer events for the calling system to pick up, e.g. polled with since=<last created_at seen>
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const entityId = searchParams.get('entity_id')
+    const status = searchParams.get('status')
+    const waitlistEntryId = searchParams.get('waitlist_entry_id')
+    const since = searchParams.get('since')
+
+    if (!entityId) {
+      return NextResponse.json(
+        { error: 'entity_id parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    // Check subscription access to roster module
+    const accessCheck = await validateRosterAccess(entityId)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    // Lapsed offers must not be listed as pending
+    await expireOffersAndRematch(entityId)
+
+    let query = supabaseAdmin
+      .from('waitlist_offers')
+      .select(`${WAITLIST_OFFER_SELECT}, waitlist_entry:waitlist_entries(id, external_reference, source_service, metadata)`)
+      .eq('entity_platform_id', entityId)
+
+    // Apply filters
+    if (status) {
+      query = query.in('status', status.split(','))
+    }
+
+    if (waitlistEntryId) {
+      query = query.eq('waitlist_entry_id', waitlistEntryId)
+    }
+
+    if (since) {
+      query = query.gt('created_at', since)
+    }
+
+    const { data: offers, error } = await query.order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Database error:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch waitlist offers' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: offers,
+      count: offers.length
+    })
+
+  } catch (error) {
+    console.error('Waitlist offers GET error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,214 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { validateRosterAccess } from '@/lib/subscription'
+import { getAppointmentType } from '@/lib/appointment-types'
+import { expireOffersAndRematch, NewWaitlistEntry } from '@/lib/waitlist'
+import { z } from 'zod'
+
+// Validation schema for registering interest in a slot
+const createWaitlistEntrySchema = z.object({
+  entity_platform_id: z.string().uuid(),
+  staff_member_id: z.string().uuid().optional(), // Preferred staff member; omit for anyone eligible
+  role_type: z.string().min(1).optional(), // Preferred role when no staff member is given
+  appointment_type: z.string().min(1).optional(), // Code from the hospital's appointment type catalog
+  duration_minutes: z.number().int().min(5).max(480).optional(),
+  earliest_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+  latest_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+  earliest_time: z.string().regex(/^\d{2}:\d{2}$/, 'Time must be in HH:MM format').optional(), // e.g. mornings only: 08:00-12:00
+  latest_time: z.string().regex(/^\d{2}:\d{2}$/, 'Time must be in HH:MM format').optional(),
+  priority: z.number().int().min(0).max(100).default(0), // Higher is offered first
+  external_reference: z.string().min(1).max(255).optional(), // e.g. HMS patient or referral ID
+  source_service: z.string().min(1),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+}).refine(data => Boolean(data.appointment_type || data.duration_minutes), {
+  message: 'Either appointment_type or duration_minutes is required',
+  path: ['appointment_type']
+}).refine(data => data.earliest_date <= data.latest_date, {
+  message: 'latest_date must be on or after earliest_date',
+  path: ['latest_date']
+}).refine(data => !data.earliest_time || !data.latest_time || data.earliest_time < data.latest_time, {
+  message: 'latest_time must be after earliest_time',
+  path: ['latest_time']
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const entityId = searchParams.get('entity_id')
+    const status = searchParams.get('status')
+    const staffMemberId = searchParams.get('staff_member_id')
+    const externalReference = searchParams.get('external_reference')
+
+    if (!entityId) {
+      return NextResponse.json(
+        { error: 'entity_id parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    // Check subscription access to roster module
+    const accessCheck = await validateRosterAccess(entityId)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    // Entries whose offer lapsed are waiting again
+    await expireOffersAndRematch(entityId)
+
+    let query = supabaseAdmin
+      .from('waitlist_entries')
+      .select('*')
+      .eq('entity_platform_id', entityId)
+
+    // Apply filters
+    if (status) {
+      query = query.in('status', status.split(','))
+    }
+
+    if (staffMemberId) {
+      query = query.eq('staff_member_id', staffMemberId)
+    }
+
+    if (externalReference) {
+      query = query.eq('external_reference', externalReference)
+    }
+
+    // Same order the matcher offers slots in
+    const { data: entries, error } = await query
+      .order('priority', { ascending: false })
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Database error:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch waitlist' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: entries,
+      count: entries.length
+    })
+
+  } catch (error) {
+    console.error('Waitlist GET error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    // Validate input
+    const validatedData = createWaitlistEntrySchema.parse(body)
+
+    // Check subscription access
+    const accessCheck = await validateRosterAccess(validatedData.entity_platform_id)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    // Appointment types supply the duration, eligible roles and required resources
+    let appointmentType = null
+    if (validatedData.appointment_type) {
+      appointmentType = await getAppointmentType(validatedData.entity_platform_id, validatedData.appointment_type)
+      if (!appointmentType) {
+        return NextResponse.json(
+          { error: `Unknown appointment type: ${validatedData.appointment_type}` },
+          { status: 404 }
+        )
+      }
+    }
+
+    if (validatedData.staff_member_id) {
+      const { data: staff, error: staffError } = await supabaseAdmin
+        .from('staff_members')
+        .select('id')
+        .eq('id', validatedData.staff_member_id)
+        .eq('entity_platform_id', validatedData.entity_platform_id)
+        .eq('is_active', true)
+        .maybeSingle()
+
+      if (staffError || !staff) {
+        return NextResponse.json(
+          { error: 'Staff member not found' },
+          { status: 404 }
+        )
+      }
+    }
+
+    const entry: NewWaitlistEntry = {
+      entity_platform_id: validatedData.entity_platform_id,
+      staff_member_id: validatedData.staff_member_id ?? null,
+      role_type: validatedData.role_type ?? null,
+      appointment_type_id: appointmentType?.id ?? null,
+      duration_minutes: appointmentType?.duration_minutes ?? validatedData.duration_minutes!,
+      earliest_date: validatedData.earliest_date,
+      latest_date: validatedData.latest_date,
+      earliest_time: validatedData.earliest_time ?? null,
+      latest_time: validatedData.latest_time ?? null,
+      priority: validatedData.priority,
+      external_reference: validatedData.external_reference ?? null,
+      source_service: validatedData.source_service,
+      metadata: validatedData.metadata ?? null
+    }
+
+    const { data: createdEntry, error } = await supabaseAdmin
+      .from('waitlist_entries')
+      .insert(entry)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Database error:', error)
+      return NextResponse.json(
+        { error: 'Failed to create waitlist entry' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Added to waitlist successfully',
+      data: createdEntry
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Waitlist POST error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateRosterAccess } from '@/lib/subscription'
+import { findSubscription, pingSubscription } from '@/lib/webhooks'
+import { z } from 'zod'
+
+// Validation schema for a test delivery
+const pingWebhookSchema = z.object({
+  entity_platform_id: z.string().uuid(),
+})
+
+// Sends a signed ping event right away and returns the logged delivery, so a receiver can be checked end to end
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ subscriptionId: string }> }
+) {
+  try {
+    const { subscriptionId } = await params
+    const body = await request.json()
+
+    // Validate input
+    const validatedData = pingWebhookSchema.parse(body)
+
+    // Check subscription access
+    const accessCheck = await validateRosterAccess(validatedData.entity_platform_id)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    const subscription = await findSubscription(validatedData.entity_platform_id, subscriptionId)
+    if (!subscription) {
+      return NextResponse.json(
+        { error: 'Webhook subscription not found' },
+        { status: 404 }
+      )
+    }
+
+    const delivery = await pingSubscription(subscription)
+
+    return NextResponse.json({
+      success: true,
+      message: delivery.status === 'delivered'
+        ? 'Ping delivered'
+        : `Ping failed: ${delivery.last_error}`,
+      data: delivery
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Webhook ping POST error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
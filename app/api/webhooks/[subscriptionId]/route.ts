@@ -0,0 +1,224 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { validateRosterAccess } from '@/lib/subscription'
+import { generateWebhookSecret, WEBHOOK_EVENT_TYPES, WEBHOOK_SUBSCRIPTION_COLUMNS } from '@/lib/webhooks'
+import { z } from 'zod'
+
+// Validation schema for webhook subscription updates
+const updateWebhookSchema = z.object({
+  entity_platform_id: z.string().uuid(),
+  url: z.string().url().refine(url => /^https?:\/\//i.test(url), 'URL must use http or https').optional(),
+  event_types: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1).optional(),
+  description: z.string().max(500).nullable().optional(),
+  is_active: z.boolean().optional(),
+  rotate_secret: z.boolean().optional(), // Issues a new secret; the old one stops working at once
+})
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ subscriptionId: string }> }
+) {
+  try {
+    const { subscriptionId } = await params
+    const { searchParams } = new URL(request.url)
+    const entityId = searchParams.get('entity_id')
+
+    if (!entityId) {
+      return NextResponse.json(
+        { error: 'entity_id parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    // Check subscription access to roster module
+    const accessCheck = await validateRosterAccess(entityId)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    const { data: subscription, error } = await supabaseAdmin
+      .from('webhook_subscriptions')
+      .select(WEBHOOK_SUBSCRIPTION_COLUMNS)
+      .eq('id', subscriptionId)
+      .eq('entity_platform_id', entityId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Database error:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch webhook subscription' },
+        { status: 500 }
+      )
+    }
+
+    if (!subscription) {
+      return NextResponse.json(
+        { error: 'Webhook subscription not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: subscription
+    })
+
+  } catch (error) {
+    console.error('Webhook GET error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ subscriptionId: string }> }
+) {
+  try {
+    const { subscriptionId } = await params
+    const body = await request.json()
+
+    // Validate input
+    const { entity_platform_id: entityId, rotate_secret: rotateSecret, ...updates } = updateWebhookSchema.parse(body)
+
+    // Check subscription access
+    const accessCheck = await validateRosterAccess(entityId)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    // Pending retries go to the new URL with the new secret
+    const { data: subscription, error: updateError } = await supabaseAdmin
+      .from('webhook_subscriptions')
+      .update({
+        ...updates,
+        ...(updates.event_types && { event_types: [...new Set(updates.event_types)] }),
+        ...(rotateSecret && { secret: generateWebhookSecret() }),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', subscriptionId)
+      .eq('entity_platform_id', entityId)
+      .select(rotateSecret ? '*' : WEBHOOK_SUBSCRIPTION_COLUMNS)
+      .maybeSingle()
+
+    if (updateError) {
+      console.error('Webhook subscription update error:', updateError)
+      return NextResponse.json(
+        { error: 'Failed to update webhook subscription' },
+        { status: 500 }
+      )
+    }
+
+    if (!subscription) {
+      return NextResponse.json(
+        { error: 'Webhook subscription not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: rotateSecret ? 'Webhook secret rotated successfully' : 'Webhook subscription updated successfully',
+      data: subscription
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Webhook PATCH error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Deleting a subscription also deletes its delivery log; disable it with PATCH to keep the log
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ subscriptionId: string }> }
+) {
+  try {
+    const { subscriptionId } = await params
+    const { searchParams } = new URL(request.url)
+    const entityId = searchParams.get('entity_id')
+
+    if (!entityId) {
+      return NextResponse.json(
+        { error: 'entity_id parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    // Check subscription access to roster module
+    const accessCheck = await validateRosterAccess(entityId)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    const { data: deleted, error } = await supabaseAdmin
+      .from('webhook_subscriptions')
+      .delete()
+      .eq('id', subscriptionId)
+      .eq('entity_platform_id', entityId)
+      .select('id')
+
+    if (error) {
+      console.error('Webhook subscription deletion error:', error)
+      return NextResponse.json(
+        { error: 'Failed to delete webhook subscription' },
+        { status: 500 }
+      )
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json(
+        { error: 'Webhook subscription not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Webhook subscription deleted successfully'
+    })
+
+  } catch (error) {
+    console.error('Webhook DELETE error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
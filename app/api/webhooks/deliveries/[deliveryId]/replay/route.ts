@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateRosterAccess } from '@/lib/subscription'
+import { findDelivery, findSubscription, replayDelivery } from '@/lib/webhooks'
+import { z } from 'zod'
+
+// Validation schema for replaying a delivery
+const replayDeliverySchema = z.object({
+  entity_platform_id: z.string().uuid(),
+})
+
+// Any delivery can be replayed, delivered ones included (e.g. after the receiver lost data)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ deliveryId: string }> }
+) {
+  try {
+    const { deliveryId } = await params
+    const body = await request.json()
+
+    // Validate input
+    const validatedData = replayDeliverySchema.parse(body)
+
+    // Check subscription access
+    const accessCheck = await validateRosterAccess(validatedData.entity_platform_id)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    const delivery = await findDelivery(validatedData.entity_platform_id, deliveryId)
+    if (!delivery) {
+      return NextResponse.json(
+        { error: 'Webhook delivery not found' },
+        { status: 404 }
+      )
+    }
+
+    const subscription = await findSubscription(validatedData.entity_platform_id, delivery.subscription_id)
+    if (!subscription?.is_active) {
+      return NextResponse.json(
+        { error: 'Webhook subscription is disabled' },
+        { status: 409 }
+      )
+    }
+
+    const replay = await replayDelivery(delivery, subscription)
+
+    return NextResponse.json({
+      success: true,
+      message: replay.status === 'delivered'
+        ? 'Delivery replayed'
+        : `Replay failed and will be retried: ${replay.last_error}`,
+      data: replay
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Webhook replay POST error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateRosterAccess } from '@/lib/subscription'
+import { retryDueDeliveries } from '@/lib/webhooks'
+import { z } from 'zod'
+
+// Validation schema for a retry run; call it on a schedule (e.g. every minute) so backed-off retries go out
+const retryDeliveriesSchema = z.object({
+  entity_platform_id: z.string().uuid(),
+})
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    // Validate input
+    const validatedData = retryDeliveriesSchema.parse(body)
+
+    // Check subscription access
+    const accessCheck = await validateRosterAccess(validatedData.entity_platform_id)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    const deliveries = await retryDueDeliveries(validatedData.entity_platform_id)
+    const deliveredCount = deliveries.filter(delivery => delivery.status === 'delivered').length
+
+    return NextResponse.json({
+      success: true,
+      message: `${deliveredCount} of ${deliveries.length} due deliver${deliveries.length === 1 ? 'y' : 'ies'} delivered`,
+      data: deliveries
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Webhook retry POST error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
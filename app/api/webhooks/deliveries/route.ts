@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { validateRosterAccess } from '@/lib/subscription'
+import { decodeCursor, encodeCursor, keysetFilter } from '@/lib/pagination'
+import { WebhookDelivery } from '@/lib/webhooks'
+import { z } from 'zod'
+
+// Newest first; id breaks ties so pages never overlap
+const SORT_COLUMNS = ['created_at', 'id']
+const SORT_NAME = 'created_at'
+const SORT_ORDER = 'desc'
+
+// Validation schema for delivery log queries
+const listDeliveriesSchema = z.object({
+  entity_id: z.string().uuid(),
+  subscription_id: z.string().uuid().optional(),
+  statuses: z.array(z.enum(['pending', 'delivered', 'failed'])).optional(), // Comma-separated
+  event_type: z.string().min(1).optional(),
+  event_id: z.string().uuid().optional(), // Every delivery and replay of one event
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50)
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const validatedQuery = listDeliveriesSchema.parse({
+      entity_id: searchParams.get('entity_id'),
+      subscription_id: searchParams.get('subscription_id') ?? undefined,
+      statuses: searchParams.get('status')?.split(',') ?? undefined,
+      event_type: searchParams.get('event_type') ?? undefined,
+      event_id: searchParams.get('event_id') ?? undefined,
+      cursor: searchParams.get('cursor') ?? undefined,
+      limit: searchParams.get('limit') ?? undefined
+    })
+
+    // Check subscription access to roster module
+    const accessCheck = await validateRosterAccess(validatedQuery.entity_id)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    let cursorValues: string[] | null = null
+    if (validatedQuery.cursor) {
+      cursorValues = decodeCursor(validatedQuery.cursor, SORT_NAME, SORT_ORDER, SORT_COLUMNS.length)
+      if (!cursorValues) {
+        return NextResponse.json(
+          { error: 'Invalid cursor' },
+          { status: 400 }
+        )
+      }
+    }
+
+    let query = supabaseAdmin
+      .from('webhook_deliveries')
+      .select('*')
+      .eq('entity_platform_id', validatedQuery.entity_id)
+
+    // Apply filters
+    if (validatedQuery.subscription_id) {
+      query = query.eq('subscription_id', validatedQuery.subscription_id)
+    }
+    if (validatedQuery.statuses) {
+      query = query.in('status', validatedQuery.statuses)
+    }
+    if (validatedQuery.event_type) {
+      query = query.eq('event_type', validatedQuery.event_type)
+    }
+    if (validatedQuery.event_id) {
+      query = query.eq('event_id', validatedQuery.event_id)
+    }
+
+    // Keyset pagination: continue strictly after the last row of the previous page
+    if (cursorValues) {
+      query = query.or(keysetFilter(SORT_COLUMNS, cursorValues, SORT_ORDER))
+    }
+
+    // One extra row tells whether there is another page
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(validatedQuery.limit + 1)
+
+    if (error) {
+      console.error('Database error:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch webhook deliveries' },
+        { status: 500 }
+      )
+    }
+
+    const deliveries = data as WebhookDelivery[]
+    const hasMore = deliveries.length > validatedQuery.limit
+    const page = deliveries.slice(0, validatedQuery.limit)
+    const lastDelivery = page[page.length - 1]
+
+    return NextResponse.json({
+      success: true,
+      data: page,
+      count: page.length,
+      has_more: hasMore,
+      next_cursor: hasMore && lastDelivery
+        ? encodeCursor(SORT_NAME, SORT_ORDER, [lastDelivery.created_at, lastDelivery.id])
+        : null
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Webhook deliveries GET error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { validateRosterAccess } from '@/lib/subscription'
+import { generateWebhookSecret, WEBHOOK_EVENT_TYPES, WEBHOOK_SUBSCRIPTION_COLUMNS } from '@/lib/webhooks'
+import { z } from 'zod'
+
+// Validation schema for webhook subscriptions; plain http is allowed so a local receiver can be used
+const createWebhookSchema = z.object({
+  entity_platform_id: z.string().uuid(),
+  url: z.string().url().refine(url => /^https?:\/\//i.test(url), 'URL must use http or https'),
+  event_types: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1),
+  source_service: z.string().min(1).max(100).optional(),
+  description: z.string().max(500).optional(),
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const entityId = searchParams.get('entity_id')
+    const activeOnly = searchParams.get('active_only') === 'true'
+
+    if (!entityId) {
+      return NextResponse.json(
+        { error: 'entity_id parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    // Check subscription access to roster module
+    const accessCheck = await validateRosterAccess(entityId)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    let query = supabaseAdmin
+      .from('webhook_subscriptions')
+      .select(WEBHOOK_SUBSCRIPTION_COLUMNS)
+      .eq('entity_platform_id', entityId)
+
+    if (activeOnly) {
+      query = query.eq('is_active', true)
+    }
+
+    const { data: subscriptions, error } = await query.order('created_at')
+
+    if (error) {
+      console.error('Database error:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch webhook subscriptions' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: subscriptions,
+      count: subscriptions.length
+    })
+
+  } catch (error) {
+    console.error('Webhooks GET error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    // Validate input
+    const validatedData = createWebhookSchema.parse(body)
+
+    // Check subscription access
+    const accessCheck = await validateRosterAccess(validatedData.entity_platform_id)
+    if (!accessCheck.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Access denied to roster module',
+          reason: accessCheck.error
+        },
+        { status: 403 }
+      )
+    }
+
+    const { data: subscription, error: createError } = await supabaseAdmin
+      .from('webhook_subscriptions')
+      .insert([{
+        ...validatedData,
+        event_types: [...new Set(validatedData.event_types)],
+        secret: generateWebhookSecret()
+      }])
+      .select()
+      .single()
+
+    if (createError) {
+      console.error('Webhook subscription creation error:', createError)
+      return NextResponse.json(
+        { error: 'Failed to create webhook subscription' },
+        { status: 500 }
+      )
+    }
+
+    // The secret is only returned here and when rotated
+    return NextResponse.json({
+      success: true,
+      message: 'Webhook subscription created successfully',
+      data: subscription
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues.map((issue) => ({
+            field: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Webhooks POST error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
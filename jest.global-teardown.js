@@ -0,0 +1,4 @@
+// Stops the Postgres started by jest.global-setup.js
+module.exports = async function globalTeardown() {
+  await globalThis.__ROSTER_TEST_DATABASE__?.stop()
+}
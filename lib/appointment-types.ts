@@ -0,0 +1,54 @@
+import { supabaseAdmin } from './supabase'
+
+export interface AppointmentType {
+  id: string
+  entity_platform_id: string
+  code: string
+  name: string
+  duration_minutes: number
+  eligible_role_types: string[]
+  buffer_before_minutes: number
+  buffer_after_minutes: number
+  required_resource_types: string[] // Rooms or equipment every booking of this type needs
+  color: string | null
+  is_active: boolean
+}
+
+/**
+ * Look up an active appointment type from a hospital's catalog
+ * @param entityPlatformId - The entity/hospital platform ID
+ * @param code - Appointment type code, e.g. 'vaccination'
+ * @returns Promise<AppointmentType | null>
+ */
+export async function getAppointmentType(entityPlatformId: string, code: string): Promise<AppointmentType | null> {
+  const { data: appointmentType, error } = await supabaseAdmin
+    .from('appointment_types')
+    .select('*')
+    .eq('entity_platform_id', entityPlatformId)
+    .eq('code', code)
+    .eq('is_active', true)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Appointment type fetch error:', error)
+    throw new Error('Failed to fetch appointment type')
+  }
+
+  return appointmentType
+}
+
+/**
+ * Role types allowed to take an appointment type, narrowed by an optional role_type filter
+ * @param appointmentType - Appointment type from the catalog
+ * @param roleType - Role type requested by the caller, if any
+ * @returns string[] | null - null when any role is eligible, [] when the filter excludes every eligible role
+ */
+export function resolveEligibleRoles(appointmentType: AppointmentType | null, roleType?: string): string[] | null {
+  const eligible = appointmentType?.eligible_role_types?.length ? appointmentType.eligible_role_types : null
+
+  if (!roleType) {
+    return eligible
+  }
+
+  return !eligible || eligible.includes(roleType) ? [roleType] : []
+}
@@ -0,0 +1,350 @@
+// Pure availability helpers shared by slot generation and booking validation.
+// All times are minutes since local midnight in the hospital's timezone.
+
+export interface TimeWindow {
+  start: number
+  end: number
+}
+
+/**
+ * What blocks a window inside working hours, as a machine-readable code
+ */
+export type BlockCode = 'scheduled_break' | 'staff_unavailable' | 'hospital_closed'
+
+export interface BlockedWindow extends TimeWindow {
+  reason: string
+  code: BlockCode
+}
+
+export interface ScheduleExceptionRow {
+  exception_type: string
+  is_available?: boolean | null
+  start_time?: string | null
+  end_time?: string | null
+}
+
+/**
+ * Entity-wide closure (hospital-wide exception or public holiday) that applies to every staff member
+ */
+export interface ClosureWindow {
+  start_time?: string | null
+  end_time?: string | null
+  reason: string
+}
+
+export interface BookingTimes {
+  booking_time: string
+  booking_end_time: string
+  buffer_before_minutes?: number | null
+  buffer_after_minutes?: number | null
+}
+
+export const FULL_DAY: TimeWindow = { start: 0, end: 24 * 60 }
+
+/**
+ * Reason reported for slots blocked by each exception type. Every type accepted
+ * by POST /api/exceptions (plus the legacy 'unavailable') makes the staff member
+ * unavailable for the exception window unless the exception has is_available: true,
+ * in which case the window is added as extra working hours instead.
+ */
+export const EXCEPTION_UNAVAILABLE_REASONS: Record<string, string> = {
+  holiday: 'Staff on holiday',
+  sick_leave: 'Staff on sick leave',
+  personal_leave: 'Staff on personal leave',
+  emergency: 'Staff attending an emergency',
+  training: 'Staff in training',
+  custom: 'Staff unavailable',
+  unavailable: 'Staff unavailable'
+}
+
+// Helper function to parse time string (HH:MM or HH:MM:SS) to minutes since midnight
+export function parseTime(timeString: string): number {
+  const [hours, minutes] = timeString.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+// Helper function to format minutes since midnight to HH:MM
+export function formatTime(minutes: number): string {
+  const hours = Math.floor(minutes / 60)
+  const mins = minutes % 60
+  return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`
+}
+
+/**
+ * Whether a block or exception runs past midnight: an end time before the start time
+ * ends on the next day (e.g. 20:00-08:00)
+ * @param row - Anything with a start and end time
+ * @returns boolean
+ */
+export function crossesMidnight(row: { start_time: string; end_time: string }): boolean {
+  return parseTime(row.end_time) < parseTime(row.start_time)
+}
+
+/**
+ * The part of a block on its own date; blocks that run past midnight are cut at 24:00
+ * @param row - Anything with a start and end time
+ * @returns TimeWindow
+ */
+export function getSameDayWindow(row: { start_time: string; end_time: string }): TimeWindow {
+  return { start: parseTime(row.start_time), end: crossesMidnight(row) ? FULL_DAY.end : parseTime(row.end_time) }
+}
+
+/**
+ * The part of a block that falls on the next date, from midnight to its end time
+ * @param row - Anything with a start and end time
+ * @returns TimeWindow, or null when the block ends by midnight
+ */
+export function getNextDayWindow(row: { start_time: string; end_time: string }): TimeWindow | null {
+  return crossesMidnight(row) ? { start: 0, end: parseTime(row.end_time) } : null
+}
+
+/**
+ * The previous date's timed exceptions or closures that run past midnight, as rows covering
+ * their part on the next date, so they can be applied alongside that date's own rows
+ * @param rows - Exceptions or closures of the previous date
+ * @returns Rows from 00:00 to the original end time
+ */
+export function carryOverToNextDay<T extends { start_time?: string | null; end_time?: string | null }>(rows: T[]): T[] {
+  return rows
+    .filter(row => row.start_time && row.end_time && crossesMidnight({ start_time: row.start_time, end_time: row.end_time }))
+    .map(row => ({ ...row, start_time: '00:00' }))
+}
+
+/**
+ * Move a window by a number of minutes, e.g. a day's window into minutes since midnight of the day before
+ * @param window - Window to move, with any extra fields kept
+ * @param minutes - Minutes to add to both ends
+ * @returns The moved window
+ */
+export function shiftWindow<T extends TimeWindow>(window: T, minutes: number): T {
+  return { ...window, start: window.start + minutes, end: window.end + minutes }
+}
+
+export function windowsOverlap(a: TimeWindow, b: TimeWindow): boolean {
+  return a.start < b.end && a.end > b.start
+}
+
+/**
+ * When a booking ends, in minutes since midnight of its date. Like blocks, a booking whose end
+ * time is before its start time runs past midnight, so 23:30-00:30 ends at 1470.
+ * @param booking - Booking start and end times
+ * @returns number
+ */
+export function getBookingEndMinutes(booking: Pick<BookingTimes, 'booking_time' | 'booking_end_time'>): number {
+  const end = parseTime(booking.booking_end_time)
+  return end < parseTime(booking.booking_time) ? end + FULL_DAY.end : end
+}
+
+/**
+ * The end time stored for a booking ending this many minutes after midnight of its date:
+ * ends after midnight become the next day's time, and an end at midnight stays 24:00
+ * @param endMinutes - Minutes since midnight of the booking date
+ * @returns HH:MM
+ */
+export function formatBookingEndTime(endMinutes: number): string {
+  return formatTime(endMinutes > FULL_DAY.end ? endMinutes - FULL_DAY.end : endMinutes)
+}
+
+/**
+ * Time a booking keeps its staff member busy, including pre/post buffers. Windows of bookings
+ * near midnight may start before 0 or end after 1440.
+ * @param booking - Booking times and buffers
+ * @returns TimeWindow
+ */
+export function getBookingWindow(booking: BookingTimes): TimeWindow {
+  return {
+    start: parseTime(booking.booking_time) - (booking.buffer_before_minutes ?? 0),
+    end: getBookingEndMinutes(booking) + (booking.buffer_after_minutes ?? 0)
+  }
+}
+
+/**
+ * Remove the parts of each window covered by any of the cut-outs
+ * @param windows - Windows to cut
+ * @param cutOuts - Windows to remove
+ * @returns TimeWindow[]
+ */
+export function subtractWindows(windows: TimeWindow[], cutOuts: TimeWindow[]): TimeWindow[] {
+  let remaining = windows.map(window => ({ start: window.start, end: window.end }))
+
+  for (const cutOut of cutOuts) {
+    remaining = remaining.flatMap(window => {
+      if (!windowsOverlap(window, cutOut)) {
+        return [window]
+      }
+      const pieces: TimeWindow[] = []
+      if (window.start < cutOut.start) {
+        pieces.push({ start: window.start, end: cutOut.start })
+      }
+      if (window.end > cutOut.end) {
+        pieces.push({ start: cutOut.end, end: window.end })
+      }
+      return pieces
+    })
+  }
+
+  return remaining
+}
+
+/**
+ * Merge overlapping or touching windows into a sorted, disjoint list
+ * @param windows - Windows in any order
+ * @returns TimeWindow[]
+ */
+export function mergeWindows(windows: TimeWindow[]): TimeWindow[] {
+  const sorted = [...windows].sort((a, b) => a.start - b.start)
+  const merged: TimeWindow[] = []
+
+  for (const window of sorted) {
+    const last = merged[merged.length - 1]
+    if (last && window.start <= last.end) {
+      last.end = Math.max(last.end, window.end)
+    } else {
+      merged.push({ start: window.start, end: window.end })
+    }
+  }
+
+  return merged
+}
+
+export interface WeeklyScheduleRow {
+  start_time: string
+  end_time: string
+  is_available?: boolean | null
+  effective_from: string
+  slot_duration_minutes?: number | null
+  slot_interval_minutes?: number | null
+}
+
+// Helper function to pick the smallest configured value, so the finest granularity of the day's blocks wins
+function smallestOf(values: (number | null | undefined)[]): number | null {
+  const configured = values.filter((value): value is number => typeof value === 'number' && value > 0)
+  return configured.length > 0 ? Math.min(...configured) : null
+}
+
+// Helper function to keep only the most recent effective version of a day's schedule rows
+function latestVersion<T extends WeeklyScheduleRow>(schedules: T[]): T[] {
+  const latestEffectiveFrom = schedules.reduce<string | null>(
+    (latest, schedule) => (latest === null || schedule.effective_from > latest ? schedule.effective_from : latest),
+    null
+  )
+  return schedules.filter(schedule => schedule.effective_from === latestEffectiveFrom)
+}
+
+/**
+ * Turn a day's weekly schedule rows into working windows and breaks. A staff member
+ * may have several blocks per day (split shifts); rows with is_available: false are
+ * breaks carved out of the working blocks. Only the most recent effective version applies.
+ * Blocks that run past midnight are cut at 24:00; their remainder comes from
+ * previousDaySchedules when the next date is resolved.
+ * @param schedules - Active schedule rows for one staff member and weekday
+ * @param previousDaySchedules - Rows in effect the day before, whose overnight blocks carry over
+ * @returns Working windows, break windows and the blocks' slot start granularity settings
+ */
+export function getScheduleWindows(schedules: WeeklyScheduleRow[], previousDaySchedules: WeeklyScheduleRow[] = []): {
+  working: TimeWindow[]
+  breaks: BlockedWindow[]
+  slotInterval: number | null
+  slotDuration: number | null
+} {
+  // Each block's part on this date: today's blocks up to midnight, yesterday's overnight blocks after it
+  const pieces = [
+    ...latestVersion(schedules).map(schedule => ({ schedule, window: getSameDayWindow(schedule) })),
+    ...latestVersion(previousDaySchedules).filter(crossesMidnight).map(schedule => ({ schedule, window: getNextDayWindow(schedule)! }))
+  ].filter(piece => piece.window.end > piece.window.start)
+  const working = pieces.filter(piece => piece.schedule.is_available !== false)
+
+  return {
+    working: mergeWindows(working.map(piece => piece.window)),
+    breaks: pieces
+      .filter(piece => piece.schedule.is_available === false)
+      .map(piece => ({ ...piece.window, reason: 'Scheduled break', code: 'scheduled_break' as const })),
+    slotInterval: smallestOf(working.map(piece => piece.schedule.slot_interval_minutes)),
+    slotDuration: smallestOf(working.map(piece => piece.schedule.slot_duration_minutes))
+  }
+}
+
+/**
+ * Window an exception applies to on its own date; exceptions without times cover the whole
+ * day, and those that run past midnight are cut at 24:00 (see carryOverToNextDay)
+ * @param exception - Schedule exception row
+ * @returns TimeWindow
+ */
+export function getExceptionWindow(exception: Pick<ScheduleExceptionRow, 'start_time' | 'end_time'>): TimeWindow {
+  if (exception.start_time && exception.end_time) {
+    return getSameDayWindow({ start_time: exception.start_time, end_time: exception.end_time })
+  }
+  return FULL_DAY
+}
+
+/**
+ * Window a timed exception covers on the date after its own, when it runs past midnight
+ * @param exception - Schedule exception row
+ * @returns TimeWindow, or null for full-day exceptions and those that end by midnight
+ */
+export function getNextDayExceptionWindow(exception: Pick<ScheduleExceptionRow, 'start_time' | 'end_time'>): TimeWindow | null {
+  if (exception.start_time && exception.end_time) {
+    return getNextDayWindow({ start_time: exception.start_time, end_time: exception.end_time })
+  }
+  return null
+}
+
+export function getExceptionReason(exception: ScheduleExceptionRow): string {
+  return EXCEPTION_UNAVAILABLE_REASONS[exception.exception_type] ?? EXCEPTION_UNAVAILABLE_REASONS.custom
+}
+
+/**
+ * Apply a day's exceptions and entity-wide closures to its scheduled working windows.
+ * Closures block every staff member, except during a staff member's own extra hours
+ * (is_available: true exceptions), so on-call cover can still be booked on a holiday.
+ * @param scheduleWindows - Working windows from the weekly schedule
+ * @param exceptions - Active exceptions for the same staff member and date
+ * @param closures - Hospital-wide closures and public holidays for the date
+ * @returns Working windows (schedule plus extra hours) and the windows blocked inside them
+ */
+export function resolveWorkingDay(
+  scheduleWindows: TimeWindow[],
+  exceptions: ScheduleExceptionRow[],
+  closures: ClosureWindow[] = []
+): { working: TimeWindow[]; blocked: BlockedWindow[]; fullDayBlock?: BlockedWindow } {
+  const extraHours: TimeWindow[] = []
+  const blocked: BlockedWindow[] = []
+  let fullDayBlock: BlockedWindow | undefined
+
+  for (const exception of exceptions) {
+    const window = getExceptionWindow(exception)
+    const isFullDay = !(exception.start_time && exception.end_time)
+
+    if (exception.is_available) {
+      // A full-day "available" exception simply confirms the normal schedule
+      if (!isFullDay) {
+        extraHours.push(window)
+      }
+      continue
+    }
+
+    const blockedWindow: BlockedWindow = { ...window, reason: getExceptionReason(exception), code: 'staff_unavailable' }
+    if (isFullDay) {
+      fullDayBlock = fullDayBlock ?? blockedWindow
+    }
+    blocked.push(blockedWindow)
+  }
+
+  for (const closure of closures) {
+    const isFullDay = !(closure.start_time && closure.end_time)
+    const pieces = subtractWindows([getExceptionWindow(closure)], extraHours)
+
+    for (const piece of pieces) {
+      blocked.push({ ...piece, reason: closure.reason, code: 'hospital_closed' })
+    }
+    if (isFullDay && extraHours.length === 0) {
+      fullDayBlock = fullDayBlock ?? { ...FULL_DAY, reason: closure.reason, code: 'hospital_closed' }
+    }
+  }
+
+  return {
+    working: mergeWindows([...scheduleWindows, ...extraHours]),
+    blocked,
+    fullDayBlock
+  }
+}
@@ -0,0 +1,446 @@
+import { supabaseAdmin } from './supabase'
+import { formatBookingEndTime, getBookingEndMinutes, getBookingWindow, parseTime, BookingTimes, FULL_DAY, TimeWindow } from './availability'
+import { getAppointmentType, resolveEligibleRoles, AppointmentType } from './appointment-types'
+import { checkStaffCapacity, checkWorkingHours, loadAvailabilityData, CapacityCode, WorkingHoursViolation } from './slots'
+import { getEntityTimezone, zonedTimeToUtc } from './timezone'
+import { assignResources, buildResourceRequirements, describeMissingResource, loadResourceAvailability, AssignedResource } from './resources'
+import { ExternalBooking } from './bookings'
+import { z } from 'zod'
+
+// Fields shared by every request that reserves time: bookings and holds
+export const bookingRequestSchema = z.object({
+  entity_platform_id: z.string().uuid(),
+  staff_member_id: z.string().uuid(),
+  booking_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+  booking_time: z.string().regex(/^\d{2}:\d{2}$/, 'Time must be in HH:MM format'),
+  booking_end_time: z.string().regex(/^\d{2}:\d{2}$/, 'End time must be in HH:MM format').optional(),
+  duration_minutes: z.number().int().min(5).max(480).optional(),
+  appointment_type: z.string().min(1).optional(), // Code from the hospital's appointment type catalog
+  resource_ids: z.array(z.string().uuid()).optional(), // Specific rooms or equipment to claim
+  participant_staff_ids: z.array(z.string().uuid()).max(10).optional(), // Rest of the team, e.g. anaesthetist and nurse
+  source_service: z.string().min(1).optional(), // Calling service; overbooking policies may be limited to some services
+})
+
+export type BookingRequest = z.infer<typeof bookingRequestSchema>
+
+export const hasBookingLength = (request: BookingRequest) =>
+  Boolean(request.appointment_type || (request.booking_end_time && request.duration_minutes))
+
+export const BOOKING_LENGTH_MESSAGE = {
+  message: 'Either appointment_type or both booking_end_time and duration_minutes are required',
+  path: ['appointment_type']
+}
+
+export interface PlannedParticipant {
+  id: string
+  full_name: string
+  role_type: string
+  can_take_appointments: boolean | null
+}
+
+/**
+ * A working-hours rule a booking breaks for one staff member. These are the only
+ * rejections an override can bypass; conflicts with bookings, holds and resources cannot be.
+ */
+export interface StaffRuleViolation {
+  staff_member_id: string
+  code: WorkingHoursViolation['code'] | 'not_bookable'
+  reason: string
+}
+
+/**
+ * Machine-readable reason a booking or hold request was rejected
+ */
+export type BookingRejectionCode =
+  | StaffRuleViolation['code']
+  | 'staff_not_found'
+  | 'duplicate_participant'
+  | 'participant_not_found'
+  | 'unknown_appointment_type'
+  | 'role_not_eligible'
+  | 'duration_mismatch'
+  | 'nonexistent_local_time'
+  | 'invalid_time_range'
+  | CapacityCode
+  | 'resource_unavailable'
+  | 'hold_expired'
+  | 'hold_mismatch'
+  | 'duplicate_booking'
+  | 'booking_inactive'
+  | 'staff_not_on_booking'
+  | 'staff_already_on_booking'
+
+// Codes for the conflicts the database reports when the time is finally reserved
+const DATABASE_CONFLICT_CODES: Record<string, BookingRejectionCode> = {
+  'Time slot conflicts with existing booking': 'booking_conflict',
+  'Time slot is held for another booking': 'slot_held',
+  'Overbooking limit reached for this day': 'overbooking_limit',
+  'Required resource is not available at this time': 'resource_unavailable',
+  'Hold has expired': 'hold_expired',
+  'Booking with this external ID already exists': 'duplicate_booking',
+  'Only active bookings can be rescheduled': 'booking_inactive',
+  'Only active bookings can be reassigned': 'booking_inactive',
+  'Staff member is not on this booking': 'staff_not_on_booking',
+  'Staff member is already on this booking': 'staff_already_on_booking'
+}
+
+export const conflictCode = (message: string): BookingRejectionCode =>
+  DATABASE_CONFLICT_CODES[message] ?? 'booking_conflict'
+
+/**
+ * A validated request: who, when (local and absolute) and with which resources
+ */
+export interface BookingPlan {
+  staff: PlannedParticipant
+  participants: PlannedParticipant[]
+  appointmentType: AppointmentType | null
+  bookingTimes: BookingTimes & { duration_minutes: number }
+  bookingWindow: TimeWindow
+  assignedResources: AssignedResource[]
+  overriddenRules: StaffRuleViolation[]
+  timeZone: string
+  startsAt: Date
+  endsAt: Date
+}
+
+/**
+ * Why a request was turned down, ready to send as the response
+ */
+export interface BookingRejection {
+  status: number
+  body: Record<string, unknown> & { code: BookingRejectionCode }
+}
+
+export type BookingPlanResult =
+  | { plan: BookingPlan; rejection: null }
+  | { plan: null; rejection: BookingRejection }
+
+export interface PlanBookingOptions {
+  ignoreHoldId?: string // Hold being confirmed by this request, which must not conflict with itself
+  override?: boolean // Book outside working hours, exceptions and closures (emergencies)
+}
+
+/**
+ * Where and when an existing booking would move to; team, duration and buffers stay the same
+ */
+export interface ReschedulePlan {
+  bookingTimes: BookingTimes & { booking_end_time: string }
+  bookingWindow: TimeWindow
+  timeZone: string
+  startsAt: Date
+  endsAt: Date
+}
+
+export type ReschedulePlanResult =
+  | { plan: ReschedulePlan; rejection: null }
+  | { plan: null; rejection: BookingRejection }
+
+// Capacity conflicts in the order they are reported, with the messages the database uses
+const CAPACITY_ERRORS: [CapacityCode, string][] = [
+  ['booking_conflict', 'Time slot conflicts with existing booking'],
+  ['slot_held', 'Time slot is held for another booking'],
+  ['overbooking_limit', 'Overbooking limit reached for this day']
+]
+
+const reject = (status: number, code: BookingRejectionCode, body: Record<string, unknown>): { plan: null; rejection: BookingRejection } => ({
+  plan: null,
+  rejection: { status, body: { ...body, code } }
+})
+
+/**
+ * Validate a booking or hold request against staff, the appointment type, the hospital's
+ * timezone, the same working-hours rules as slot search, existing bookings and holds,
+ * and pick the resources it needs.
+ * The final conflict check happens again in the database when the time is reserved.
+ * @param request - Validated booking request
+ * @param options - Hold to ignore and whether working-hours rules are overridden
+ * @returns Promise<BookingPlanResult>
+ */
+export async function planBooking(request: BookingRequest, options: PlanBookingOptions = {}): Promise<BookingPlanResult> {
+  const { ignoreHoldId, override = false } = options
+
+  // Validate staff exists and belongs to entity
+  const { data: staff, error: staffError } = await supabaseAdmin
+    .from('staff_members')
+    .select('id, full_name, role_type, can_take_appointments')
+    .eq('id', request.staff_member_id)
+    .eq('entity_platform_id', request.entity_platform_id)
+    .eq('is_active', true)
+    .single()
+
+  if (staffError || !staff) {
+    return reject(404, 'staff_not_found', { error: 'Staff member not found or inactive' })
+  }
+
+  // Team bookings: every participant must belong to the entity too
+  const participantIds = request.participant_staff_ids ?? []
+  if (new Set([staff.id, ...participantIds]).size !== participantIds.length + 1) {
+    return reject(400, 'duplicate_participant', { error: 'Each staff member can only take part in a booking once' })
+  }
+
+  let participants: PlannedParticipant[] = []
+  if (participantIds.length > 0) {
+    const { data: participantStaff, error: participantsError } = await supabaseAdmin
+      .from('staff_members')
+      .select('id, full_name, role_type, can_take_appointments')
+      .in('id', participantIds)
+      .eq('entity_platform_id', request.entity_platform_id)
+      .eq('is_active', true)
+
+    if (participantsError) {
+      console.error('Participants fetch error:', participantsError)
+      throw new Error('Failed to fetch participants')
+    }
+
+    const missingIds = participantIds.filter(id => !participantStaff?.some(participant => participant.id === id))
+    if (missingIds.length > 0) {
+      return reject(404, 'participant_not_found', { error: 'Participant not found or inactive', missing_staff_ids: missingIds })
+    }
+    participants = participantStaff
+  }
+  const teamIds = [staff.id, ...participantIds]
+
+  // Appointment types supply the duration, eligible roles and buffers
+  let appointmentType: AppointmentType | null = null
+  if (request.appointment_type) {
+    appointmentType = await getAppointmentType(request.entity_platform_id, request.appointment_type)
+    if (!appointmentType) {
+      return reject(404, 'unknown_appointment_type', { error: `Unknown appointment type: ${request.appointment_type}` })
+    }
+
+    const eligibleRoles = resolveEligibleRoles(appointmentType)
+    if (eligibleRoles && !eligibleRoles.includes(staff.role_type)) {
+      return reject(400, 'role_not_eligible', {
+        error: `Staff role ${staff.role_type} cannot take ${appointmentType.name} appointments`,
+        eligible_role_types: eligibleRoles
+      })
+    }
+  }
+
+  const startMinutes = parseTime(request.booking_time)
+  const durationMinutes = appointmentType?.duration_minutes ?? request.duration_minutes!
+  const endMinutes = startMinutes + durationMinutes
+
+  if (request.duration_minutes && request.duration_minutes !== durationMinutes) {
+    return reject(400, 'duration_mismatch', { error: `duration_minutes does not match the ${appointmentType?.name} duration of ${durationMinutes} minutes` })
+  }
+
+  // The end time given must agree with the duration, whichever supplied it; past midnight it is the next day's time
+  if (request.booking_end_time && parseTime(request.booking_end_time) % FULL_DAY.end !== endMinutes % FULL_DAY.end) {
+    return reject(400, 'duration_mismatch', {
+      error: appointmentType
+        ? `booking_end_time does not match the ${appointmentType.name} duration of ${durationMinutes} minutes`
+        : `booking_end_time must be duration_minutes (${durationMinutes}) after booking_time`
+    })
+  }
+
+  const bookingTimes = {
+    booking_time: request.booking_time,
+    booking_end_time: formatBookingEndTime(endMinutes),
+    duration_minutes: durationMinutes,
+    buffer_before_minutes: appointmentType?.buffer_before_minutes ?? 0,
+    buffer_after_minutes: appointmentType?.buffer_after_minutes ?? 0
+  }
+
+  // Booking times are wall-clock times in the hospital's timezone
+  const timeZone = await getEntityTimezone(request.entity_platform_id)
+  const startsAt = zonedTimeToUtc(request.booking_date, startMinutes, timeZone)
+  const endsAt = zonedTimeToUtc(request.booking_date, endMinutes, timeZone)
+
+  if (!startsAt || !endsAt) {
+    return reject(400, 'nonexistent_local_time', { error: `Booking time does not exist in ${timeZone} on this date (daylight saving transition)` })
+  }
+
+  if (startsAt >= endsAt) {
+    return reject(400, 'invalid_time_range', { error: 'Booking end time must be after start time' })
+  }
+
+  // Buffers keep the whole team busy too
+  const bookingWindow = getBookingWindow(bookingTimes)
+
+  // The same rules as slot search: schedule, breaks, exceptions, extra hours and closures
+  const availability = await loadAvailabilityData(request.entity_platform_id, teamIds, request.booking_date, request.booking_date)
+  const ruleViolations: StaffRuleViolation[] = [staff, ...participants].flatMap((member): StaffRuleViolation[] => {
+    if (member.can_take_appointments === false) {
+      return [{ staff_member_id: member.id, code: 'not_bookable', reason: 'Staff member does not take appointments' }]
+    }
+    const violation = checkWorkingHours(member.id, request.booking_date, bookingWindow, availability)
+    return violation ? [{ staff_member_id: member.id, ...violation }] : []
+  })
+
+  if (ruleViolations.length > 0 && !override) {
+    const [first] = ruleViolations
+    return reject(409, first.code, {
+      error: 'Staff member is not available at this time',
+      reason: first.reason,
+      staff_member_id: first.staff_member_id,
+      violations: ruleViolations
+    })
+  }
+
+  // Check for time conflicts, both as the booked staff member and as a participant in a team booking.
+  // Staff whose role has an overbooking policy may overlap other bookings and holds up to its limits.
+  const capacityChecks = [staff, ...participants].map(member => ({
+    staff_member_id: member.id,
+    ...checkStaffCapacity(
+      member,
+      request.booking_date,
+      bookingWindow,
+      availability,
+      request.source_service,
+      ignoreHoldId ? [ignoreHoldId] : []
+    )
+  }))
+
+  for (const [code, error] of CAPACITY_ERRORS) {
+    const conflictingStaffIds = capacityChecks.filter(check => check.code === code).map(check => check.staff_member_id)
+    if (conflictingStaffIds.length > 0) {
+      return reject(409, code, { error, conflicting_staff_ids: conflictingStaffIds })
+    }
+  }
+
+  // Claim a free resource for every required type, plus any specific resources asked for
+  const resourceRequirements = buildResourceRequirements(appointmentType?.required_resource_types ?? [], [], request.resource_ids)
+  let assignedResources: AssignedResource[] = []
+
+  if (resourceRequirements.length > 0) {
+    const resourceData = await loadResourceAvailability(
+      request.entity_platform_id,
+      resourceRequirements,
+      request.booking_date,
+      request.booking_date
+    )
+
+    const { assigned, missing } = assignResources(
+      resourceRequirements,
+      request.booking_date,
+      bookingWindow,
+      resourceData,
+      ignoreHoldId ? [ignoreHoldId] : []
+    )
+    if (missing) {
+      return reject(409, 'resource_unavailable', { error: 'Required resource is not available at this time', reason: describeMissingResource(missing, resourceData) })
+    }
+    assignedResources = assigned
+  }
+
+  return {
+    plan: {
+      staff,
+      participants,
+      appointmentType,
+      bookingTimes,
+      bookingWindow,
+      assignedResources,
+      overriddenRules: ruleViolations,
+      timeZone,
+      startsAt,
+      endsAt
+    },
+    rejection: null
+  }
+}
+
+/**
+ * Validate moving an active booking to a new date and time: the team must still take
+ * appointments and be working, and the booking's claimed resources must be open.
+ * Conflicts with other bookings are checked by the database when the move is made.
+ * @param booking - Booking to move
+ * @param bookingDate - New local date in YYYY-MM-DD format
+ * @param bookingTime - New local start time (HH:MM)
+ * @returns Promise<ReschedulePlanResult>
+ */
+export async function planReschedule(
+  booking: ExternalBooking,
+  bookingDate: string,
+  bookingTime: string
+): Promise<ReschedulePlanResult> {
+  // Keep the booked length as stored, which is what the team was booked for
+  const startMinutes = parseTime(bookingTime)
+  const endMinutes = startMinutes + getBookingEndMinutes(booking) - parseTime(booking.booking_time)
+
+  const bookingTimes = {
+    booking_time: bookingTime,
+    booking_end_time: formatBookingEndTime(endMinutes),
+    buffer_before_minutes: booking.buffer_before_minutes,
+    buffer_after_minutes: booking.buffer_after_minutes
+  }
+
+  // Booking times are wall-clock times in the hospital's timezone
+  const timeZone = await getEntityTimezone(booking.entity_platform_id)
+  const startsAt = zonedTimeToUtc(bookingDate, startMinutes, timeZone)
+  const endsAt = zonedTimeToUtc(bookingDate, endMinutes, timeZone)
+
+  if (!startsAt || !endsAt) {
+    return reject(400, 'nonexistent_local_time', { error: `Booking time does not exist in ${timeZone} on this date (daylight saving transition)` })
+  }
+
+  // The whole team and every claimed resource move with the booking
+  const [{ data: participants, error: participantsError }, { data: claimedResources, error: resourcesError }] = await Promise.all([
+    supabaseAdmin
+      .from('booking_participants')
+      .select('staff_member_id')
+      .eq('booking_id', booking.id),
+    supabaseAdmin
+      .from('booking_resources')
+      .select('resource_id')
+      .eq('booking_id', booking.id)
+  ])
+
+  if (participantsError || resourcesError) {
+    console.error('Booking team fetch error:', participantsError ?? resourcesError)
+    throw new Error('Failed to fetch booking participants and resources')
+  }
+
+  // Buffers move with the booking too
+  const bookingWindow = getBookingWindow(bookingTimes)
+
+  // The new time must fit the team's working hours like a new booking: schedule, exceptions and closures
+  const teamIds = [booking.staff_member_id, ...participants.map(participant => participant.staff_member_id)]
+  const [{ data: teamStaff, error: teamError }, availability] = await Promise.all([
+    supabaseAdmin
+      .from('staff_members')
+      .select('id, can_take_appointments')
+      .in('id', teamIds)
+      .eq('is_active', true),
+    loadAvailabilityData(booking.entity_platform_id, teamIds, bookingDate, bookingDate)
+  ])
+
+  if (teamError) {
+    console.error('Booking team fetch error:', teamError)
+    throw new Error('Failed to fetch booking team')
+  }
+
+  for (const staffId of teamIds) {
+    // Everyone on the team must still take appointments, as for a new booking
+    const member = teamStaff.find(candidate => candidate.id === staffId)
+    if (!member || member.can_take_appointments === false) {
+      return reject(409, 'not_bookable', {
+        error: 'Staff member is not available at this time',
+        reason: member ? 'Staff member does not take appointments' : 'Staff member is inactive',
+        staff_member_id: staffId
+      })
+    }
+
+    const violation = checkWorkingHours(staffId, bookingDate, bookingWindow, availability)
+    if (violation) {
+      return reject(409, violation.code, { error: 'Staff member is not available at this time', reason: violation.reason, staff_member_id: staffId })
+    }
+  }
+
+  // Claimed rooms and equipment must be open at the new time (maintenance, weekly availability)
+  if (claimedResources.length > 0) {
+    const resourceRequirements = claimedResources.map(resource => ({ resource_id: resource.resource_id }))
+    const resourceData = await loadResourceAvailability(booking.entity_platform_id, resourceRequirements, bookingDate, bookingDate)
+
+    const { missing } = assignResources(resourceRequirements, bookingDate, bookingWindow, resourceData, [booking.id])
+    if (missing) {
+      return reject(409, 'resource_unavailable', { error: 'Required resource is not available at this time', reason: describeMissingResource(missing, resourceData) })
+    }
+  }
+
+  return {
+    plan: { bookingTimes, bookingWindow, timeZone, startsAt, endsAt },
+    rejection: null
+  }
+}
@@ -0,0 +1,248 @@
+import { supabaseAdmin } from './supabase'
+import { BookingTimes } from './availability'
+import { z } from 'zod'
+
+export type BookingStatus = 'active' | 'cancelled' | 'completed' | 'no_show'
+
+// Allowed status changes; cancelled, completed and no_show are final
+export const BOOKING_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  active: ['cancelled', 'completed', 'no_show'],
+  cancelled: [],
+  completed: [],
+  no_show: []
+}
+
+// Identifies a booking by its ID, or by the calling system's own ID
+export const bookingLocatorSchema = z.object({
+  entity_platform_id: z.string().uuid(),
+  booking_id: z.string().uuid().optional(),
+  external_booking_id: z.string().min(1).optional(),
+  source_service: z.string().min(1).optional(),
+})
+
+export type BookingLocator = z.infer<typeof bookingLocatorSchema>
+
+export const hasBookingLocator = (locator: BookingLocator) =>
+  Boolean(locator.booking_id || (locator.external_booking_id && locator.source_service))
+
+export const BOOKING_LOCATOR_MESSAGE = {
+  message: 'Either booking_id or both external_booking_id and source_service are required',
+  path: ['booking_id']
+}
+
+export interface ExternalBooking extends BookingTimes {
+  id: string
+  entity_platform_id: string
+  staff_member_id: string
+  external_booking_id: string
+  source_service: string
+  booking_date: string
+  duration_minutes: number
+  appointment_type_id: string | null
+  status: BookingStatus
+  status_changed_at: string | null
+  status_reason: string | null
+  rescheduled_from: { booking_date: string; booking_time: string; booking_end_time: string } | null
+  reassigned_from: {
+    staff_member_id: string
+    to_staff_member_id: string
+    position: 'lead' | 'participant'
+    reason: string | null
+    reassigned_at: string
+  } | null
+  metadata: Record<string, unknown> | null
+  hold_id: string | null
+  override_reason: string | null
+  override_by: string | null
+  overridden_rules: { staff_member_id: string; code: string; reason: string }[] | null
+  series_id: string | null
+  is_overbooked: boolean // Set by the database when the booking overlaps others as an overbooking policy allows
+  created_at: string
+  updated_at: string
+}
+
+export interface NewBooking extends BookingTimes {
+  entity_platform_id: string
+  staff_member_id: string
+  external_booking_id: string
+  source_service: string
+  booking_date: string
+  duration_minutes: number
+  appointment_type_id?: string | null
+  metadata?: Record<string, unknown>
+  hold_id?: string | null // Hold this booking confirms
+  override_reason?: string | null // Why working-hours rules were bypassed, and by whom
+  override_by?: string | null
+  overridden_rules?: { staff_member_id: string; code: string; reason: string }[] | null
+  series_id?: string | null // Recurring series this booking belongs to
+}
+
+/**
+ * Either the created booking, or why the database refused it
+ */
+export type CreateBookingResult =
+  | { booking: ExternalBooking; conflict: null }
+  | { booking: null; conflict: string }
+
+// Booking columns plus the booked staff member, team and claimed resources
+export const BOOKING_DETAILS_SELECT = `
+  *,
+  staff:staff_members(id, full_name, role_type, email, phone),
+  participants:booking_participants(
+    role_type,
+    staff:staff_members(id, full_name, role_type)
+  ),
+  resources:booking_resources(
+    resource:resources(id, name, resource_type)
+  )
+`
+
+// Raised by create_external_booking when the team or a resource is already taken
+const BOOKING_CONFLICT_CODE = '23P01'
+// Unique (external_booking_id, source_service) violation
+const DUPLICATE_BOOKING_CODE = '23505'
+// Raised by reschedule_external_booking and reassign_external_booking when the booking is no longer
+// active (or, for reassignment, the staff member being replaced is not on it)
+const INACTIVE_BOOKING_CODE = '23514'
+
+/**
+ * Look up a booking of an entity by ID or by external ID and source service
+ * @param locator - Entity plus booking_id, or external_booking_id and source_service
+ * @returns Promise<ExternalBooking | null>
+ */
+export async function findBooking(locator: BookingLocator): Promise<ExternalBooking | null> {
+  let query = supabaseAdmin
+    .from('external_bookings')
+    .select('*')
+    .eq('entity_platform_id', locator.entity_platform_id)
+
+  if (locator.booking_id) {
+    query = query.eq('id', locator.booking_id)
+  } else {
+    query = query
+      .eq('external_booking_id', locator.external_booking_id!)
+      .eq('source_service', locator.source_service!)
+  }
+
+  const { data: booking, error } = await query.maybeSingle()
+
+  if (error) {
+    console.error('Booking fetch error:', error)
+    throw new Error('Failed to fetch booking')
+  }
+
+  return booking
+}
+
+/**
+ * Whether a booking may move from one status to another
+ * @param from - Current status
+ * @param to - Requested status
+ * @returns boolean
+ */
+export function canTransition(from: BookingStatus, to: BookingStatus): boolean {
+  return BOOKING_TRANSITIONS[from]?.includes(to) ?? false
+}
+
+/**
+ * Create a booking with its participants and resources in one transaction.
+ * The database locks every staff member and resource for the day, re-checks for
+ * overlapping bookings and only then inserts, so concurrent requests cannot double-book.
+ * @param booking - Booking row to insert
+ * @param participants - Extra staff on a team booking
+ * @param resourceIds - Rooms or equipment the booking claims
+ * @returns Promise<CreateBookingResult>
+ */
+export async function createBooking(
+  booking: NewBooking,
+  participants: { staff_member_id: string; role_type: string }[] = [],
+  resourceIds: string[] = []
+): Promise<CreateBookingResult> {
+  const { data, error } = await supabaseAdmin.rpc('create_external_booking', {
+    p_booking: booking,
+    p_participants: participants,
+    p_resource_ids: resourceIds
+  })
+
+  if (error) {
+    if (error.code === BOOKING_CONFLICT_CODE) {
+      return { booking: null, conflict: error.message }
+    }
+    if (error.code === DUPLICATE_BOOKING_CODE) {
+      return { booking: null, conflict: 'Booking with this external ID already exists' }
+    }
+
+    console.error('Booking creation error:', error)
+    throw new Error('Failed to create booking')
+  }
+
+  return { booking: data as ExternalBooking, conflict: null }
+}
+
+/**
+ * Move an active booking to a new date and time, keeping its team, resources and buffers.
+ * Conflicts are re-checked in the same transaction as the update.
+ * @param bookingId - Booking to move
+ * @param bookingDate - New local date (YYYY-MM-DD)
+ * @param bookingTime - New start time (HH:MM)
+ * @param bookingEndTime - New end time (HH:MM)
+ * @returns Promise<CreateBookingResult>
+ */
+export async function rescheduleBooking(
+  bookingId: string,
+  bookingDate: string,
+  bookingTime: string,
+  bookingEndTime: string
+): Promise<CreateBookingResult> {
+  const { data, error } = await supabaseAdmin.rpc('reschedule_external_booking', {
+    p_booking_id: bookingId,
+    p_booking_date: bookingDate,
+    p_booking_time: bookingTime,
+    p_booking_end_time: bookingEndTime
+  })
+
+  if (error) {
+    if (error.code === BOOKING_CONFLICT_CODE || error.code === INACTIVE_BOOKING_CODE) {
+      return { booking: null, conflict: error.message }
+    }
+
+    console.error('Booking reschedule error:', error)
+    throw new Error('Failed to reschedule booking')
+  }
+
+  return { booking: data as ExternalBooking, conflict: null }
+}
+
+/**
+ * Hand an active booking from one staff member to another, keeping its time, the rest of
+ * the team and its resources. Conflicts for the new team are re-checked in the same transaction.
+ * @param bookingId - Booking to reassign
+ * @param fromStaffId - Staff member leaving the booking, as the booked staff member or a participant
+ * @param toStaffId - Staff member taking their place
+ * @param reason - Why, recorded in reassigned_from
+ * @returns Promise<CreateBookingResult>
+ */
+export async function reassignBooking(
+  bookingId: string,
+  fromStaffId: string,
+  toStaffId: string,
+  reason: string | null = null
+): Promise<CreateBookingResult> {
+  const { data, error } = await supabaseAdmin.rpc('reassign_external_booking', {
+    p_booking_id: bookingId,
+    p_from_staff_id: fromStaffId,
+    p_to_staff_id: toStaffId,
+    p_reason: reason
+  })
+
+  if (error) {
+    if (error.code === BOOKING_CONFLICT_CODE || error.code === INACTIVE_BOOKING_CODE) {
+      return { booking: null, conflict: error.message }
+    }
+
+    console.error('Booking reassignment error:', error)
+    throw new Error('Failed to reassign booking')
+  }
+
+  return { booking: data as ExternalBooking, conflict: null }
+}
@@ -0,0 +1,41 @@
+// Helpers for loading rows in bulk and indexing them in memory
+
+// Supabase caps a single response at 1000 rows, so larger result sets are paged
+const PAGE_SIZE = 1000
+
+export type PagedQuery<T> = (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+
+// Helper function to read every page of a query; returns the rows and the number of round trips
+export async function fetchAllRows<T>(query: PagedQuery<T>, label: string): Promise<{ rows: T[]; queries: number }> {
+  const rows: T[] = []
+  let queries = 0
+
+  while (true) {
+    const { data, error } = await query(rows.length, rows.length + PAGE_SIZE - 1)
+    queries++
+
+    if (error) {
+      console.error(`${label} fetch error:`, error)
+      throw new Error(`Failed to fetch ${label}`)
+    }
+
+    rows.push(...(data ?? []))
+    if (!data || data.length < PAGE_SIZE) {
+      return { rows, queries }
+    }
+  }
+}
+
+export function groupBy<T>(rows: T[], keyOf: (row: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>()
+  for (const row of rows) {
+    const key = keyOf(row)
+    const group = groups.get(key)
+    if (group) {
+      group.push(row)
+    } else {
+      groups.set(key, [row])
+    }
+  }
+  return groups
+}
@@ -0,0 +1,131 @@
+import { supabaseAdmin } from './supabase'
+import { ClosureWindow, parseTime } from './availability'
+import { z } from 'zod'
+
+// Validation schema for a single holiday on a calendar
+export const holidaySchema = z.object({
+  holiday_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (YYYY-MM-DD)'),
+  name: z.string().min(1).max(255),
+  is_recurring: z.boolean().default(false), // Same month and day every year
+  start_time: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format (HH:MM)').optional(),
+  end_time: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format (HH:MM)').optional(),
+}).refine(holiday => Boolean(holiday.start_time) === Boolean(holiday.end_time), {
+  message: 'start_time and end_time must be provided together',
+  path: ['start_time']
+}).refine(holiday => !holiday.start_time || !holiday.end_time || parseTime(holiday.start_time) < parseTime(holiday.end_time), {
+  message: 'Start time must be before end time',
+  path: ['end_time']
+})
+
+/**
+ * Entity-wide closures for a date range, keyed by date (YYYY-MM-DD).
+ * Combines hospital-wide schedule exceptions (staff_member_id IS NULL) with
+ * holidays from every holiday calendar assigned to the hospital.
+ */
+export interface EntityClosures {
+  closuresByDate: Map<string, ClosureWindow[]>
+  queryCount: number
+}
+
+interface HolidayRow {
+  holiday_date: string
+  name: string
+  is_recurring: boolean | null
+  start_time: string | null
+  end_time: string | null
+}
+
+function addClosure(closuresByDate: Map<string, ClosureWindow[]>, date: string, closure: ClosureWindow) {
+  const closures = closuresByDate.get(date)
+  if (closures) {
+    closures.push(closure)
+  } else {
+    closuresByDate.set(date, [closure])
+  }
+}
+
+/**
+ * Load hospital-wide closures and assigned public holidays for a date range
+ * @param entityPlatformId - The entity/hospital platform ID
+ * @param startDate - First date (YYYY-MM-DD), inclusive
+ * @param endDate - Last date (YYYY-MM-DD), inclusive
+ * @returns Promise<EntityClosures>
+ */
+export async function loadEntityClosures(
+  entityPlatformId: string,
+  startDate: string,
+  endDate: string
+): Promise<EntityClosures> {
+  const [closureResult, holidayResult] = await Promise.all([
+    supabaseAdmin
+      .from('schedule_exceptions')
+      .select('exception_date, start_time, end_time, reason')
+      .eq('entity_platform_id', entityPlatformId)
+      .is('staff_member_id', null)
+      .eq('is_active', true)
+      .gte('exception_date', startDate)
+      .lte('exception_date', endDate),
+    supabaseAdmin
+      .from('holiday_calendar_dates')
+      .select(`
+        holiday_date,
+        name,
+        is_recurring,
+        start_time,
+        end_time,
+        calendar:holiday_calendars!inner(
+          is_active,
+          assignments:entity_holiday_calendars!inner(entity_platform_id)
+        )
+      `)
+      .eq('calendar.is_active', true)
+      .eq('calendar.assignments.entity_platform_id', entityPlatformId)
+      .or(`is_recurring.eq.true,and(holiday_date.gte.${startDate},holiday_date.lte.${endDate})`)
+  ])
+
+  if (closureResult.error) {
+    console.error('Closures fetch error:', closureResult.error)
+    throw new Error('Failed to fetch hospital closures')
+  }
+
+  if (holidayResult.error) {
+    console.error('Holidays fetch error:', holidayResult.error)
+    throw new Error('Failed to fetch holiday calendars')
+  }
+
+  const closuresByDate = new Map<string, ClosureWindow[]>()
+
+  for (const closure of closureResult.data ?? []) {
+    addClosure(closuresByDate, closure.exception_date, {
+      start_time: closure.start_time,
+      end_time: closure.end_time,
+      reason: closure.reason ? `Hospital closed: ${closure.reason}` : 'Hospital closed'
+    })
+  }
+
+  for (const holiday of (holidayResult.data ?? []) as HolidayRow[]) {
+    const closure = {
+      start_time: holiday.start_time,
+      end_time: holiday.end_time,
+      reason: `Public holiday: ${holiday.name}`
+    }
+
+    if (!holiday.is_recurring) {
+      addClosure(closuresByDate, holiday.holiday_date, closure)
+      continue
+    }
+
+    // Recurring holidays fall on the same month and day every year from their first occurrence
+    const monthDay = holiday.holiday_date.slice(5)
+    const firstYear = Math.max(Number(startDate.slice(0, 4)), Number(holiday.holiday_date.slice(0, 4)))
+    const lastYear = Number(endDate.slice(0, 4))
+    for (let year = firstYear; year <= lastYear; year++) {
+      const date = `${year}-${monthDay}`
+      if (date >= startDate && date <= endDate) {
+        addClosure(closuresByDate, date, closure)
+      }
+    }
+  }
+
+  return { closuresByDate, queryCount: 2 }
+}
@@ -0,0 +1,205 @@
+import { supabaseAdmin } from './supabase'
+import { formatTime, getNextDayWindow, getSameDayWindow, TimeWindow } from './availability'
+import { fetchAllRows, groupBy } from './bulk'
+import { addDays } from './recurrence'
+import { getOnDutyWindows, loadAvailabilityData, StaffMember } from './slots'
+import { getDayOfWeek } from './timezone'
+
+/**
+ * Staffing level a hospital needs for a role in a weekly time band
+ */
+export interface CoverageRequirement {
+  id: string
+  entity_platform_id: string
+  role_type: string
+  day_of_week: number
+  start_time: string
+  end_time: string // Before start_time for overnight bands
+  min_staff: number
+  max_staff: number | null // null = no upper limit
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * A stretch of a time band during which the number of staff on duty stays the same
+ * and falls outside the requirement
+ */
+export interface CoverageInterval {
+  date: string
+  start_time: string
+  end_time: string // 24:00 when the stretch runs to midnight
+  shift_date: string // Date the band starts; the day before date for the after-midnight part of an overnight band
+  role_type: string
+  requirement_id: string
+  min_staff: number
+  max_staff: number | null
+  on_duty: number
+  status: 'understaffed' | 'overstaffed'
+  shortfall?: number
+  excess?: number
+}
+
+export interface CoverageReport {
+  intervals: CoverageInterval[] // In date, start time and role order
+  summary: {
+    understaffed: number
+    overstaffed: number
+    understaffed_minutes: number
+    overstaffed_minutes: number
+  }
+}
+
+/**
+ * Active coverage requirements of an entity
+ * @param entityPlatformId - The entity/hospital platform ID
+ * @param roleType - Only requirements for this role, if given
+ * @returns Promise<CoverageRequirement[]>
+ */
+export async function loadCoverageRequirements(entityPlatformId: string, roleType?: string): Promise<CoverageRequirement[]> {
+  let query = supabaseAdmin
+    .from('coverage_requirements')
+    .select('*')
+    .eq('entity_platform_id', entityPlatformId)
+    .eq('is_active', true)
+
+  if (roleType) {
+    query = query.eq('role_type', roleType)
+  }
+
+  const { data, error } = await query.order('role_type').order('day_of_week').order('start_time')
+
+  if (error) {
+    console.error('Coverage requirements fetch error:', error)
+    throw new Error('Failed to fetch coverage requirements')
+  }
+
+  return data
+}
+
+/**
+ * Compare coverage requirements with who is on duty for every date in a range. Staff count as
+ * on duty during their resolved weekly schedule and extra hours, minus breaks, unavailability
+ * exceptions and hospital closures; bookings do not matter. Each requirement is checked on its
+ * own, and an overnight band's part after midnight is checked on the next date.
+ * @param entityPlatformId - The entity/hospital platform ID
+ * @param requirements - Active requirements to check
+ * @param dates - Local dates in YYYY-MM-DD format, in order
+ * @returns Promise<CoverageReport>
+ */
+export async function buildCoverageReport(
+  entityPlatformId: string,
+  requirements: CoverageRequirement[],
+  dates: string[]
+): Promise<CoverageReport> {
+  const roles = [...new Set(requirements.map(requirement => requirement.role_type))]
+  const report: CoverageReport = {
+    intervals: [],
+    summary: { understaffed: 0, overstaffed: 0, understaffed_minutes: 0, overstaffed_minutes: 0 }
+  }
+  if (roles.length === 0 || dates.length === 0) {
+    return report
+  }
+
+  // Everyone with a covered role counts, whether or not they take appointments
+  const staff = await fetchAllRows<StaffMember>((from, to) => supabaseAdmin
+    .from('staff_members')
+    .select('id, full_name, role_type')
+    .eq('entity_platform_id', entityPlatformId)
+    .eq('is_active', true)
+    .in('role_type', roles)
+    .order('id')
+    .range(from, to), 'coverage staff')
+
+  const data = staff.rows.length > 0
+    ? await loadAvailabilityData(entityPlatformId, staff.rows.map(member => member.id), dates[0], dates[dates.length - 1])
+    : null
+
+  const staffByRole = groupBy(staff.rows, member => member.role_type)
+  const requirementsByDay = groupBy(requirements, requirement => String(requirement.day_of_week))
+
+  for (const date of dates) {
+    const previousDate = addDays(date, -1)
+    const onDuty = new Map(staff.rows.map(member => [member.id, data ? getOnDutyWindows(member.id, date, data) : []]))
+
+    // This date's bands up to midnight, then yesterday's overnight bands after it
+    const bands = [
+      ...(requirementsByDay.get(String(getDayOfWeek(date))) ?? [])
+        .map(requirement => ({ requirement, shiftDate: date, window: getSameDayWindow(requirement) })),
+      ...(requirementsByDay.get(String(getDayOfWeek(previousDate))) ?? []).flatMap(requirement => {
+        const window = getNextDayWindow(requirement)
+        return window ? [{ requirement, shiftDate: previousDate, window }] : []
+      })
+    ]
+
+    for (const { requirement, shiftDate, window } of bands) {
+      const roleWindows = (staffByRole.get(requirement.role_type) ?? []).map(member => onDuty.get(member.id)!)
+
+      for (const stretch of countOnDuty(window, roleWindows)) {
+        const understaffed = stretch.count < requirement.min_staff
+        const overstaffed = requirement.max_staff !== null && stretch.count > requirement.max_staff
+        if (!understaffed && !overstaffed) {
+          continue
+        }
+
+        const minutes = stretch.end - stretch.start
+        if (understaffed) {
+          report.summary.understaffed++
+          report.summary.understaffed_minutes += minutes
+        } else {
+          report.summary.overstaffed++
+          report.summary.overstaffed_minutes += minutes
+        }
+
+        report.intervals.push({
+          date,
+          start_time: formatTime(stretch.start),
+          end_time: formatTime(stretch.end),
+          shift_date: shiftDate,
+          role_type: requirement.role_type,
+          requirement_id: requirement.id,
+          min_staff: requirement.min_staff,
+          max_staff: requirement.max_staff,
+          on_duty: stretch.count,
+          status: understaffed ? 'understaffed' : 'overstaffed',
+          ...(understaffed ? { shortfall: requirement.min_staff - stretch.count } : { excess: stretch.count - requirement.max_staff! })
+        })
+      }
+    }
+  }
+
+  report.intervals.sort((a, b) =>
+    a.date.localeCompare(b.date) || a.start_time.localeCompare(b.start_time) || a.role_type.localeCompare(b.role_type)
+  )
+  return report
+}
+
+// Helper function to split a band into stretches with a constant number of staff on duty
+function countOnDuty(band: TimeWindow, staffWindows: TimeWindow[][]): (TimeWindow & { count: number })[] {
+  const edges = new Set([band.start, band.end])
+  for (const window of staffWindows.flat()) {
+    for (const edge of [window.start, window.end]) {
+      if (edge > band.start && edge < band.end) {
+        edges.add(edge)
+      }
+    }
+  }
+  const points = [...edges].sort((a, b) => a - b)
+
+  const stretches: (TimeWindow & { count: number })[] = []
+  for (let index = 0; index + 1 < points.length; index++) {
+    const start = points[index]
+    const end = points[index + 1]
+    const count = staffWindows.filter(windows => windows.some(window => window.start <= start && window.end >= end)).length
+
+    const last = stretches[stretches.length - 1]
+    if (last && last.count === count) {
+      last.end = end
+    } else {
+      stretches.push({ start, end, count })
+    }
+  }
+
+  return stretches
+}
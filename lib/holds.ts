@@ -0,0 +1,130 @@
+import { supabaseAdmin } from './supabase'
+import { BookingTimes } from './availability'
+import { BookingPlan } from './booking-requests'
+
+// How long a hold lasts when the caller does not say, and the longest allowed
+export const DEFAULT_HOLD_TTL_SECONDS = 300
+export const MAX_HOLD_TTL_SECONDS = 1800
+
+export interface SlotHold extends BookingTimes {
+  id: string
+  entity_platform_id: string
+  hold_token: string
+  staff_member_id: string
+  participant_staff_ids: string[]
+  resource_ids: string[]
+  appointment_type_id: string | null
+  booking_date: string
+  duration_minutes: number
+  source_service: string | null
+  status: 'held' | 'confirmed' | 'released'
+  expires_at: string
+  created_at: string
+  updated_at: string
+}
+
+export type NewHold = Omit<SlotHold, 'id' | 'hold_token' | 'status' | 'created_at' | 'updated_at'>
+
+// Raised by create_slot_hold when the time is already booked or held
+const HOLD_CONFLICT_CODE = '23P01'
+
+/**
+ * Hold row for a validated booking plan
+ * @param entityPlatformId - The entity/hospital platform ID
+ * @param bookingDate - Local date in YYYY-MM-DD format
+ * @param plan - Plan returned by planBooking
+ * @param sourceService - Service taking the hold, if known
+ * @param ttlSeconds - How long the hold lasts
+ * @returns NewHold
+ */
+export function buildHold(
+  entityPlatformId: string,
+  bookingDate: string,
+  plan: BookingPlan,
+  sourceService: string | null,
+  ttlSeconds: number
+): NewHold {
+  return {
+    entity_platform_id: entityPlatformId,
+    staff_member_id: plan.staff.id,
+    participant_staff_ids: plan.participants.map(participant => participant.id),
+    resource_ids: plan.assignedResources.map(resource => resource.resource_id),
+    appointment_type_id: plan.appointmentType?.id ?? null,
+    booking_date: bookingDate,
+    ...plan.bookingTimes,
+    source_service: sourceService,
+    expires_at: new Date(Date.now() + ttlSeconds * 1000).toISOString()
+  }
+}
+
+/**
+ * Reserve a time for a short while so it can be booked without anyone taking it first.
+ * Uses the same locks and conflict checks as booking creation.
+ * @param hold - Hold row to insert
+ * @returns Promise<{ hold: SlotHold; conflict: null } | { hold: null; conflict: string }>
+ */
+export async function createHold(
+  hold: NewHold
+): Promise<{ hold: SlotHold; conflict: null } | { hold: null; conflict: string }> {
+  const { data, error } = await supabaseAdmin.rpc('create_slot_hold', { p_hold: hold })
+
+  if (error) {
+    if (error.code === HOLD_CONFLICT_CODE) {
+      return { hold: null, conflict: error.message }
+    }
+
+    console.error('Hold creation error:', error)
+    throw new Error('Failed to create hold')
+  }
+
+  return { hold: data as SlotHold, conflict: null }
+}
+
+/**
+ * Look up a hold that has neither expired nor been confirmed or released
+ * @param entityPlatformId - The entity/hospital platform ID
+ * @param holdToken - Token returned when the hold was created
+ * @returns Promise<SlotHold | null>
+ */
+export async function findActiveHold(entityPlatformId: string, holdToken: string): Promise<SlotHold | null> {
+  const { data: hold, error } = await supabaseAdmin
+    .from('slot_holds')
+    .select('*')
+    .eq('entity_platform_id', entityPlatformId)
+    .eq('hold_token', holdToken)
+    .eq('status', 'held')
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle()
+
+  if (error) {
+    console.error('Hold fetch error:', error)
+    throw new Error('Failed to fetch hold')
+  }
+
+  return hold
+}
+
+/**
+ * Release holds that are still held, freeing their time straight away
+ * @param holdIds - Hold IDs
+ * @returns Promise<string[]> - IDs of the holds that were released
+ */
+export async function releaseHolds(holdIds: string[]): Promise<string[]> {
+  if (holdIds.length === 0) {
+    return []
+  }
+
+  const { data: released, error } = await supabaseAdmin
+    .from('slot_holds')
+    .update({ status: 'released', updated_at: new Date().toISOString() })
+    .in('id', holdIds)
+    .eq('status', 'held')
+    .select('id')
+
+  if (error) {
+    console.error('Hold release error:', error)
+    throw new Error('Failed to release holds')
+  }
+
+  return released.map(hold => hold.id)
+}
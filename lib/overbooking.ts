@@ -0,0 +1,83 @@
+import { supabaseAdmin } from './supabase'
+import { windowsOverlap, TimeWindow } from './availability'
+
+export interface OverbookingPolicy {
+  id: string
+  entity_platform_id: string
+  role_type: string
+  max_concurrent_bookings: number
+  max_overbooked_per_day: number | null
+  allowed_source_services: string[] // Empty = every service may overbook
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * How many bookings a staff member may have at once, and how many overbooked bookings per day
+ */
+export interface StaffCapacity {
+  maxConcurrent: number
+  maxOverbookedPerDay: number | null
+}
+
+// Staff whose role has no policy (or whose policy does not apply) take one booking at a time
+export const SINGLE_BOOKING_CAPACITY: StaffCapacity = { maxConcurrent: 1, maxOverbookedPerDay: null }
+
+/**
+ * Load a hospital's active overbooking policies
+ * @param entityPlatformId - The entity/hospital platform ID
+ * @returns Promise<Map<string, OverbookingPolicy>> - Policies by role type
+ */
+export async function loadOverbookingPolicies(entityPlatformId: string): Promise<Map<string, OverbookingPolicy>> {
+  const { data: policies, error } = await supabaseAdmin
+    .from('overbooking_policies')
+    .select('*')
+    .eq('entity_platform_id', entityPlatformId)
+    .eq('is_active', true)
+
+  if (error) {
+    console.error('Overbooking policy fetch error:', error)
+    throw new Error('Failed to fetch overbooking policies')
+  }
+
+  return new Map(policies.map(policy => [policy.role_type, policy]))
+}
+
+/**
+ * Capacity a policy grants to a request from a service
+ * @param policy - Policy for the staff member's role, if any
+ * @param sourceService - Service making the request; policies limited to some services need it
+ * @returns StaffCapacity
+ */
+export function resolveCapacity(policy: OverbookingPolicy | undefined, sourceService?: string): StaffCapacity {
+  if (!policy) {
+    return SINGLE_BOOKING_CAPACITY
+  }
+
+  if (policy.allowed_source_services.length > 0 &&
+      (!sourceService || !policy.allowed_source_services.includes(sourceService))) {
+    return SINGLE_BOOKING_CAPACITY
+  }
+
+  return { maxConcurrent: policy.max_concurrent_bookings, maxOverbookedPerDay: policy.max_overbooked_per_day }
+}
+
+/**
+ * Most windows overlapping any one moment of a time range. The peak is always at the start
+ * of one of the windows (or of the range), so only those moments are checked.
+ * @param windows - Busy windows, e.g. bookings with their buffers
+ * @param within - Range to look at
+ * @returns number
+ */
+export function peakConcurrency(windows: TimeWindow[], within: TimeWindow): number {
+  const overlapping = windows.filter(window => windowsOverlap(window, within))
+  let peak = 0
+
+  for (const window of overlapping) {
+    const moment = Math.max(window.start, within.start)
+    peak = Math.max(peak, overlapping.filter(other => other.start <= moment && moment < other.end).length)
+  }
+
+  return peak
+}
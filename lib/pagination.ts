@@ -0,0 +1,67 @@
+// Keyset (cursor) pagination helpers for PostgREST queries.
+// A cursor holds the sort values of the last row returned plus the sort it belongs to,
+// so the next page starts strictly after that row even when rows are inserted in between.
+
+interface CursorPayload {
+  sort: string
+  order: 'asc' | 'desc'
+  values: string[]
+}
+
+/**
+ * Encode the position after a row as an opaque cursor
+ * @param sort - Sort name the page was requested with
+ * @param order - Sort direction
+ * @param values - The row's values for every sort column, in order
+ * @returns string - URL-safe cursor
+ */
+export function encodeCursor(sort: string, order: 'asc' | 'desc', values: string[]): string {
+  return Buffer.from(JSON.stringify({ sort, order, values })).toString('base64url')
+}
+
+/**
+ * Decode a cursor, checking it was issued for the same sort
+ * @param cursor - Cursor from a previous page
+ * @param sort - Sort name of the current request
+ * @param order - Sort direction of the current request
+ * @param columnCount - Number of sort columns
+ * @returns string[] | null - Sort values, or null when the cursor is malformed or for another sort
+ */
+export function decodeCursor(cursor: string, sort: string, order: 'asc' | 'desc', columnCount: number): string[] | null {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString()) as CursorPayload
+    if (payload.sort !== sort || payload.order !== order ||
+        !Array.isArray(payload.values) || payload.values.length !== columnCount ||
+        payload.values.some(value => typeof value !== 'string')) {
+      return null
+    }
+    return payload.values
+  } catch {
+    return null
+  }
+}
+
+// Helper function to quote a value for a PostgREST logical filter, where , . : ( ) are reserved
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
+
+/**
+ * PostgREST `or` filter selecting rows after the cursor position for a multi-column sort:
+ * (a > x) OR (a = x AND b > y) OR (a = x AND b = y AND c > z)
+ * @param columns - Sort columns, the last one unique (usually id)
+ * @param values - Cursor values for the same columns
+ * @param order - Sort direction
+ * @returns string - Argument for .or()
+ */
+export function keysetFilter(columns: string[], values: string[], order: 'asc' | 'desc'): string {
+  const operator = order === 'asc' ? 'gt' : 'lt'
+
+  return columns.map((column, index) => {
+    const conditions = [
+      ...columns.slice(0, index).map((equalColumn, equalIndex) => `${equalColumn}.eq.${quoteFilterValue(values[equalIndex])}`),
+      `${column}.${operator}.${quoteFilterValue(values[index])}`
+    ]
+    return conditions.length === 1 ? conditions[0] : `and(${conditions.join(',')})`
+  }).join(',')
+}
@@ -0,0 +1,363 @@
+import { supabaseAdmin } from './supabase'
+import { getBookingWindow, getExceptionWindow, getNextDayExceptionWindow, shiftWindow, windowsOverlap, FULL_DAY } from './availability'
+import { addDays } from './recurrence'
+import { conflictCode, BookingRejectionCode } from './booking-requests'
+import { reassignBooking, ExternalBooking } from './bookings'
+import { checkStaffCapacity, checkWorkingHours, loadAvailabilityData, StaffMember } from './slots'
+import { SlotParticipant } from './teams'
+import { scheduleWaitlistMatchForBooking } from './waitlist'
+import { emitBookingEvent } from './webhooks'
+
+// Most alternative staff suggested per affected booking
+const MAX_ALTERNATIVES = 5
+
+/**
+ * A window in which a staff member (or, for closures, the whole hospital) cannot work,
+ * as recorded by an unavailability exception
+ */
+export interface Unavailability {
+  entity_platform_id: string
+  staff_member_id: string | null // null = hospital-wide closure
+  exception_date: string
+  start_time: string | null // null = the whole day
+  end_time: string | null
+}
+
+/**
+ * An active booking the unavailable staff member is on, with who could take their place
+ */
+export interface AffectedBooking {
+  booking: ExternalBooking
+  staff_member_id: string | null // Who is unavailable; null for closures, which affect the whole team
+  position: 'lead' | 'participant'
+  role_type: string | null // Role a replacement must have
+  alternatives: SlotParticipant[] // Same role, working and free for the booking's whole window, buffers included
+}
+
+export type AffectedBookingAction = 'cancel' | 'reassign'
+
+/**
+ * What to do with one affected booking. Reassignment without to_staff_id takes the first
+ * suggested alternative that is still free.
+ */
+export interface AffectedBookingDecision {
+  booking_id: string
+  action: AffectedBookingAction
+  to_staff_id?: string
+}
+
+export type AffectedBookingCode = BookingRejectionCode | 'not_affected' | 'no_alternative' | 'staff_not_suggested'
+
+export interface AffectedBookingResult {
+  booking_id: string
+  action: AffectedBookingAction
+  status: 'cancelled' | 'reassigned' | 'failed'
+  staff_member_id?: string // Who took the booking over
+  code?: AffectedBookingCode
+  error?: string
+}
+
+/**
+ * An unavailability (or extra hours) exception as stored
+ */
+export interface UnavailabilityException extends Unavailability {
+  id: string
+  exception_type: string
+  reason: string | null
+  is_available: boolean
+}
+
+// A booking found through the staff member's participation, with the role they fill on it
+interface ParticipationRow {
+  role_type: string | null
+  booking: ExternalBooking
+}
+
+/**
+ * Look up an active schedule exception of an entity
+ * @param entityPlatformId - The entity/hospital platform ID
+ * @param exceptionId - Schedule exception ID
+ * @returns Promise<UnavailabilityException | null>
+ */
+export async function findUnavailabilityException(
+  entityPlatformId: string,
+  exceptionId: string
+): Promise<UnavailabilityException | null> {
+  const { data: exception, error } = await supabaseAdmin
+    .from('schedule_exceptions')
+    .select('id, entity_platform_id, staff_member_id, exception_date, exception_type, start_time, end_time, reason, is_available')
+    .eq('id', exceptionId)
+    .eq('entity_platform_id', entityPlatformId)
+    .eq('is_active', true)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Schedule exception fetch error:', error)
+    throw new Error('Failed to fetch schedule exception')
+  }
+
+  return exception as UnavailabilityException | null
+}
+
+/**
+ * Find the active bookings an unavailability window overlaps (buffers included) and suggest
+ * staff of the same role who are working and free at the same time. A timed window that runs
+ * past midnight also reaches bookings early on the next date, and bookings of the day before
+ * that run past midnight are reached too.
+ * @param unavailability - The exception that makes staff unavailable
+ * @returns Promise<AffectedBooking[]> - In date and start time order
+ */
+export async function findAffectedBookings(unavailability: Unavailability): Promise<AffectedBooking[]> {
+  // The whole window in minutes since midnight of the exception date. Bookings of the day before
+  // can run past midnight into it, and bookings of the next date can start inside it or have a
+  // buffer that reaches back into it.
+  const nextDayWindow = getNextDayExceptionWindow(unavailability)
+  const window = { ...getExceptionWindow(unavailability), ...(nextDayWindow && { end: FULL_DAY.end + nextDayWindow.end }) }
+  const offsets = new Map([
+    [addDays(unavailability.exception_date, -1), -FULL_DAY.end],
+    [unavailability.exception_date, 0],
+    [addDays(unavailability.exception_date, 1), FULL_DAY.end]
+  ])
+  const dates = [...offsets.keys()]
+  const overlaps = (booking: ExternalBooking) => windowsOverlap(shiftWindow(getBookingWindow(booking), offsets.get(booking.booking_date)!), window)
+  const byStartTime = (a: AffectedBooking, b: AffectedBooking) =>
+    a.booking.booking_date.localeCompare(b.booking.booking_date) || a.booking.booking_time.localeCompare(b.booking.booking_time)
+
+  // A closure affects every booking in its window; nobody can stand in while the hospital is closed
+  if (!unavailability.staff_member_id) {
+    const { data: bookings, error } = await supabaseAdmin
+      .from('external_bookings')
+      .select('*')
+      .eq('entity_platform_id', unavailability.entity_platform_id)
+      .in('booking_date', dates)
+      .eq('status', 'active')
+
+    if (error) {
+      console.error('Affected bookings fetch error:', error)
+      throw new Error('Failed to fetch affected bookings')
+    }
+
+    return (bookings as ExternalBooking[])
+      .filter(overlaps)
+      .map(booking => ({ booking, staff_member_id: null, position: 'lead' as const, role_type: null, alternatives: [] }))
+      .sort(byStartTime)
+  }
+
+  const staffId = unavailability.staff_member_id
+  const [staffResult, ledResult, participationResult] = await Promise.all([
+    supabaseAdmin
+      .from('staff_members')
+      .select('role_type')
+      .eq('id', staffId)
+      .maybeSingle(),
+    supabaseAdmin
+      .from('external_bookings')
+      .select('*')
+      .eq('entity_platform_id', unavailability.entity_platform_id)
+      .eq('staff_member_id', staffId)
+      .in('booking_date', dates)
+      .eq('status', 'active'),
+    supabaseAdmin
+      .from('booking_participants')
+      .select('role_type, booking:external_bookings!inner(*)')
+      .eq('staff_member_id', staffId)
+      .eq('booking.entity_platform_id', unavailability.entity_platform_id)
+      .in('booking.booking_date', dates)
+      .eq('booking.status', 'active')
+      .overrideTypes<ParticipationRow[], { merge: false }>()
+  ])
+
+  const fetchError = staffResult.error ?? ledResult.error ?? participationResult.error
+  if (fetchError) {
+    console.error('Affected bookings fetch error:', fetchError)
+    throw new Error('Failed to fetch affected bookings')
+  }
+
+  const staffRole = staffResult.data?.role_type ?? null
+  const affected: AffectedBooking[] = [
+    ...((ledResult.data ?? []) as ExternalBooking[]).filter(overlaps).map(booking => ({
+      booking,
+      staff_member_id: staffId,
+      position: 'lead' as const,
+      role_type: staffRole,
+      alternatives: []
+    })),
+    ...(participationResult.data ?? []).filter(({ booking }) => overlaps(booking)).map(({ booking, role_type }) => ({
+      booking,
+      staff_member_id: staffId,
+      position: 'participant' as const,
+      role_type: role_type ?? staffRole,
+      alternatives: []
+    }))
+  ]
+
+  await suggestAlternatives(unavailability.entity_platform_id, affected)
+
+  return affected.sort(byStartTime)
+}
+
+/**
+ * Cancel or reassign affected bookings, one at a time. Each booking succeeds or fails on its own;
+ * reassignment is checked again by the database, and an automatic pick moves on to the next
+ * alternative when another request took the first one's time.
+ * @param affected - Affected bookings from findAffectedBookings
+ * @param decisions - What to do with each booking
+ * @param reason - Recorded as the cancellation reason or on the reassignment
+ * @returns Promise<AffectedBookingResult[]> - One per decision, in order
+ */
+export async function resolveAffectedBookings(
+  affected: AffectedBooking[],
+  decisions: AffectedBookingDecision[],
+  reason: string
+): Promise<AffectedBookingResult[]> {
+  const affectedById = new Map(affected.map(entry => [entry.booking.id, entry]))
+  const results: AffectedBookingResult[] = []
+
+  for (const decision of decisions) {
+    const entry = affectedById.get(decision.booking_id)
+    if (!entry) {
+      results.push(failed(decision, 'not_affected', 'Booking is not active or not affected by this unavailability'))
+      continue
+    }
+
+    results.push(decision.action === 'cancel'
+      ? await cancelAffectedBooking(entry, reason)
+      : await reassignAffectedBooking(entry, decision, reason))
+  }
+
+  return results
+}
+
+// Helper function to fill in same-role staff who are working and have capacity for each booking on its date
+async function suggestAlternatives(entityPlatformId: string, affected: AffectedBooking[]): Promise<void> {
+  const roles = [...new Set(affected.map(entry => entry.role_type).filter((role): role is string => role !== null))]
+  if (roles.length === 0) {
+    return
+  }
+
+  const { data: candidates, error } = await supabaseAdmin
+    .from('staff_members')
+    .select('id, full_name, role_type')
+    .eq('entity_platform_id', entityPlatformId)
+    .eq('is_active', true)
+    .eq('can_take_appointments', true)
+    .in('role_type', roles)
+    .order('full_name')
+
+  if (error) {
+    console.error('Alternative staff fetch error:', error)
+    throw new Error('Failed to fetch alternative staff')
+  }
+
+  const others = (candidates as StaffMember[]).filter(candidate => !affected.some(entry => entry.staff_member_id === candidate.id))
+  if (others.length === 0) {
+    return
+  }
+
+  // Each booking's current team cannot also stand in for one of its members
+  const { data: participants, error: participantsError } = await supabaseAdmin
+    .from('booking_participants')
+    .select('booking_id, staff_member_id')
+    .in('booking_id', affected.map(entry => entry.booking.id))
+
+  if (participantsError) {
+    console.error('Booking participants fetch error:', participantsError)
+    throw new Error('Failed to fetch booking participants')
+  }
+
+  const dates = affected.map(entry => entry.booking.booking_date).sort()
+  const data = await loadAvailabilityData(entityPlatformId, others.map(candidate => candidate.id), dates[0], dates[dates.length - 1])
+
+  for (const entry of affected) {
+    const team = new Set([
+      entry.booking.staff_member_id,
+      ...participants.filter(participant => participant.booking_id === entry.booking.id).map(participant => participant.staff_member_id)
+    ])
+    const date = entry.booking.booking_date
+    const window = getBookingWindow(entry.booking)
+
+    entry.alternatives = others
+      .filter(candidate =>
+        candidate.role_type === entry.role_type &&
+        !team.has(candidate.id) &&
+        !checkWorkingHours(candidate.id, date, window, data) &&
+        checkStaffCapacity(candidate, date, window, data, entry.booking.source_service).remaining > 0
+      )
+      .slice(0, MAX_ALTERNATIVES)
+      .map(candidate => ({ staff_id: candidate.id, staff_name: candidate.full_name, staff_role: candidate.role_type }))
+  }
+}
+
+// Helper function to cancel an affected booking the way POST /api/bookings/status does
+async function cancelAffectedBooking(entry: AffectedBooking, reason: string): Promise<AffectedBookingResult> {
+  const decision = { booking_id: entry.booking.id, action: 'cancel' as const }
+  const now = new Date().toISOString()
+  const { data: cancelled, error } = await supabaseAdmin
+    .from('external_bookings')
+    .update({ status: 'cancelled', status_changed_at: now, status_reason: reason, updated_at: now })
+    .eq('id', entry.booking.id)
+    .eq('status', 'active')
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    console.error('Booking cancellation error:', error)
+    throw new Error('Failed to cancel booking')
+  }
+
+  if (!cancelled) {
+    return failed(decision, 'booking_inactive', 'Booking is no longer active')
+  }
+
+  // The rest of the team is free again
+  scheduleWaitlistMatchForBooking(cancelled, 'booking_cancelled')
+  emitBookingEvent('booking.cancelled', cancelled, { previous_status: 'active' })
+
+  return { ...decision, status: 'cancelled' }
+}
+
+// Helper function to hand an affected booking to the chosen, or the first free, alternative
+async function reassignAffectedBooking(
+  entry: AffectedBooking,
+  decision: AffectedBookingDecision,
+  reason: string
+): Promise<AffectedBookingResult> {
+  if (!entry.staff_member_id) {
+    return failed(decision, 'no_alternative', 'Bookings affected by a hospital closure can only be cancelled')
+  }
+
+  const suggested = entry.alternatives.map(alternative => alternative.staff_id)
+  if (decision.to_staff_id && !suggested.includes(decision.to_staff_id)) {
+    return failed(decision, 'staff_not_suggested', 'Staff member does not have the same role or is not free for this booking')
+  }
+
+  const choices = decision.to_staff_id ? [decision.to_staff_id] : suggested
+  if (choices.length === 0) {
+    return failed(decision, 'no_alternative', 'No staff member of the same role is free for this booking')
+  }
+
+  let lastConflict = ''
+  for (const toStaffId of choices) {
+    const result = await reassignBooking(entry.booking.id, entry.staff_member_id, toStaffId, reason)
+    if (result.conflict === null) {
+      emitBookingEvent('booking.reassigned', result.booking, {
+        previous_staff_id: entry.staff_member_id,
+        position: entry.position
+      })
+      return { booking_id: decision.booking_id, action: 'reassign', status: 'reassigned', staff_member_id: toStaffId }
+    }
+
+    // An inactive booking cannot be saved by trying someone else
+    lastConflict = result.conflict
+    if (conflictCode(lastConflict) === 'booking_inactive') {
+      break
+    }
+  }
+
+  return failed(decision, conflictCode(lastConflict), lastConflict)
+}
+
+// Helper function to build a failed result
+function failed(decision: AffectedBookingDecision, code: AffectedBookingCode, error: string): AffectedBookingResult {
+  return { booking_id: decision.booking_id, action: decision.action, status: 'failed', code, error }
+}
@@ -0,0 +1,129 @@
+// Recurrence rules for booking series: a subset of iCalendar RRULE (RFC 5545).
+// Supported parts: FREQ (DAILY, WEEKLY, MONTHLY), INTERVAL, BYDAY (weekly only), COUNT and UNTIL.
+
+// Longest series a single request may book
+export const MAX_SERIES_OCCURRENCES = 52
+
+export interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY'
+  interval: number
+  byDay: number[] | null // 0 = Sunday, 6 = Saturday
+  count: number | null
+  until: string | null // YYYY-MM-DD, inclusive
+}
+
+const WEEKDAYS: Record<string, number> = { SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6 }
+
+/**
+ * Parse an RRULE string such as "FREQ=WEEKLY;BYDAY=MO,TH;COUNT=10".
+ * Exactly one of COUNT or UNTIL is required so every series has an end.
+ * @param rule - RRULE value, with or without the "RRULE:" prefix
+ * @returns RecurrenceRule or an error message
+ */
+export function parseRecurrenceRule(rule: string): { rule: RecurrenceRule; error: null } | { rule: null; error: string } {
+  const parts = new Map<string, string>()
+  for (const part of rule.replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+    const [name, value] = part.split('=')
+    if (!name || !value || parts.has(name.toUpperCase())) {
+      return { rule: null, error: `Invalid recurrence rule part: ${part}` }
+    }
+    parts.set(name.toUpperCase(), value.toUpperCase())
+  }
+
+  const unsupported = [...parts.keys()].filter(name => !['FREQ', 'INTERVAL', 'BYDAY', 'COUNT', 'UNTIL'].includes(name))
+  if (unsupported.length > 0) {
+    return { rule: null, error: `Unsupported recurrence rule parts: ${unsupported.join(', ')}` }
+  }
+
+  const freq = parts.get('FREQ')
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') {
+    return { rule: null, error: 'FREQ must be DAILY, WEEKLY or MONTHLY' }
+  }
+
+  const interval = parts.has('INTERVAL') ? Number(parts.get('INTERVAL')) : 1
+  if (!Number.isInteger(interval) || interval < 1) {
+    return { rule: null, error: 'INTERVAL must be a positive integer' }
+  }
+
+  let byDay: number[] | null = null
+  if (parts.has('BYDAY')) {
+    if (freq !== 'WEEKLY') {
+      return { rule: null, error: 'BYDAY is only supported with FREQ=WEEKLY' }
+    }
+    const days = parts.get('BYDAY')!.split(',')
+    if (days.some(day => !(day in WEEKDAYS))) {
+      return { rule: null, error: 'BYDAY must list weekdays as MO, TU, WE, TH, FR, SA or SU' }
+    }
+    byDay = [...new Set(days.map(day => WEEKDAYS[day]))].sort()
+  }
+
+  if (parts.has('COUNT') === parts.has('UNTIL')) {
+    return { rule: null, error: 'Exactly one of COUNT or UNTIL is required' }
+  }
+
+  const count = parts.has('COUNT') ? Number(parts.get('COUNT')) : null
+  if (count !== null && (!Number.isInteger(count) || count < 1 || count > MAX_SERIES_OCCURRENCES)) {
+    return { rule: null, error: `COUNT must be between 1 and ${MAX_SERIES_OCCURRENCES}` }
+  }
+
+  // UNTIL as a date (20241231) or date-time (20241231T235959Z); only the date is used
+  const untilMatch = parts.get('UNTIL')?.match(/^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/)
+  if (parts.has('UNTIL') && !untilMatch) {
+    return { rule: null, error: 'UNTIL must be a date such as 20241231' }
+  }
+  const until = untilMatch ? `${untilMatch[1]}-${untilMatch[2]}-${untilMatch[3]}` : null
+
+  return { rule: { freq, interval, byDay, count, until }, error: null }
+}
+
+// Helper function to shift a YYYY-MM-DD date by whole days
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0]
+}
+
+/**
+ * Dates of a series starting on startDate. Weekly rules without BYDAY repeat on the
+ * start date's weekday; monthly rules skip months without the start date's day (e.g. the 31st).
+ * Occurrences before startDate are never produced.
+ * @param rule - Parsed recurrence rule
+ * @param startDate - First possible date (YYYY-MM-DD)
+ * @returns string[] - At most MAX_SERIES_OCCURRENCES + 1 dates, so callers can tell when a series is too long
+ */
+export function expandRecurrence(rule: RecurrenceRule, startDate: string): string[] {
+  const limit = Math.min(rule.count ?? Infinity, MAX_SERIES_OCCURRENCES + 1)
+  const dates: string[] = []
+  const [startYear, startMonth, startDay] = startDate.split('-').map(Number)
+  const startWeekday = new Date(Date.UTC(startYear, startMonth - 1, startDay)).getUTCDay()
+
+  // Weeks start on Monday (RRULE default WKST=MO)
+  const weekStart = addDays(startDate, -((startWeekday + 6) % 7))
+  const weekdays = rule.byDay ?? [startWeekday]
+
+  for (let period = 0; dates.length < limit; period++) {
+    let candidates: string[]
+    if (rule.freq === 'DAILY') {
+      candidates = [addDays(startDate, period * rule.interval)]
+    } else if (rule.freq === 'WEEKLY') {
+      const monday = addDays(weekStart, period * 7 * rule.interval)
+      candidates = weekdays
+        .map(weekday => addDays(monday, (weekday + 6) % 7))
+        .sort()
+        .filter(date => date >= startDate)
+    } else {
+      const month = new Date(Date.UTC(startYear, startMonth - 1 + period * rule.interval, startDay))
+      candidates = month.getUTCDate() === startDay ? [month.toISOString().split('T')[0]] : []
+    }
+
+    for (const date of candidates) {
+      if (rule.until && date > rule.until) {
+        return dates
+      }
+      if (dates.length < limit) {
+        dates.push(date)
+      }
+    }
+  }
+
+  return dates
+}
@@ -0,0 +1,355 @@
+import { supabaseAdmin } from './supabase'
+import {
+  FULL_DAY,
+  getBookingWindow,
+  getExceptionWindow,
+  getScheduleWindows,
+  mergeWindows,
+  shiftWindow,
+  windowsOverlap,
+  BookingTimes,
+  TimeWindow,
+  WeeklyScheduleRow
+} from './availability'
+import { fetchAllRows, groupBy } from './bulk'
+import { addDays } from './recurrence'
+import { getDayOfWeek } from './timezone'
+
+export interface Resource {
+  id: string
+  entity_platform_id: string
+  name: string
+  resource_type: string // operating_theater, xray_room, ultrasound, ...
+}
+
+/**
+ * A resource a slot or booking needs: any free resource of a type, or one specific resource
+ */
+export type ResourceRequirement = { resource_type: string } | { resource_id: string }
+
+export interface AssignedResource {
+  resource_id: string
+  resource_name: string
+  resource_type: string
+}
+
+interface ResourceScheduleRow extends WeeklyScheduleRow {
+  resource_id: string
+  day_of_week: number
+  effective_until?: string | null
+}
+
+interface ResourceExceptionRow {
+  resource_id: string
+  exception_date: string
+  start_time: string | null
+  end_time: string | null
+}
+
+interface ResourceBookingRow {
+  resource_id: string
+  booking_id: string
+  booking: BookingTimes & { booking_date: string }
+}
+
+interface ResourceHoldRow extends BookingTimes {
+  id: string
+  resource_ids: string[]
+  booking_date: string
+}
+
+/**
+ * Resources matching a set of requirements plus their weekly availability,
+ * exceptions and claimed bookings over a date range
+ */
+export interface ResourceAvailabilityData {
+  resources: Resource[]
+  schedulesByResource: Map<string, ResourceScheduleRow[]>
+  exceptionsByResourceDate: Map<string, ResourceExceptionRow[]>
+  bookingsByResourceDate: Map<string, ResourceBookingRow[]>
+  queryCount: number
+}
+
+const resourceDateKey = (resourceId: string, date: string) => `${resourceId}|${date}`
+
+/**
+ * Load the resources that can satisfy the requirements, with everything needed to check them.
+ * Availability and bookings run a day either side of the range, for windows that cross midnight.
+ * @param entityPlatformId - The entity/hospital platform ID
+ * @param requirements - Resource types and/or specific resources needed
+ * @param startDate - First date (YYYY-MM-DD), inclusive
+ * @param endDate - Last date (YYYY-MM-DD), inclusive
+ * @returns Promise<ResourceAvailabilityData>
+ */
+export async function loadResourceAvailability(
+  entityPlatformId: string,
+  requirements: ResourceRequirement[],
+  startDate: string,
+  endDate: string
+): Promise<ResourceAvailabilityData> {
+  const resourceTypes = requirements.flatMap(requirement => 'resource_type' in requirement ? [requirement.resource_type] : [])
+  const resourceIds = requirements.flatMap(requirement => 'resource_id' in requirement ? [requirement.resource_id] : [])
+
+  if (requirements.length === 0) {
+    return {
+      resources: [],
+      schedulesByResource: new Map(),
+      exceptionsByResourceDate: new Map(),
+      bookingsByResourceDate: new Map(),
+      queryCount: 0
+    }
+  }
+
+  const filters: string[] = []
+  if (resourceTypes.length > 0) {
+    filters.push(`resource_type.in.(${resourceTypes.join(',')})`)
+  }
+  if (resourceIds.length > 0) {
+    filters.push(`id.in.(${resourceIds.join(',')})`)
+  }
+
+  const { data: resources, error } = await supabaseAdmin
+    .from('resources')
+    .select('id, entity_platform_id, name, resource_type')
+    .eq('entity_platform_id', entityPlatformId)
+    .eq('is_active', true)
+    .or(filters.join(','))
+    .order('name')
+
+  if (error) {
+    console.error('Resources fetch error:', error)
+    throw new Error('Failed to fetch resources')
+  }
+
+  const ids = (resources ?? []).map(resource => resource.id)
+  if (ids.length === 0) {
+    return {
+      resources: [],
+      schedulesByResource: new Map(),
+      exceptionsByResourceDate: new Map(),
+      bookingsByResourceDate: new Map(),
+      queryCount: 1
+    }
+  }
+
+  const previousDate = addDays(startDate, -1)
+  const nextDate = addDays(endDate, 1)
+  const [schedules, exceptions, bookings, holds] = await Promise.all([
+    fetchAllRows<ResourceScheduleRow>((from, to) => supabaseAdmin
+      .from('resource_schedules')
+      .select('*')
+      .in('resource_id', ids)
+      .eq('is_active', true)
+      .lte('effective_from', nextDate)
+      .or(`effective_until.is.null,effective_until.gte.${previousDate}`)
+      .order('id')
+      .range(from, to), 'resource schedules'),
+    fetchAllRows<ResourceExceptionRow>((from, to) => supabaseAdmin
+      .from('resource_exceptions')
+      .select('*')
+      .in('resource_id', ids)
+      .gte('exception_date', previousDate)
+      .lte('exception_date', nextDate)
+      .eq('is_active', true)
+      .order('id')
+      .range(from, to), 'resource exceptions'),
+    fetchAllRows<ResourceBookingRow>((from, to) => supabaseAdmin
+      .from('booking_resources')
+      .select(`
+        resource_id,
+        booking_id,
+        booking:external_bookings!inner(
+          booking_date,
+          booking_time,
+          booking_end_time,
+          buffer_before_minutes,
+          buffer_after_minutes
+        )
+      `)
+      .in('resource_id', ids)
+      .eq('booking.status', 'active')
+      .gte('booking.booking_date', previousDate)
+      .lte('booking.booking_date', nextDate)
+      .order('id')
+      .range(from, to)
+      .overrideTypes<ResourceBookingRow[], { merge: false }>(), 'resource bookings'),
+    fetchAllRows<ResourceHoldRow>((from, to) => supabaseAdmin
+      .from('slot_holds')
+      .select('id, resource_ids, booking_date, booking_time, booking_end_time, buffer_before_minutes, buffer_after_minutes')
+      .overlaps('resource_ids', ids)
+      .eq('status', 'held')
+      .gt('expires_at', new Date().toISOString())
+      .gte('booking_date', previousDate)
+      .lte('booking_date', nextDate)
+      .order('id')
+      .range(from, to), 'resource holds')
+  ])
+
+  // Held resources are busy like booked ones; the hold ID lets a confirming booking ignore its own hold
+  const heldResources: ResourceBookingRow[] = holds.rows.flatMap(({ id, resource_ids, ...hold }) =>
+    resource_ids.map(resource_id => ({ resource_id, booking_id: id, booking: hold }))
+  )
+
+  return {
+    resources: resources ?? [],
+    schedulesByResource: groupBy(schedules.rows, row => row.resource_id),
+    exceptionsByResourceDate: groupBy(exceptions.rows, row => resourceDateKey(row.resource_id, row.exception_date)),
+    bookingsByResourceDate: groupBy(
+      [...bookings.rows, ...heldResources],
+      row => resourceDateKey(row.resource_id, row.booking.booking_date)
+    ),
+    queryCount: 1 + schedules.queries + exceptions.queries + bookings.queries + holds.queries
+  }
+}
+
+/**
+ * Whether a resource is free for the whole window on a date. Resources with no
+ * weekly availability rows are treated as available around the clock. A window that runs
+ * across midnight must also be free on the date either side.
+ * @param resource - Resource to check
+ * @param date - Local date in YYYY-MM-DD format
+ * @param window - Minutes since local midnight the resource is needed for
+ * @param data - Preloaded resource availability
+ * @param ignoreBookingIds - Bookings or holds to disregard (e.g. the booking being moved)
+ * @returns boolean
+ */
+export function isResourceFree(
+  resource: Resource,
+  date: string,
+  window: TimeWindow,
+  data: ResourceAvailabilityData,
+  ignoreBookingIds: string[] = []
+): boolean {
+  // Each day's windows in minutes since midnight of the date
+  const days = [-1, 0, 1].map(offset => {
+    const { working, blocked } = resolveResourceDay(resource, addDays(date, offset), data, ignoreBookingIds)
+    const minutes = offset * FULL_DAY.end
+    return {
+      working: working.map(workingWindow => shiftWindow(workingWindow, minutes)),
+      blocked: blocked.map(blockedWindow => shiftWindow(blockedWindow, minutes))
+    }
+  })
+
+  const working = mergeWindows(days.flatMap(day => day.working))
+  if (!working.some(workingWindow => workingWindow.start <= window.start && workingWindow.end >= window.end)) {
+    return false
+  }
+
+  return !days.some(day => day.blocked.some(blockedWindow => windowsOverlap(blockedWindow, window)))
+}
+
+/**
+ * Pick one free resource for every requirement, never assigning the same resource twice
+ * @param requirements - Resource types and/or specific resources needed
+ * @param date - Local date in YYYY-MM-DD format
+ * @param window - Minutes since local midnight the resources are needed for
+ * @param data - Preloaded resource availability
+ * @param ignoreBookingIds - Bookings to disregard (e.g. the booking being moved)
+ * @returns Assigned resources, or the first requirement that could not be met
+ */
+export function assignResources(
+  requirements: ResourceRequirement[],
+  date: string,
+  window: TimeWindow,
+  data: ResourceAvailabilityData,
+  ignoreBookingIds: string[] = []
+): { assigned: AssignedResource[]; missing: ResourceRequirement | null } {
+  const assigned: AssignedResource[] = []
+  // Specifically requested resources also count towards a required type (theatre 2 is an operating_theater)
+  const unconsumedSpecific: AssignedResource[] = []
+
+  for (const requirement of requirements) {
+    if ('resource_type' in requirement) {
+      const specificIndex = unconsumedSpecific.findIndex(resource => resource.resource_type === requirement.resource_type)
+      if (specificIndex >= 0) {
+        unconsumedSpecific.splice(specificIndex, 1)
+        continue
+      }
+    }
+
+    const candidate = data.resources.find(resource =>
+      ('resource_id' in requirement ? resource.id === requirement.resource_id : resource.resource_type === requirement.resource_type) &&
+      !assigned.some(existing => existing.resource_id === resource.id) &&
+      isResourceFree(resource, date, window, data, ignoreBookingIds)
+    )
+
+    if (!candidate) {
+      return { assigned, missing: requirement }
+    }
+
+    const assignment = {
+      resource_id: candidate.id,
+      resource_name: candidate.name,
+      resource_type: candidate.resource_type
+    }
+    assigned.push(assignment)
+    if ('resource_id' in requirement) {
+      unconsumedSpecific.push(assignment)
+    }
+  }
+
+  return { assigned, missing: null }
+}
+
+/**
+ * Human-readable reason for a requirement that could not be met
+ * @param requirement - The unmet requirement
+ * @param data - Preloaded resource availability, for resource names
+ * @returns string
+ */
+export function describeMissingResource(requirement: ResourceRequirement, data: ResourceAvailabilityData): string {
+  if ('resource_id' in requirement) {
+    const resource = data.resources.find(candidate => candidate.id === requirement.resource_id)
+    return `Resource unavailable: ${resource?.name ?? requirement.resource_id}`
+  }
+  return `No ${requirement.resource_type} available`
+}
+
+/**
+ * Combine an appointment type's required resource types with resources requested explicitly.
+ * Specific resources come first so assignResources can count them towards required types.
+ * @param requiredTypes - Resource types required by the appointment type
+ * @param resourceTypes - Extra resource types requested by the caller
+ * @param resourceIds - Specific resources requested by the caller
+ * @returns ResourceRequirement[]
+ */
+export function buildResourceRequirements(
+  requiredTypes: string[] = [],
+  resourceTypes: string[] = [],
+  resourceIds: string[] = []
+): ResourceRequirement[] {
+  return [
+    ...resourceIds.map(resource_id => ({ resource_id })),
+    ...[...requiredTypes, ...resourceTypes].map(resource_type => ({ resource_type }))
+  ]
+}
+
+// Helper function to resolve when a resource is open on a date and what blocks it there:
+// breaks, exceptions and other bookings or holds
+function resolveResourceDay(
+  resource: Resource,
+  date: string,
+  data: ResourceAvailabilityData,
+  ignoreBookingIds: string[]
+): { working: TimeWindow[]; blocked: TimeWindow[] } {
+  const dayOfWeek = getDayOfWeek(date)
+  const allSchedules = data.schedulesByResource.get(resource.id) ?? []
+  const schedules = allSchedules.filter(schedule =>
+    schedule.day_of_week === dayOfWeek &&
+    schedule.effective_from <= date &&
+    (!schedule.effective_until || schedule.effective_until >= date)
+  )
+
+  const { working, breaks } = allSchedules.length === 0
+    ? { working: [FULL_DAY], breaks: [] }
+    : getScheduleWindows(schedules)
+
+  const exceptions = data.exceptionsByResourceDate.get(resourceDateKey(resource.id, date)) ?? []
+  const bookings = (data.bookingsByResourceDate.get(resourceDateKey(resource.id, date)) ?? [])
+    .filter(booking => !ignoreBookingIds.includes(booking.booking_id))
+
+  return {
+    working,
+    blocked: [...breaks, ...exceptions.map(getExceptionWindow), ...bookings.map(booking => getBookingWindow(booking.booking))]
+  }
+}
@@ -0,0 +1,113 @@
+import { supabaseAdmin } from './supabase'
+
+// Longest supported rotation, in weeks
+export const MAX_CYCLE_WEEKS = 12
+
+// Schedule columns plus the cycle of the rota pattern a block belongs to, for resolving blocks on dates
+export const SCHEDULE_WITH_ROTA_SELECT = '*, rota_pattern:rota_patterns(cycle_weeks, anchor_date)'
+
+/**
+ * How a rota repeats: cycle week 1 starts on anchor_date, then every cycle_weeks * 7 days
+ */
+export interface RotaCycle {
+  cycle_weeks: number
+  anchor_date: string
+}
+
+export interface RotaPattern extends RotaCycle {
+  id: string
+  entity_platform_id: string
+  staff_member_id: string
+  name: string
+  description: string | null
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Rota fields of a weekly schedule row; blocks without a pattern apply every week
+ */
+export interface RotaBlockFields {
+  rota_pattern_id?: string | null
+  cycle_week?: number | null
+  rota_pattern?: RotaCycle | null // Embedded with SCHEDULE_WITH_ROTA_SELECT
+}
+
+/**
+ * Look up a rota pattern of an entity
+ * @param entityPlatformId - The entity/hospital platform ID
+ * @param patternId - Rota pattern ID
+ * @returns Promise<RotaPattern | null>
+ */
+export async function findRotaPattern(entityPlatformId: string, patternId: string): Promise<RotaPattern | null> {
+  const { data: pattern, error } = await supabaseAdmin
+    .from('rota_patterns')
+    .select('*')
+    .eq('id', patternId)
+    .eq('entity_platform_id', entityPlatformId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Rota pattern fetch error:', error)
+    throw new Error('Failed to fetch rota pattern')
+  }
+
+  return pattern
+}
+
+/**
+ * Week of the cycle a date falls in. Dates before the anchor count backwards, so the
+ * cycle has no start or end.
+ * @param cycle - Cycle length and anchor date
+ * @param date - Local date in YYYY-MM-DD format
+ * @returns number - From 1 to cycle_weeks
+ */
+export function getCycleWeek(cycle: RotaCycle, date: string): number {
+  const weeks = Math.floor(daysBetween(cycle.anchor_date, date) / 7)
+  return ((weeks % cycle.cycle_weeks) + cycle.cycle_weeks) % cycle.cycle_weeks + 1
+}
+
+/**
+ * Whether a schedule block applies in the cycle week of a date. Only the weekday and
+ * effective dates decide for blocks without a rota pattern.
+ * @param schedule - Schedule row, with its pattern's cycle embedded
+ * @param date - Local date in YYYY-MM-DD format
+ * @returns boolean
+ */
+export function appliesInCycleWeek(schedule: RotaBlockFields, date: string): boolean {
+  if (!schedule.rota_pattern_id) {
+    return true
+  }
+  return !!schedule.rota_pattern && schedule.cycle_week === getCycleWeek(schedule.rota_pattern, date)
+}
+
+/**
+ * Whether two blocks on the same weekday can apply on the same date: only blocks of
+ * different weeks of the same rota pattern never do
+ * @param a - First block
+ * @param b - Second block
+ * @returns boolean
+ */
+export function canCoincide(a: RotaBlockFields, b: RotaBlockFields): boolean {
+  return !a.rota_pattern_id || a.rota_pattern_id !== b.rota_pattern_id || a.cycle_week === b.cycle_week
+}
+
+/**
+ * Whether block a applies in every week block b does (same weekday assumed), so a later
+ * version of a replaces b completely
+ * @param a - Covering block
+ * @param b - Covered block
+ * @returns boolean
+ */
+export function coversCycleWeeks(a: RotaBlockFields, b: RotaBlockFields): boolean {
+  return !a.rota_pattern_id || (a.rota_pattern_id === b.rota_pattern_id && a.cycle_week === b.cycle_week)
+}
+
+// Helper function to count the days from one YYYY-MM-DD date to another
+function daysBetween(from: string, to: string): number {
+  const toUtc = (date: string) => {
+    const [year, month, day] = date.split('-').map(Number)
+    return Date.UTC(year, month - 1, day)
+  }
+  return Math.round((toUtc(to) - toUtc(from)) / (24 * 60 * 60 * 1000))
+}
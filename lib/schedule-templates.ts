@@ -0,0 +1,230 @@
+import { supabaseAdmin } from './supabase'
+import { fetchAllRows, groupBy } from './bulk'
+import { findOverlappingBlocks, supersedeSchedules, ScheduleBlock, WeeklySchedule } from './schedules'
+import { StaffMember } from './slots'
+
+// Template columns with the template's blocks
+export const TEMPLATE_WITH_BLOCKS_SELECT = '*, blocks:schedule_template_blocks(*)'
+
+/**
+ * One block of a template, in the same shape as a weekly schedule block
+ */
+export interface ScheduleTemplateBlock {
+  id: string
+  template_id: string
+  day_of_week: number
+  start_time: string
+  end_time: string
+  is_available: boolean
+  slot_duration_minutes: number
+  slot_interval_minutes: number | null
+}
+
+/**
+ * A named week of blocks a hospital applies to many staff members at once
+ */
+export interface ScheduleTemplate {
+  id: string
+  entity_platform_id: string
+  name: string
+  description: string | null
+  is_active: boolean
+  created_at: string
+  updated_at: string
+  blocks: ScheduleTemplateBlock[]
+}
+
+/**
+ * What to do for staff members who already have hours the template would clash with
+ */
+export type TemplateConflictStrategy = 'skip' | 'replace' | 'fail'
+
+/**
+ * Which staff a template is applied to: a list of staff members or everyone with a role
+ */
+export interface TemplateTargets {
+  staff_member_ids?: string[]
+  role_type?: string
+}
+
+/**
+ * What applying a template will do for one staff member
+ */
+export interface TemplatePlanEntry {
+  staff_member: StaffMember
+  action: 'create' | 'replace' | 'skip' | 'conflict' // conflict = the fail strategy stops the whole application
+  conflicting_schedules: WeeklySchedule[] // Blocks on the template's weekdays, or overlapping its overnight blocks
+}
+
+export interface TemplateApplicationResult {
+  staff_member_id: string
+  status: 'applied' | 'skipped' | 'failed'
+  schedules?: WeeklySchedule[] // The staff member's new blocks
+  replaced_schedule_ids?: string[]
+  error?: string
+}
+
+/**
+ * Look up an active schedule template of an entity, with its blocks
+ * @param entityPlatformId - The entity/hospital platform ID
+ * @param templateId - Schedule template ID
+ * @returns Promise<ScheduleTemplate | null>
+ */
+export async function findScheduleTemplate(entityPlatformId: string, templateId: string): Promise<ScheduleTemplate | null> {
+  const { data: template, error } = await supabaseAdmin
+    .from('schedule_templates')
+    .select(TEMPLATE_WITH_BLOCKS_SELECT)
+    .eq('id', templateId)
+    .eq('entity_platform_id', entityPlatformId)
+    .eq('is_active', true)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Schedule template fetch error:', error)
+    throw new Error('Failed to fetch schedule template')
+  }
+
+  return template as ScheduleTemplate | null
+}
+
+/**
+ * Active staff members of an entity a template is applied to
+ * @param entityPlatformId - The entity/hospital platform ID
+ * @param targets - Staff member IDs or a role type
+ * @returns The staff members found, in name order, and requested IDs that were not found
+ */
+export async function loadTemplateTargets(
+  entityPlatformId: string,
+  targets: TemplateTargets
+): Promise<{ staff: StaffMember[]; missingStaffIds: string[] }> {
+  const { rows } = await fetchAllRows<StaffMember>((from, to) => {
+    let query = supabaseAdmin
+      .from('staff_members')
+      .select('id, full_name, role_type')
+      .eq('entity_platform_id', entityPlatformId)
+      .eq('is_active', true)
+
+    query = targets.staff_member_ids
+      ? query.in('id', targets.staff_member_ids)
+      : query.eq('role_type', targets.role_type!)
+
+    return query.order('full_name').order('id').range(from, to)
+  }, 'template staff')
+
+  const found = new Set(rows.map(staff => staff.id))
+  return {
+    staff: rows,
+    missingStaffIds: (targets.staff_member_ids ?? []).filter(id => !found.has(id))
+  }
+}
+
+/**
+ * Work out what applying a template from a date does for each staff member, without writing
+ * anything. Slots use only the latest version of each weekday, so any block in effect on or
+ * after the date on one of the template's weekdays clashes, even if the times do not overlap;
+ * so do blocks of other days that overlap the template's overnight blocks (or that the
+ * template's blocks run into).
+ * @param template - Template with its blocks
+ * @param staff - Staff members to apply it to
+ * @param effectiveFrom - First day the template applies (YYYY-MM-DD)
+ * @param strategy - What to do for staff members with clashing blocks
+ * @returns Promise<TemplatePlanEntry[]> - One per staff member, in the given order
+ */
+export async function planTemplateApplication(
+  template: ScheduleTemplate,
+  staff: StaffMember[],
+  effectiveFrom: string,
+  strategy: TemplateConflictStrategy
+): Promise<TemplatePlanEntry[]> {
+  if (staff.length === 0) {
+    return []
+  }
+
+  const { rows: existing } = await fetchAllRows<WeeklySchedule>((from, to) => supabaseAdmin
+    .from('weekly_schedules')
+    .select('*')
+    .in('staff_member_id', staff.map(member => member.id))
+    .eq('is_active', true)
+    .or(`effective_until.is.null,effective_until.gte.${effectiveFrom}`)
+    .order('id')
+    .range(from, to), 'existing schedules')
+
+  const existingByStaff = groupBy(existing, schedule => schedule.staff_member_id)
+  const templateDays = new Set(template.blocks.map(block => block.day_of_week))
+
+  return staff.map(member => {
+    const schedules = existingByStaff.get(member.id) ?? []
+    const conflicting = schedules.filter(schedule =>
+      templateDays.has(schedule.day_of_week) ||
+      template.blocks.some(block => findOverlappingBlocks(block, [schedule]).length > 0)
+    )
+
+    return {
+      staff_member: member,
+      action: conflicting.length === 0
+        ? 'create'
+        : strategy === 'skip' ? 'skip' : strategy === 'replace' ? 'replace' : 'conflict',
+      conflicting_schedules: conflicting
+    }
+  })
+}
+
+/**
+ * Apply a planned template, one staff member at a time. Each staff member's clashing blocks
+ * are ended (or cancelled, if they start later) and the template's blocks created in one
+ * transaction, so a staff member is either fully switched over or left as they were.
+ * @param template - Template with its blocks
+ * @param plan - From planTemplateApplication; conflict entries must not be passed
+ * @param effectiveFrom - First day the template applies (YYYY-MM-DD)
+ * @param effectiveUntil - Last day it applies, or null for indefinite
+ * @param reason - Recorded as the change reason on the new blocks and end reason on replaced ones
+ * @returns Promise<TemplateApplicationResult[]> - One per plan entry, in order
+ */
+export async function applyTemplatePlan(
+  template: ScheduleTemplate,
+  plan: TemplatePlanEntry[],
+  effectiveFrom: string,
+  effectiveUntil: string | null,
+  reason: string
+): Promise<TemplateApplicationResult[]> {
+  const results: TemplateApplicationResult[] = []
+
+  for (const entry of plan) {
+    const staffMemberId = entry.staff_member.id
+    if (entry.action === 'skip' || entry.action === 'conflict') {
+      results.push({ staff_member_id: staffMemberId, status: 'skipped' })
+      continue
+    }
+
+    const replacedIds = entry.conflicting_schedules.map(schedule => schedule.id)
+    const result = await supersedeSchedules(
+      replacedIds,
+      effectiveFrom,
+      template.blocks.map(block => toScheduleBlock(block, staffMemberId, effectiveUntil)),
+      reason
+    )
+
+    results.push(result.conflict !== null
+      ? { staff_member_id: staffMemberId, status: 'failed', error: result.conflict }
+      : { staff_member_id: staffMemberId, status: 'applied', schedules: result.schedules, replaced_schedule_ids: replacedIds })
+  }
+
+  return results
+}
+
+// Helper function to turn a template block into a staff member's schedule block
+function toScheduleBlock(block: ScheduleTemplateBlock, staffMemberId: string, effectiveUntil: string | null): ScheduleBlock {
+  return {
+    staff_member_id: staffMemberId,
+    day_of_week: block.day_of_week,
+    start_time: block.start_time,
+    end_time: block.end_time,
+    is_available: block.is_available,
+    slot_duration_minutes: block.slot_duration_minutes,
+    slot_interval_minutes: block.slot_interval_minutes,
+    effective_until: effectiveUntil,
+    previous_version_id: null,
+    rota_pattern_id: null,
+    cycle_week: null
+  }
+}
@@ -0,0 +1,339 @@
+import { supabaseAdmin } from './supabase'
+import { getNextDayWindow, getSameDayWindow, parseTime, windowsOverlap, TimeWindow, WeeklyScheduleRow } from './availability'
+import { addDays } from './recurrence'
+import { canCoincide, coversCycleWeeks, RotaBlockFields } from './rota'
+
+// Raised by supersede_weekly_schedules when a block changed under us, or by the unique block index
+const STALE_SCHEDULE_CODE = '23514'
+const DUPLICATE_CODE = '23505'
+
+/**
+ * One block of a staff member's weekly schedule, as stored. Rows are never overwritten:
+ * a change ends the current version and links a new one through previous_version_id.
+ */
+export interface WeeklySchedule extends WeeklyScheduleRow {
+  id: string
+  staff_member_id: string
+  day_of_week: number
+  is_available: boolean
+  slot_duration_minutes: number
+  slot_interval_minutes: number | null
+  effective_until: string | null
+  is_active: boolean // false = cancelled before it took effect
+  previous_version_id: string | null
+  change_reason: string | null
+  end_reason: string | null
+  rota_pattern_id: string | null // Set for blocks of a rotating rota
+  cycle_week: number | null
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * A block to create in a new version of a day
+ */
+export type ScheduleBlock = Pick<
+  WeeklySchedule,
+  | 'staff_member_id'
+  | 'day_of_week'
+  | 'start_time'
+  | 'end_time'
+  | 'is_available'
+  | 'slot_duration_minutes'
+  | 'slot_interval_minutes'
+  | 'effective_until'
+  | 'previous_version_id'
+  | 'rota_pattern_id'
+  | 'cycle_week'
+>
+
+/**
+ * The blocks of a staff member's week between two changes
+ */
+export interface WeekVersion {
+  effective_from: string
+  effective_until: string | null // null = until further notice
+  status: 'past' | 'current' | 'future'
+  schedules: WeeklySchedule[] // In day and start time order
+}
+
+/**
+ * Look up a schedule block of an entity's staff member, in any state
+ * @param entityPlatformId - The entity/hospital platform ID
+ * @param scheduleId - Weekly schedule ID
+ * @returns Promise<WeeklySchedule | null>
+ */
+export async function findSchedule(entityPlatformId: string, scheduleId: string): Promise<WeeklySchedule | null> {
+  const { data: schedule, error } = await supabaseAdmin
+    .from('weekly_schedules')
+    .select('*, staff_member:staff_members!inner(entity_platform_id)')
+    .eq('id', scheduleId)
+    .eq('staff_member.entity_platform_id', entityPlatformId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Schedule fetch error:', error)
+    throw new Error('Failed to fetch schedule')
+  }
+
+  return schedule as WeeklySchedule | null
+}
+
+/**
+ * Blocks of the version of a block's day that applies on a date. Slot generation uses only the
+ * latest version in effect, so a change to one block has to carry the day's other blocks over,
+ * rota blocks of other cycle weeks included.
+ * @param schedule - Block being changed
+ * @param date - Date the change takes effect (YYYY-MM-DD)
+ * @returns The block's version of the day, or the start of the later version that replaces it by then
+ */
+export async function loadDayVersion(
+  schedule: WeeklySchedule,
+  date: string
+): Promise<{ schedules: WeeklySchedule[]; supersededOn: null } | { schedules: null; supersededOn: string }> {
+  const { data, error } = await supabaseAdmin
+    .from('weekly_schedules')
+    .select('*')
+    .eq('staff_member_id', schedule.staff_member_id)
+    .eq('day_of_week', schedule.day_of_week)
+    .eq('is_active', true)
+    .lte('effective_from', date)
+    .or(`effective_until.is.null,effective_until.gte.${date}`)
+    .order('start_time')
+
+  if (error) {
+    console.error('Day schedule fetch error:', error)
+    throw new Error('Failed to fetch day schedule')
+  }
+
+  const schedules = data as WeeklySchedule[]
+  const latest = schedules
+    .filter(row => coversCycleWeeks(row, schedule))
+    .reduce((max, row) => (row.effective_from > max ? row.effective_from : max), schedule.effective_from)
+  if (latest !== schedule.effective_from) {
+    return { schedules: null, supersededOn: latest }
+  }
+
+  return { schedules: schedules.filter(row => row.effective_from === schedule.effective_from), supersededOn: null }
+}
+
+/**
+ * The blocks of a day a new block starting on a date would hide: slot generation uses only the
+ * latest version in effect, so the day's blocks that apply then and started earlier have to be
+ * carried over into the new block's version. Rota blocks only hide blocks that apply in every
+ * week they do, so a rota block leaves regular hours of other cycle weeks alone.
+ * @param block - Block being added
+ * @param date - First day the block applies (YYYY-MM-DD)
+ * @returns The blocks to carry over, or the start of a later version that would hide the block
+ */
+export async function loadBlocksToCarryOver(
+  block: Pick<ScheduleBlock, 'staff_member_id' | 'day_of_week'> & RotaBlockFields,
+  date: string
+): Promise<{ schedules: WeeklySchedule[]; supersededOn: null } | { schedules: null; supersededOn: string }> {
+  const { data, error } = await supabaseAdmin
+    .from('weekly_schedules')
+    .select('*')
+    .eq('staff_member_id', block.staff_member_id)
+    .eq('day_of_week', block.day_of_week)
+    .eq('is_active', true)
+    .or(`effective_until.is.null,effective_until.gte.${date}`)
+    .order('start_time')
+
+  if (error) {
+    console.error('Day schedule fetch error:', error)
+    throw new Error('Failed to fetch day schedule')
+  }
+
+  const schedules = data as WeeklySchedule[]
+  const later = schedules
+    .filter(row => row.effective_from > date && coversCycleWeeks(row, block))
+    .reduce<string | null>((min, row) => (min === null || row.effective_from < min ? row.effective_from : min), null)
+  if (later !== null) {
+    return { schedules: null, supersededOn: later }
+  }
+
+  // Rows already hidden by a later version stay hidden, as in buildWeekVersions
+  const inEffect = schedules.filter(row => row.effective_from <= date)
+  return {
+    schedules: inEffect.filter(row =>
+      row.effective_from < date &&
+      coversCycleWeeks(block, row) &&
+      !inEffect.some(other => other.effective_from > row.effective_from && coversCycleWeeks(other, row))
+    ),
+    supersededOn: null
+  }
+}
+
+/**
+ * Copy a block into a new version of its day, linked to the row it replaces
+ * @param schedule - Block of the version being replaced
+ * @returns ScheduleBlock
+ */
+export function toNextVersion(schedule: WeeklySchedule): ScheduleBlock {
+  return {
+    staff_member_id: schedule.staff_member_id,
+    day_of_week: schedule.day_of_week,
+    start_time: schedule.start_time,
+    end_time: schedule.end_time,
+    is_available: schedule.is_available,
+    slot_duration_minutes: schedule.slot_duration_minutes,
+    slot_interval_minutes: schedule.slot_interval_minutes,
+    effective_until: schedule.effective_until,
+    previous_version_id: schedule.id,
+    rota_pattern_id: schedule.rota_pattern_id,
+    cycle_week: schedule.cycle_week
+  }
+}
+
+// Fields that decide whether two blocks overlap
+type BlockTimes = Pick<ScheduleBlock, 'day_of_week' | 'start_time' | 'end_time' | 'is_available'> & RotaBlockFields
+
+/**
+ * Blocks a changed block would overlap, on its own day or, for overnight blocks, after
+ * midnight on the next day. Breaks (is_available: false) sit inside working blocks, so only
+ * blocks of the same kind are compared, and rota blocks only with blocks that can apply in
+ * the same week.
+ * @param block - Changed block
+ * @param others - Blocks of the same and neighbouring days
+ * @returns The overlapping blocks of others
+ */
+export function findOverlappingBlocks<T extends BlockTimes>(block: BlockTimes, others: T[]): T[] {
+  const pieces = weekdayPieces(block)
+  return others.filter(other =>
+    (other.is_available !== false) === (block.is_available !== false) &&
+    canCoincide(other, block) &&
+    weekdayPieces(other).some(otherPiece => pieces.some(piece =>
+      piece.dayOfWeek === otherPiece.dayOfWeek && windowsOverlap(piece.window, otherPiece.window)
+    ))
+  )
+}
+
+/**
+ * Active blocks in effect on a date on the weekdays either side of a day, which overnight
+ * blocks can run into
+ * @param staffMemberId - Staff member ID
+ * @param dayOfWeek - The day in the middle
+ * @param date - Date the blocks must be in effect on (YYYY-MM-DD)
+ * @returns Promise<WeeklySchedule[]>
+ */
+export async function loadNeighbouringBlocks(staffMemberId: string, dayOfWeek: number, date: string): Promise<WeeklySchedule[]> {
+  const { data, error } = await supabaseAdmin
+    .from('weekly_schedules')
+    .select('*')
+    .eq('staff_member_id', staffMemberId)
+    .in('day_of_week', [(dayOfWeek + 6) % 7, (dayOfWeek + 1) % 7])
+    .eq('is_active', true)
+    .lte('effective_from', date)
+    .or(`effective_until.is.null,effective_until.gte.${date}`)
+
+  if (error) {
+    console.error('Neighbouring schedule fetch error:', error)
+    throw new Error('Failed to fetch neighbouring schedules')
+  }
+
+  return data
+}
+
+/**
+ * End the given blocks the day before a date (cancelling those that have not started by then)
+ * and start the replacement blocks on it, in one transaction
+ * @param scheduleIds - Blocks of the version being replaced
+ * @param effectiveDate - First day of the new version (YYYY-MM-DD)
+ * @param blocks - Blocks of the new version; empty to just end the old ones
+ * @param reason - Why the schedule changed, kept on both versions
+ * @returns The new blocks, or why the change could not be applied
+ */
+export async function supersedeSchedules(
+  scheduleIds: string[],
+  effectiveDate: string,
+  blocks: ScheduleBlock[],
+  reason: string | null
+): Promise<{ schedules: WeeklySchedule[]; conflict: null } | { schedules: null; conflict: string }> {
+  const { data, error } = await supabaseAdmin.rpc('supersede_weekly_schedules', {
+    p_schedule_ids: scheduleIds,
+    p_effective_date: effectiveDate,
+    p_blocks: blocks,
+    p_reason: reason
+  })
+
+  if (error) {
+    if (error.code === STALE_SCHEDULE_CODE) {
+      return { schedules: null, conflict: error.message }
+    }
+    if (error.code === DUPLICATE_CODE) {
+      return { schedules: null, conflict: 'Another block already starts at this time on this day' }
+    }
+
+    console.error('Schedule supersede error:', error)
+    throw new Error('Failed to update schedule')
+  }
+
+  return { schedules: data as WeeklySchedule[], conflict: null }
+}
+
+/**
+ * Split a staff member's schedule history into the weeks it describes: a new version starts
+ * whenever any day's blocks start or stop applying. Within a day only the latest version in
+ * effect applies, as in slot generation; rota blocks are listed with their cycle_week and
+ * hidden only by later blocks that apply in every week they do. Cancelled blocks never
+ * applied and are left out.
+ * @param schedules - All of one staff member's schedule rows
+ * @param today - Today in the hospital's timezone (YYYY-MM-DD)
+ * @returns WeekVersion[] - Oldest first
+ */
+export function buildWeekVersions(schedules: WeeklySchedule[], today: string): WeekVersion[] {
+  const active = schedules.filter(schedule => schedule.is_active)
+  const changeDates = [...new Set(active.flatMap(schedule =>
+    schedule.effective_until ? [schedule.effective_from, addDays(schedule.effective_until, 1)] : [schedule.effective_from]
+  ))].sort()
+
+  const versions: WeekVersion[] = []
+  changeDates.forEach((date, index) => {
+    const inEffect = active.filter(schedule =>
+      schedule.effective_from <= date && (!schedule.effective_until || schedule.effective_until >= date)
+    )
+    const weekSchedules = inEffect
+      .filter(schedule => !inEffect.some(other =>
+        other.day_of_week === schedule.day_of_week &&
+        other.effective_from > schedule.effective_from &&
+        coversCycleWeeks(other, schedule)
+      ))
+      .sort((a, b) =>
+        a.day_of_week - b.day_of_week ||
+        (a.cycle_week ?? 0) - (b.cycle_week ?? 0) ||
+        parseTime(a.start_time) - parseTime(b.start_time)
+      )
+    const effectiveUntil = index + 1 < changeDates.length ? addDays(changeDates[index + 1], -1) : null
+
+    // A change date can leave the week as it was (e.g. an old version that was already replaced ends)
+    const previous = versions[versions.length - 1]
+    if (previous && sameSchedules(previous.schedules, weekSchedules)) {
+      previous.effective_until = effectiveUntil
+      return
+    }
+
+    versions.push({ effective_from: date, effective_until: effectiveUntil, status: 'future', schedules: weekSchedules })
+  })
+
+  for (const version of versions) {
+    version.status = version.effective_from > today
+      ? 'future'
+      : version.effective_until !== null && version.effective_until < today ? 'past' : 'current'
+  }
+
+  return versions
+}
+
+// Helper function to compare two sorted lists of blocks by row
+function sameSchedules(a: WeeklySchedule[], b: WeeklySchedule[]): boolean {
+  return a.length === b.length && a.every((schedule, index) => schedule.id === b[index].id)
+}
+
+// Helper function to split a block into the windows it covers on each weekday
+function weekdayPieces(block: BlockTimes): { dayOfWeek: number; window: TimeWindow }[] {
+  const nextDay = getNextDayWindow(block)
+  return [
+    { dayOfWeek: block.day_of_week, window: getSameDayWindow(block) },
+    ...(nextDay ? [{ dayOfWeek: (block.day_of_week + 1) % 7, window: nextDay }] : [])
+  ]
+}
@@ -0,0 +1,204 @@
+import { supabaseAdmin } from './supabase'
+import { ExternalBooking, NewBooking } from './bookings'
+
+export type SeriesMode = 'all_or_nothing' | 'best_effort'
+
+export interface BookingSeries {
+  id: string
+  entity_platform_id: string
+  staff_member_id: string
+  external_series_id: string
+  source_service: string
+  recurrence_rule: string
+  start_date: string
+  booking_time: string
+  appointment_type_id: string | null
+  mode: SeriesMode
+  metadata: Record<string, unknown> | null
+  created_at: string
+  updated_at: string
+}
+
+export type NewSeries = Omit<BookingSeries, 'id' | 'created_at' | 'updated_at'>
+
+/**
+ * One occurrence ready to book, in the shape create_external_booking expects
+ */
+export interface SeriesOccurrence {
+  booking: NewBooking
+  participants: { staff_member_id: string; role_type: string }[]
+  resource_ids: string[]
+}
+
+/**
+ * Outcome for one occurrence of a series request
+ */
+export interface OccurrenceResult {
+  occurrence: number
+  booking_date: string
+  status: 'booked' | 'rescheduled' | 'failed'
+  booking_id?: string
+  code?: string
+  error?: string
+  reason?: string
+}
+
+// Raised when an occurrence conflicts; DETAIL names the occurrence date or booking ID
+const SERIES_CONFLICT_CODE = '23P01'
+// Unique violation on the series or an occurrence's external ID
+const DUPLICATE_CODE = '23505'
+// Raised by reschedule_external_booking when an occurrence is no longer active
+const INACTIVE_BOOKING_CODE = '23514'
+
+/**
+ * External ID of the nth occurrence (1-based) of a series
+ * @param externalSeriesId - Series ID from the calling system
+ * @param occurrence - Occurrence number
+ * @returns string
+ */
+export function occurrenceExternalId(externalSeriesId: string, occurrence: number): string {
+  return `${externalSeriesId}:${occurrence}`
+}
+
+/**
+ * Occurrence number of a series booking, from its external ID
+ * @param externalBookingId - External ID created by occurrenceExternalId
+ * @returns number
+ */
+export function occurrenceNumber(externalBookingId: string): number {
+  return Number(externalBookingId.slice(externalBookingId.lastIndexOf(':') + 1))
+}
+
+/**
+ * Look up a series of an entity
+ * @param entityPlatformId - The entity/hospital platform ID
+ * @param seriesId - Series ID
+ * @returns Promise<BookingSeries | null>
+ */
+export async function findSeries(entityPlatformId: string, seriesId: string): Promise<BookingSeries | null> {
+  const { data: series, error } = await supabaseAdmin
+    .from('booking_series')
+    .select('*')
+    .eq('id', seriesId)
+    .eq('entity_platform_id', entityPlatformId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Series fetch error:', error)
+    throw new Error('Failed to fetch booking series')
+  }
+
+  return series
+}
+
+/**
+ * Bookings of a series in date order, optionally only from a date onwards
+ * @param seriesId - Series ID
+ * @param fromDate - First date to include (YYYY-MM-DD)
+ * @returns Promise<ExternalBooking[]>
+ */
+export async function getSeriesBookings(seriesId: string, fromDate?: string): Promise<ExternalBooking[]> {
+  let query = supabaseAdmin
+    .from('external_bookings')
+    .select('*')
+    .eq('series_id', seriesId)
+    .order('booking_date')
+    .order('booking_time')
+
+  if (fromDate) {
+    query = query.gte('booking_date', fromDate)
+  }
+
+  const { data: bookings, error } = await query
+
+  if (error) {
+    console.error('Series bookings fetch error:', error)
+    throw new Error('Failed to fetch series bookings')
+  }
+
+  return bookings
+}
+
+/**
+ * Create a series and every occurrence in one transaction; if any occurrence
+ * conflicts, nothing is created.
+ * @param series - Series row to insert
+ * @param occurrences - Occurrences to book
+ * @returns The series, or the conflict and the date of the occurrence that caused it
+ */
+export async function createBookingSeries(
+  series: NewSeries,
+  occurrences: SeriesOccurrence[]
+): Promise<
+  | { series: BookingSeries; conflict: null; conflictDate: null }
+  | { series: null; conflict: string; conflictDate: string | null }
+> {
+  const { data, error } = await supabaseAdmin.rpc('create_booking_series', {
+    p_series: series,
+    p_occurrences: occurrences
+  })
+
+  if (error) {
+    if (error.code === SERIES_CONFLICT_CODE) {
+      return { series: null, conflict: error.message, conflictDate: error.details || null }
+    }
+    if (error.code === DUPLICATE_CODE) {
+      return error.details
+        ? { series: null, conflict: 'Booking with this external ID already exists', conflictDate: error.details }
+        : { series: null, conflict: 'Series with this external ID already exists', conflictDate: null }
+    }
+
+    console.error('Series creation error:', error)
+    throw new Error('Failed to create booking series')
+  }
+
+  return { series: data as BookingSeries, conflict: null, conflictDate: null }
+}
+
+/**
+ * Insert just the series row, for best-effort series whose occurrences are booked one by one
+ * @param series - Series row to insert
+ * @returns Promise<BookingSeries | null> - null when the external series ID is taken
+ */
+export async function insertSeries(series: NewSeries): Promise<BookingSeries | null> {
+  const { data, error } = await supabaseAdmin
+    .from('booking_series')
+    .insert(series)
+    .select()
+    .single()
+
+  if (error) {
+    if (error.code === DUPLICATE_CODE) {
+      return null
+    }
+    console.error('Series creation error:', error)
+    throw new Error('Failed to create booking series')
+  }
+
+  return data
+}
+
+/**
+ * Move several bookings in one transaction; if any move conflicts, none is applied
+ * @param moves - New date and times per booking
+ * @returns The moved bookings, or the conflict and the booking that caused it
+ */
+export async function rescheduleBookingSeries(
+  moves: { booking_id: string; booking_date: string; booking_time: string; booking_end_time: string }[]
+): Promise<
+  | { bookings: ExternalBooking[]; conflict: null; conflictBookingId: null }
+  | { bookings: null; conflict: string; conflictBookingId: string | null }
+> {
+  const { data, error } = await supabaseAdmin.rpc('reschedule_booking_series', { p_moves: moves })
+
+  if (error) {
+    if (error.code === SERIES_CONFLICT_CODE || error.code === INACTIVE_BOOKING_CODE) {
+      return { bookings: null, conflict: error.message, conflictBookingId: error.details || null }
+    }
+
+    console.error('Series reschedule error:', error)
+    throw new Error('Failed to reschedule booking series')
+  }
+
+  return { bookings: data as ExternalBooking[], conflict: null, conflictBookingId: null }
+}
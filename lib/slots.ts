@@ -0,0 +1,646 @@
+import { supabaseAdmin } from './supabase'
+import {
+  carryOverToNextDay,
+  getBookingWindow,
+  getScheduleWindows,
+  mergeWindows,
+  parseTime,
+  resolveWorkingDay,
+  shiftWindow,
+  subtractWindows,
+  windowsOverlap,
+  BlockCode,
+  BlockedWindow,
+  BookingTimes,
+  ClosureWindow,
+  FULL_DAY,
+  ScheduleExceptionRow,
+  TimeWindow,
+  WeeklyScheduleRow
+} from './availability'
+import { formatInTimezone, getDayOfWeek, zonedTimeToUtc } from './timezone'
+import { loadEntityClosures } from './closures'
+import { fetchAllRows, groupBy } from './bulk'
+import {
+  assignResources,
+  describeMissingResource,
+  AssignedResource,
+  ResourceAvailabilityData,
+  ResourceRequirement
+} from './resources'
+import { loadOverbookingPolicies, peakConcurrency, resolveCapacity, OverbookingPolicy } from './overbooking'
+import { appliesInCycleWeek, RotaBlockFields, SCHEDULE_WITH_ROTA_SELECT } from './rota'
+import { addDays } from './recurrence'
+import { assembleTeamSlots, findTeamWindows, TeamRequirement, TeamSlot } from './teams'
+
+export interface TimeSlot {
+  start_time: string
+  end_time: string
+  is_available: boolean // remaining_capacity > 0
+  capacity: number // Bookings the staff member may have at this time (more than 1 with an overbooking policy)
+  remaining_capacity: number
+  staff_id: string
+  staff_name: string
+  staff_role: string
+  unavailable_reason?: string
+  resources?: AssignedResource[]
+}
+
+export interface StaffMember {
+  id: string
+  full_name: string
+  role_type: string
+}
+
+export interface ScheduleRow extends WeeklyScheduleRow, RotaBlockFields {
+  staff_member_id: string
+  day_of_week: number
+  effective_until?: string | null
+}
+
+export interface ExceptionRow extends ScheduleExceptionRow {
+  staff_member_id: string
+  exception_date: string
+}
+
+export interface BookingRow extends BookingTimes {
+  id: string // Booking ID, or hold ID for holds
+  staff_member_id: string
+  booking_date: string
+  is_overbooked?: boolean // Bookings only: counted against the daily overbooking limit
+}
+
+// Team bookings list their extra staff in booking_participants
+interface ParticipantBookingRow {
+  staff_member_id: string
+  booking: BookingTimes & { id: string; booking_date: string; is_overbooked: boolean }
+}
+
+// Unexpired holds keep their staff busy until confirmed, released or expired
+interface HoldRow extends BookingTimes {
+  id: string
+  staff_member_id: string
+  participant_staff_ids: string[] | null
+  booking_date: string
+}
+
+/**
+ * What a slot must fit: the appointment itself plus the set-up and clean-up time around it.
+ * entityInterval is the hospital's default start-time granularity, used when a schedule has none.
+ * resourceRequirements are rooms or equipment that must be free for the same time as the staff member.
+ */
+export interface SlotRequest {
+  duration: number
+  bufferBefore?: number
+  bufferAfter?: number
+  entityInterval?: number | null
+  resourceRequirements?: ResourceRequirement[]
+  sourceService?: string // Decides whether overbooking policies limited to some services apply
+}
+
+/**
+ * Schedules, exceptions and bookings for a set of staff over a date range,
+ * indexed by staff member so slots can be computed without further queries
+ */
+export interface AvailabilityData {
+  schedulesByStaff: Map<string, ScheduleRow[]>
+  exceptionsByStaffDate: Map<string, ExceptionRow[]>
+  bookingsByStaffDate: Map<string, BookingRow[]>
+  holdsByStaffDate: Map<string, BookingRow[]>
+  closuresByDate: Map<string, ClosureWindow[]>
+  overbookingPolicies: Map<string, OverbookingPolicy> // By role type
+  resources?: ResourceAvailabilityData
+  queryCount: number
+}
+
+/**
+ * Hospital-wide default start-time granularity for slots
+ * @param entityPlatformId - The entity/hospital platform ID
+ * @returns Promise<number | null> - null when the hospital has no default
+ */
+export async function getEntitySlotInterval(entityPlatformId: string): Promise<number | null> {
+  const { data: hospital, error } = await supabaseAdmin
+    .from('hospital_master')
+    .select('slot_interval_minutes')
+    .eq('entity_platform_id', entityPlatformId)
+    .single()
+
+  if (error || !hospital) {
+    return null
+  }
+
+  return hospital.slot_interval_minutes ?? null
+}
+
+const staffDateKey = (staffId: string, date: string) => `${staffId}|${date}`
+
+/**
+ * Why a staff member cannot work a window, as a machine-readable code and a readable reason
+ */
+export interface WorkingHoursViolation {
+  code: BlockCode | 'no_schedule' | 'outside_working_hours'
+  reason: string
+}
+
+/**
+ * Load everything slot generation needs for the given staff and date range.
+ * The number of queries is fixed (eight, plus one per extra 1000 rows) no matter how many staff are selected.
+ * Schedules, exceptions and closures start a day early for overnight shifts that end on startDate,
+ * and everything runs a day either side, so bookings, holds and slots can cross midnight.
+ * @param entityPlatformId - The entity/hospital platform ID, for hospital-wide closures
+ * @param staffIds - Staff member IDs to load
+ * @param startDate - First date (YYYY-MM-DD), inclusive
+ * @param endDate - Last date (YYYY-MM-DD), inclusive
+ * @returns Promise<AvailabilityData>
+ */
+export async function loadAvailabilityData(
+  entityPlatformId: string,
+  staffIds: string[],
+  startDate: string,
+  endDate: string
+): Promise<AvailabilityData> {
+  const previousDate = addDays(startDate, -1)
+  const nextDate = addDays(endDate, 1)
+  const [schedules, exceptions, bookings, participantBookings, holds, closures, overbookingPolicies] = await Promise.all([
+    fetchAllRows<ScheduleRow>((from, to) => supabaseAdmin
+      .from('weekly_schedules')
+      .select(SCHEDULE_WITH_ROTA_SELECT)
+      .in('staff_member_id', staffIds)
+      .eq('is_active', true)
+      .lte('effective_from', nextDate)
+      .or(`effective_until.is.null,effective_until.gte.${previousDate}`)
+      .order('id')
+      .range(from, to), 'schedules'),
+    fetchAllRows<ExceptionRow>((from, to) => supabaseAdmin
+      .from('schedule_exceptions')
+      .select('*')
+      .in('staff_member_id', staffIds)
+      .gte('exception_date', previousDate)
+      .lte('exception_date', nextDate)
+      .eq('is_active', true)
+      .order('id')
+      .range(from, to), 'exceptions'),
+    fetchAllRows<BookingRow>((from, to) => supabaseAdmin
+      .from('external_bookings')
+      .select('*')
+      .in('staff_member_id', staffIds)
+      .gte('booking_date', previousDate)
+      .lte('booking_date', nextDate)
+      .eq('status', 'active')
+      .order('id')
+      .range(from, to), 'bookings'),
+    fetchAllRows<ParticipantBookingRow>((from, to) => supabaseAdmin
+      .from('booking_participants')
+      .select(`
+        staff_member_id,
+        booking:external_bookings!inner(
+          id,
+          booking_date,
+          booking_time,
+          booking_end_time,
+          buffer_before_minutes,
+          buffer_after_minutes,
+          is_overbooked
+        )
+      `)
+      .in('staff_member_id', staffIds)
+      .eq('booking.status', 'active')
+      .gte('booking.booking_date', previousDate)
+      .lte('booking.booking_date', nextDate)
+      .order('id')
+      .range(from, to)
+      .overrideTypes<ParticipantBookingRow[], { merge: false }>(), 'participant bookings'),
+    fetchAllRows<HoldRow>((from, to) => supabaseAdmin
+      .from('slot_holds')
+      .select('id, staff_member_id, participant_staff_ids, booking_date, booking_time, booking_end_time, buffer_before_minutes, buffer_after_minutes')
+      .eq('entity_platform_id', entityPlatformId)
+      .eq('status', 'held')
+      .gt('expires_at', new Date().toISOString())
+      .gte('booking_date', previousDate)
+      .lte('booking_date', nextDate)
+      .order('id')
+      .range(from, to), 'holds'),
+    loadEntityClosures(entityPlatformId, previousDate, nextDate),
+    loadOverbookingPolicies(entityPlatformId)
+  ])
+
+  // Staff taking part in someone else's team booking are busy for it too
+  const allBookings: BookingRow[] = [
+    ...bookings.rows,
+    ...participantBookings.rows.map(({ staff_member_id, booking }) => ({ ...booking, staff_member_id }))
+  ]
+  const heldTimes: BookingRow[] = holds.rows.flatMap(({ participant_staff_ids, ...hold }) => [
+    hold,
+    ...(participant_staff_ids ?? []).map(staff_member_id => ({ ...hold, staff_member_id }))
+  ])
+
+  return {
+    schedulesByStaff: groupBy(schedules.rows, row => row.staff_member_id),
+    exceptionsByStaffDate: groupBy(exceptions.rows, row => staffDateKey(row.staff_member_id, row.exception_date)),
+    bookingsByStaffDate: groupBy(allBookings, row => staffDateKey(row.staff_member_id, row.booking_date)),
+    holdsByStaffDate: groupBy(heldTimes, row => staffDateKey(row.staff_member_id, row.booking_date)),
+    closuresByDate: closures.closuresByDate,
+    overbookingPolicies,
+    queryCount: schedules.queries + exceptions.queries + bookings.queries + participantBookings.queries + holds.queries + closures.queryCount + 1
+  }
+}
+
+/**
+ * Generate one staff member's slots for a date from preloaded availability data
+ * @param staff - Staff member to generate slots for
+ * @param date - Local date in YYYY-MM-DD format
+ * @param slotRequest - Slot length in minutes and any pre/post buffers
+ * @param timeZone - Hospital's IANA timezone
+ * @param data - Preloaded schedules, exceptions, bookings and, when resources are required, resource availability
+ * @returns TimeSlot[]
+ */
+export function generateSlotsForStaff(
+  staff: StaffMember,
+  date: string,
+  slotRequest: SlotRequest,
+  timeZone: string,
+  data: AvailabilityData
+): TimeSlot[] {
+  const { duration, entityInterval, sourceService } = slotRequest
+  const day = resolveStaffDay(staff.id, date, data)
+  const { working, fullDayBlock, slotInterval, slotDuration } = day
+  const { maxConcurrent } = resolveCapacity(data.overbookingPolicies.get(staff.role_type), sourceService)
+
+  if (working.length === 0) {
+    const placeholder = toSlotTimes(date, parseTime('09:00'), parseTime('09:00') + duration, timeZone)
+    return placeholder ? [{
+      ...placeholder,
+      is_available: false,
+      capacity: maxConcurrent,
+      remaining_capacity: 0,
+      staff_id: staff.id,
+      staff_name: staff.full_name,
+      staff_role: staff.role_type,
+      unavailable_reason: fullDayBlock?.reason ?? 'No schedule defined'
+    }] : []
+  }
+
+  // If staff is unavailable for the whole day
+  if (fullDayBlock) {
+    const blockedDay = toSlotTimes(date, working[0].start, working[working.length - 1].end, timeZone)
+    return blockedDay ? [{
+      ...blockedDay,
+      is_available: false,
+      capacity: maxConcurrent,
+      remaining_capacity: 0,
+      staff_id: staff.id,
+      staff_name: staff.full_name,
+      staff_role: staff.role_type,
+      unavailable_reason: fullDayBlock.reason
+    }] : []
+  }
+
+  // Start times step by the configured granularity, independent of the requested duration:
+  // schedule interval, then hospital interval, then the schedule's slot length, then the duration
+  const step = slotInterval ?? entityInterval ?? slotDuration ?? duration
+
+  // Generate time slots within each working window (schedule plus extra hours); windows carry on
+  // across midnight, so late slots may end on the next day
+  const slots: TimeSlot[] = []
+  const span = extendAcrossMidnight(staff.id, date, day, data)
+
+  for (const window of span.working) {
+    for (const slot of stepThroughWindow(window, step, slotRequest)) {
+      // Skip wall-clock times that do not exist on DST transition days
+      const slotTimes = toSlotTimes(date, slot.start, slot.end, timeZone)
+      if (slotTimes) {
+        slots.push(evaluateSlot(staff, date, slot, slotTimes, slotRequest, span, data))
+      }
+    }
+  }
+
+  return slots
+}
+
+/**
+ * Generate a team's slots for a date on one grid shared by every candidate, so staff with
+ * different shift starts or slot intervals can still be booked together. Start times step
+ * through the windows in which every requirement has someone on duty, at the smallest step
+ * among the candidates, and each candidate is checked for each time like their own slots.
+ * @param staff - Every candidate staff member for the team
+ * @param requirements - Roles and/or specific staff needed
+ * @param date - Local date in YYYY-MM-DD format
+ * @param slotRequest - Slot length in minutes and any pre/post buffers
+ * @param timeZone - Hospital's IANA timezone
+ * @param data - Preloaded availability data covering every candidate and the date
+ * @returns TeamSlot[]
+ */
+export function generateTeamSlots(
+  staff: StaffMember[],
+  requirements: TeamRequirement[],
+  date: string,
+  slotRequest: SlotRequest,
+  timeZone: string,
+  data: AvailabilityData
+): TeamSlot[] {
+  const { duration, entityInterval } = slotRequest
+  const days = new Map(staff.map(member => [member.id, extendAcrossMidnight(member.id, date, resolveStaffDay(member.id, date, data), data)]))
+  const onDuty = new Map([...days].map(([staffId, day]) => [staffId, day.fullDayBlock ? [] : subtractWindows(day.working, day.blocked)]))
+
+  // Everyone is checked at the same times
+  const evaluateTeam = (slot: TimeWindow): TeamSlot[] => {
+    const slotTimes = toSlotTimes(date, slot.start, slot.end, timeZone)
+    return slotTimes
+      ? assembleTeamSlots(staff.map(member => evaluateSlot(member, date, slot, slotTimes, slotRequest, days.get(member.id)!, data)), requirements)
+      : []
+  }
+
+  const shared = findTeamWindows(requirements, staff, onDuty).filter(window => windowsOverlap(window, FULL_DAY))
+  if (shared.length === 0) {
+    // The team is never on duty together: report the day once, like a staff member without a schedule
+    return evaluateTeam({ start: parseTime('09:00'), end: parseTime('09:00') + duration })
+  }
+
+  const step = Math.min(...[...days.values()]
+    .filter(day => day.working.length > 0)
+    .map(day => day.slotInterval ?? entityInterval ?? day.slotDuration ?? duration))
+
+  return shared.flatMap(window => stepThroughWindow(window, step, slotRequest).flatMap(evaluateTeam))
+}
+
+/**
+ * Check a booking window against the same working-hours rules slot generation applies:
+ * the effective weekly schedule, breaks, exceptions, extra hours and hospital closures.
+ * A window that runs across midnight must fit the hours on both sides of it.
+ * Existing bookings and holds are not considered here.
+ * @param staffId - Staff member to check
+ * @param date - Local date in YYYY-MM-DD format
+ * @param window - Minutes since local midnight, buffers included
+ * @param data - Preloaded availability data covering the staff member and date
+ * @returns WorkingHoursViolation | null
+ */
+export function checkWorkingHours(
+  staffId: string,
+  date: string,
+  window: TimeWindow,
+  data: AvailabilityData
+): WorkingHoursViolation | null {
+  const day = resolveStaffDay(staffId, date, data)
+
+  if (day.fullDayBlock) {
+    return { code: day.fullDayBlock.code, reason: day.fullDayBlock.reason }
+  }
+
+  if (day.working.length === 0) {
+    return { code: 'no_schedule', reason: 'No schedule defined' }
+  }
+
+  // An overnight shift may start the day before, and a late booking may finish the day after
+  const { working, blocked } = extendAcrossMidnight(staffId, date, day, data)
+  if (!working.some(workingWindow => workingWindow.start <= window.start && window.end <= workingWindow.end)) {
+    return { code: 'outside_working_hours', reason: 'Outside working hours' }
+  }
+
+  const blockedBy = blocked.find(blockedWindow => windowsOverlap(window, blockedWindow))
+  return blockedBy ? { code: blockedBy.code, reason: blockedBy.reason } : null
+}
+
+/**
+ * When a staff member is on duty on a date: their working windows (weekly schedule plus extra
+ * hours) minus breaks, unavailability exceptions and hospital closures. Bookings do not count.
+ * @param staffId - Staff member to resolve
+ * @param date - Local date in YYYY-MM-DD format
+ * @param data - Preloaded availability data covering the staff member and date
+ * @returns TimeWindow[] - Minutes since local midnight, in start order
+ */
+export function getOnDutyWindows(staffId: string, date: string, data: AvailabilityData): TimeWindow[] {
+  const { working, blocked } = resolveStaffDay(staffId, date, data)
+  return subtractWindows(working, blocked)
+}
+
+/**
+ * Why a staff member has no capacity left for a window
+ */
+export type CapacityCode = 'booking_conflict' | 'slot_held' | 'overbooking_limit'
+
+const CAPACITY_REASONS: Record<CapacityCode, string> = {
+  booking_conflict: 'Already booked',
+  slot_held: 'Held',
+  overbooking_limit: 'Overbooking limit reached for the day'
+}
+
+/**
+ * How many more bookings a staff member can take in a window: their capacity (one, or more
+ * with an overbooking policy for their role) minus the peak number of overlapping bookings and holds.
+ * Bookings and holds of the dates either side count when they run across midnight into the window.
+ * Mirrors the checks lock_booking_slot makes when the time is reserved.
+ * @param staff - Staff member, whose role decides the overbooking policy
+ * @param date - Local date in YYYY-MM-DD format
+ * @param window - Minutes since local midnight, buffers included
+ * @param data - Preloaded availability data covering the staff member and date
+ * @param sourceService - Service making the request
+ * @param ignoreIds - Bookings or holds to disregard (e.g. the hold being confirmed)
+ * @returns Remaining capacity, and why it is zero when it is
+ */
+export function checkStaffCapacity(
+  staff: StaffMember,
+  date: string,
+  window: TimeWindow,
+  data: AvailabilityData,
+  sourceService?: string,
+  ignoreIds: string[] = []
+): { capacity: number; remaining: number; code: CapacityCode | null } {
+  const { maxConcurrent, maxOverbookedPerDay } = resolveCapacity(data.overbookingPolicies.get(staff.role_type), sourceService)
+  const bookings = (data.bookingsByStaffDate.get(staffDateKey(staff.id, date)) ?? []).filter(row => !ignoreIds.includes(row.id))
+  const bookingWindows = getBusyWindows(data.bookingsByStaffDate, staff.id, date, ignoreIds)
+  const holdWindows = getBusyWindows(data.holdsByStaffDate, staff.id, date, ignoreIds)
+
+  const booked = peakConcurrency(bookingWindows, window)
+  const busy = holdWindows.length > 0 ? peakConcurrency([...bookingWindows, ...holdWindows], window) : booked
+
+  if (booked >= maxConcurrent) {
+    return { capacity: maxConcurrent, remaining: 0, code: 'booking_conflict' }
+  }
+  if (busy >= maxConcurrent) {
+    return { capacity: maxConcurrent, remaining: 0, code: 'slot_held' }
+  }
+
+  // Overlapping anything makes the booking overbooked, which the daily limit counts for the booking date
+  if (busy > 0 && maxOverbookedPerDay !== null &&
+      bookings.filter(booking => booking.is_overbooked).length >= maxOverbookedPerDay) {
+    return { capacity: maxConcurrent, remaining: 0, code: 'overbooking_limit' }
+  }
+
+  return { capacity: maxConcurrent, remaining: maxConcurrent - busy, code: null }
+}
+
+// A staff member's working windows and blocks for one date
+interface StaffDay {
+  working: TimeWindow[]
+  blocked: BlockedWindow[]
+  fullDayBlock?: BlockedWindow
+  slotInterval: number | null
+  slotDuration: number | null
+}
+
+// Helper function to list the slots of a window that start on the date: buffers must also fall
+// inside it, and starts stay aligned to the window start, even when it began the day before
+function stepThroughWindow(window: TimeWindow, step: number, slotRequest: SlotRequest): TimeWindow[] {
+  const { duration, bufferBefore = 0, bufferAfter = 0 } = slotRequest
+  const slots: TimeWindow[] = []
+
+  let currentTime = window.start + Math.ceil(bufferBefore / step) * step
+  while (currentTime + duration + bufferAfter <= window.end && currentTime < FULL_DAY.end) {
+    if (currentTime >= FULL_DAY.start) {
+      slots.push({ start: currentTime, end: currentTime + duration })
+    }
+    currentTime += step
+  }
+
+  return slots
+}
+
+// Helper function to check one slot for a staff member: working hours, blocks, bookings and holds, and resources
+function evaluateSlot(
+  staff: StaffMember,
+  date: string,
+  slot: TimeWindow,
+  slotTimes: { start_time: string; end_time: string },
+  slotRequest: SlotRequest,
+  day: StaffDay,
+  data: AvailabilityData
+): TimeSlot {
+  const { bufferBefore = 0, bufferAfter = 0, resourceRequirements = [], sourceService } = slotRequest
+  const occupied = { start: slot.start - bufferBefore, end: slot.end + bufferAfter }
+
+  // Team members are checked on a shared grid, which may fall outside their own hours
+  const onShift = day.working.some(window => window.start <= occupied.start && occupied.end <= window.end)
+
+  // Partial-day exceptions carve their window out of the day
+  const blockedBy = day.fullDayBlock ?? day.blocked.find(blockedWindow => windowsOverlap(occupied, blockedWindow))
+
+  // Bookings and holds (with their buffers) use up the staff member's capacity for the slot
+  const { capacity, remaining, code } = checkStaffCapacity(staff, date, occupied, data, sourceService)
+
+  let unavailableReason = blockedBy
+    ? blockedBy.reason
+    : !onShift
+      ? day.working.length > 0 ? 'Outside working hours' : 'No schedule defined'
+      : code ? CAPACITY_REASONS[code] : undefined
+  let resources: AssignedResource[] | undefined
+
+  // Rooms and equipment are held for the same time as the staff member, buffers included
+  if (!unavailableReason && resourceRequirements.length > 0 && data.resources) {
+    const { assigned, missing } = assignResources(resourceRequirements, date, occupied, data.resources)
+    if (missing) {
+      unavailableReason = describeMissingResource(missing, data.resources)
+    } else {
+      resources = assigned
+    }
+  }
+
+  return {
+    ...slotTimes,
+    is_available: !unavailableReason,
+    capacity,
+    remaining_capacity: unavailableReason ? 0 : remaining,
+    staff_id: staff.id,
+    staff_name: staff.full_name,
+    staff_role: staff.role_type,
+    unavailable_reason: unavailableReason,
+    ...(resources && { resources })
+  }
+}
+
+// Helper function to resolve a staff member's working windows and blocks for a date
+function resolveStaffDay(staffId: string, date: string, data: AvailabilityData): StaffDay {
+  const previousDate = addDays(date, -1)
+
+  // Staff schedule blocks in effect on a date; rota blocks only in their week of the cycle
+  const schedulesOn = (day: string) => (data.schedulesByStaff.get(staffId) ?? []).filter(schedule =>
+    schedule.day_of_week === getDayOfWeek(day) &&
+    schedule.effective_from <= day &&
+    (!schedule.effective_until || schedule.effective_until >= day) &&
+    appliesInCycleWeek(schedule, day)
+  )
+
+  // Timed exceptions and closures that run past midnight also cover the start of this date
+  const exceptions = [
+    ...(data.exceptionsByStaffDate.get(staffDateKey(staffId, date)) ?? []),
+    ...carryOverToNextDay(data.exceptionsByStaffDate.get(staffDateKey(staffId, previousDate)) ?? [])
+  ]
+  const closures = [
+    ...(data.closuresByDate.get(date) ?? []),
+    ...carryOverToNextDay(data.closuresByDate.get(previousDate) ?? [])
+  ]
+
+  // Split shifts: every block for the day counts, plus the after-midnight part of yesterday's
+  // overnight shifts, with breaks blocked out
+  const { working: scheduleWindows, breaks, slotInterval, slotDuration } = getScheduleWindows(
+    schedulesOn(date),
+    schedulesOn(previousDate)
+  )
+  const { working, blocked: exceptionBlocks, fullDayBlock } = resolveWorkingDay(scheduleWindows, exceptions, closures)
+
+  return { working, blocked: [...breaks, ...exceptionBlocks], fullDayBlock, slotInterval, slotDuration }
+}
+
+// Helper function to add the days either side to a staff member's day, in minutes since midnight
+// of the date, so windows running across midnight meet the next day's hours and blocks
+function extendAcrossMidnight(staffId: string, date: string, day: StaffDay, data: AvailabilityData): StaffDay {
+  const neighbours = [-1, 1].map(offset => ({
+    minutes: offset * FULL_DAY.end,
+    day: resolveStaffDay(staffId, addDays(date, offset), data)
+  }))
+
+  return {
+    ...day,
+    working: mergeWindows([
+      ...day.working,
+      ...neighbours.flatMap(({ minutes, day: neighbour }) => neighbour.working.map(window => shiftWindow(window, minutes)))
+    ]),
+    blocked: [
+      ...day.blocked,
+      ...neighbours.flatMap(({ minutes, day: neighbour }) => neighbour.blocked.map(window => shiftWindow(window, minutes)))
+    ]
+  }
+}
+
+// Helper function to list a staff member's booking or hold windows that can reach into a date, in
+// minutes since midnight of the date: the date's own and those of the dates either side
+function getBusyWindows(rowsByStaffDate: Map<string, BookingRow[]>, staffId: string, date: string, ignoreIds: string[]): TimeWindow[] {
+  return [-1, 0, 1].flatMap(offset =>
+    (rowsByStaffDate.get(staffDateKey(staffId, addDays(date, offset))) ?? [])
+      .filter(row => !ignoreIds.includes(row.id))
+      .map(row => shiftWindow(getBookingWindow(row), offset * FULL_DAY.end))
+  )
+}
+
+// Helper function to convert local wall-clock minutes into offset-qualified ISO timestamps
+function toSlotTimes(
+  date: string,
+  startMinutes: number,
+  endMinutes: number,
+  timeZone: string
+): { start_time: string; end_time: string } | null {
+  const start = zonedTimeToUtc(date, startMinutes, timeZone)
+  const end = zonedTimeToUtc(date, endMinutes, timeZone)
+
+  if (!start || !end) {
+    return null
+  }
+
+  return {
+    start_time: formatInTimezone(start, timeZone),
+    end_time: formatInTimezone(end, timeZone)
+  }
+}
+
+// Helper function to list every YYYY-MM-DD date from start to end inclusive
+export function enumerateDates(startDate: string, endDate: string): string[] {
+  const dates: string[] = []
+  const current = new Date(`${startDate}T00:00:00Z`)
+  const last = new Date(`${endDate}T00:00:00Z`)
+
+  while (current <= last) {
+    dates.push(current.toISOString().split('T')[0])
+    current.setUTCDate(current.getUTCDate() + 1)
+  }
+
+  return dates
+}
@@ -0,0 +1,219 @@
+import { mergeWindows, TimeWindow } from './availability'
+import { AssignedResource } from './resources'
+import { StaffMember, TimeSlot } from './slots'
+
+/**
+ * One member of a required team: any free staff member of a role, or one specific staff member
+ */
+export type TeamRequirement = { role_type: string } | { staff_id: string }
+
+export interface SlotParticipant {
+  staff_id: string
+  staff_name: string
+  staff_role: string
+}
+
+/**
+ * A time at which a whole team is (or is not) free together
+ */
+export interface TeamSlot {
+  start_time: string
+  end_time: string
+  is_available: boolean
+  capacity: number // Lowest capacity among the participants
+  remaining_capacity: number // Teams that can still be booked at this time, limited by the busiest participant
+  participants: SlotParticipant[]
+  unavailable_reason?: string
+  resources?: AssignedResource[]
+}
+
+/**
+ * Parse a team composition such as "vet:1,nurse:2" (a missing count means one)
+ * @param composition - Comma-separated role_type[:count] entries
+ * @returns Role types with their counts, or null if an entry is malformed
+ */
+export function parseTeamComposition(composition: string): { role_type: string; count: number }[] | null {
+  const roles: { role_type: string; count: number }[] = []
+
+  for (const entry of composition.split(',')) {
+    const match = entry.trim().match(/^([A-Za-z0-9_-]+)(?::(\d+))?$/)
+    if (!match) {
+      return null
+    }
+
+    const count = match[2] ? parseInt(match[2]) : 1
+    if (count < 1) {
+      return null
+    }
+
+    roles.push({ role_type: match[1], count })
+  }
+
+  return roles
+}
+
+/**
+ * Expand role counts and specific staff into one requirement per team member.
+ * Specific staff come first so they can count towards a role (Dr. Patel is one of the vets).
+ * @param roles - Role types with their counts
+ * @param staffIds - Specific staff members who must take part
+ * @returns TeamRequirement[]
+ */
+export function buildTeamRequirements(
+  roles: { role_type: string; count: number }[] = [],
+  staffIds: string[] = []
+): TeamRequirement[] {
+  return [
+    ...staffIds.map(staff_id => ({ staff_id })),
+    ...roles.flatMap(({ role_type, count }) => Array.from({ length: count }, () => ({ role_type })))
+  ]
+}
+
+/**
+ * Pick one candidate for every requirement, never choosing the same staff member twice
+ * @param requirements - Roles and/or specific staff needed
+ * @param candidates - Staff free at the time in question
+ * @returns Chosen participants, or the first requirement that could not be met
+ */
+export function assignTeam(
+  requirements: TeamRequirement[],
+  candidates: SlotParticipant[]
+): { participants: SlotParticipant[]; missing: TeamRequirement | null } {
+  const participants: SlotParticipant[] = []
+  const unconsumedSpecific: SlotParticipant[] = []
+
+  for (const requirement of requirements) {
+    if ('role_type' in requirement) {
+      const specificIndex = unconsumedSpecific.findIndex(participant => participant.staff_role === requirement.role_type)
+      if (specificIndex >= 0) {
+        unconsumedSpecific.splice(specificIndex, 1)
+        continue
+      }
+    }
+
+    const candidate = candidates.find(staff =>
+      ('staff_id' in requirement ? staff.staff_id === requirement.staff_id : staff.staff_role === requirement.role_type) &&
+      !participants.some(existing => existing.staff_id === staff.staff_id)
+    )
+
+    if (!candidate) {
+      return { participants, missing: requirement }
+    }
+
+    participants.push(candidate)
+    if ('staff_id' in requirement) {
+      unconsumedSpecific.push(candidate)
+    }
+  }
+
+  return { participants, missing: null }
+}
+
+/**
+ * Times on a date at which every requirement has at least one candidate on duty. Team slots
+ * are only looked for inside these windows, on one grid shared by the whole team.
+ * @param requirements - Roles and/or specific staff needed
+ * @param staff - Candidate staff members
+ * @param onDuty - Each candidate's on-duty windows on the date, by staff ID
+ * @returns TimeWindow[] - Sorted and disjoint
+ */
+export function findTeamWindows(
+  requirements: TeamRequirement[],
+  staff: StaffMember[],
+  onDuty: Map<string, TimeWindow[]>
+): TimeWindow[] {
+  if (requirements.length === 0) {
+    return []
+  }
+
+  return requirements
+    .map(requirement => mergeWindows(staff
+      .filter(member => 'staff_id' in requirement ? member.id === requirement.staff_id : member.role_type === requirement.role_type)
+      .flatMap(member => onDuty.get(member.id) ?? [])))
+    .reduce(intersectWindows)
+}
+
+/**
+ * Combine per-staff slots into team slots: one per start time at which every requirement can be met
+ * @param staffSlots - Slots for every candidate staff member on one date, all on the same grid
+ * @param requirements - Roles and/or specific staff needed
+ * @returns TeamSlot[]
+ */
+export function assembleTeamSlots(staffSlots: TimeSlot[], requirements: TeamRequirement[]): TeamSlot[] {
+  const slotsByTime = new Map<string, TimeSlot[]>()
+  for (const slot of staffSlots) {
+    const key = `${slot.start_time}|${slot.end_time}`
+    slotsByTime.set(key, [...(slotsByTime.get(key) ?? []), slot])
+  }
+
+  const teamSlots: TeamSlot[] = []
+
+  for (const slots of slotsByTime.values()) {
+    const free = slots.filter(slot => slot.is_available)
+    const { participants, missing } = assignTeam(requirements, free.map(toParticipant))
+
+    if (!missing) {
+      // Resources are assigned for the time window, so every participant's slot carries the same ones
+      const resources = free.find(slot => slot.staff_id === participants[0]?.staff_id)?.resources
+      const chosen = free.filter(slot => participants.some(participant => participant.staff_id === slot.staff_id))
+      teamSlots.push({
+        start_time: slots[0].start_time,
+        end_time: slots[0].end_time,
+        is_available: true,
+        capacity: Math.min(...chosen.map(slot => slot.capacity)),
+        remaining_capacity: Math.min(...chosen.map(slot => slot.remaining_capacity)),
+        participants,
+        ...(resources && { resources })
+      })
+      continue
+    }
+
+    teamSlots.push({
+      start_time: slots[0].start_time,
+      end_time: slots[0].end_time,
+      is_available: false,
+      capacity: Math.min(...slots.map(slot => slot.capacity)),
+      remaining_capacity: 0,
+      participants,
+      unavailable_reason: describeMissingParticipant(missing, slots)
+    })
+  }
+
+  return teamSlots
+}
+
+// Helper function to explain why a team could not be formed at a time
+function describeMissingParticipant(requirement: TeamRequirement, slots: TimeSlot[]): string {
+  if ('staff_id' in requirement) {
+    const slot = slots.find(candidate => candidate.staff_id === requirement.staff_id)
+    return slot?.unavailable_reason
+      ? `${slot.staff_name} is unavailable: ${slot.unavailable_reason}`
+      : `${slot?.staff_name ?? requirement.staff_id} is not available`
+  }
+
+  // A shared cause (hospital closure, missing theatre) is more useful than the role that ran out
+  const reasons = new Set(slots.map(slot => slot.unavailable_reason))
+  if (reasons.size === 1 && slots[0].unavailable_reason) {
+    return slots[0].unavailable_reason
+  }
+
+  return `No ${requirement.role_type} available`
+}
+
+// Helper function to keep only the times covered by both sorted, disjoint lists of windows
+function intersectWindows(a: TimeWindow[], b: TimeWindow[]): TimeWindow[] {
+  return a.flatMap(first => b.flatMap(second => {
+    const start = Math.max(first.start, second.start)
+    const end = Math.min(first.end, second.end)
+    return start < end ? [{ start, end }] : []
+  }))
+}
+
+// Helper function to reduce a staff slot to the participant it describes
+function toParticipant(slot: TimeSlot): SlotParticipant {
+  return {
+    staff_id: slot.staff_id,
+    staff_name: slot.staff_name,
+    staff_role: slot.staff_role
+  }
+}
@@ -0,0 +1,158 @@
+import { supabaseAdmin } from './supabase'
+
+export const DEFAULT_TIMEZONE = 'UTC'
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>()
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    })
+    formatterCache.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+/**
+ * Check whether a string is an IANA timezone name supported by the runtime
+ * @param timeZone - Timezone name such as 'Asia/Kolkata'
+ * @returns boolean
+ */
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Look up the IANA timezone configured for a hospital entity
+ * @param entityPlatformId - The entity/hospital platform ID
+ * @returns Promise<string> - Falls back to UTC when unset or invalid
+ */
+export async function getEntityTimezone(entityPlatformId: string): Promise<string> {
+  const { data: hospital, error } = await supabaseAdmin
+    .from('hospital_master')
+    .select('timezone')
+    .eq('entity_platform_id', entityPlatformId)
+    .single()
+
+  if (error || !hospital?.timezone) {
+    return DEFAULT_TIMEZONE
+  }
+
+  if (!isValidTimezone(hospital.timezone)) {
+    console.error(`Invalid timezone configured for entity ${entityPlatformId}:`, hospital.timezone)
+    return DEFAULT_TIMEZONE
+  }
+
+  return hospital.timezone
+}
+
+/**
+ * Break an instant down into its wall-clock parts in the given timezone
+ * @param instant - The instant to convert
+ * @param timeZone - IANA timezone name
+ * @returns Local date (YYYY-MM-DD) and minutes since local midnight
+ */
+export function getZonedParts(instant: Date, timeZone: string): { date: string; minutes: number; seconds: number } {
+  const parts: Record<string, string> = {}
+  for (const part of getFormatter(timeZone).formatToParts(instant)) {
+    parts[part.type] = part.value
+  }
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+    seconds: Number(parts.second)
+  }
+}
+
+/**
+ * Offset of the timezone from UTC at a given instant, in minutes (east positive)
+ * @param instant - The instant to evaluate
+ * @param timeZone - IANA timezone name
+ * @returns number
+ */
+export function getTimezoneOffset(instant: Date, timeZone: string): number {
+  const { date, minutes, seconds } = getZonedParts(instant, timeZone)
+  const [year, month, day] = date.split('-').map(Number)
+  const asUtc = Date.UTC(year, month - 1, day, Math.floor(minutes / 60), minutes % 60, seconds)
+  const truncated = Math.floor(instant.getTime() / 1000) * 1000
+  return Math.round((asUtc - truncated) / 60000)
+}
+
+/**
+ * Convert a wall-clock time on a local date into the matching UTC instant
+ * @param date - Local date in YYYY-MM-DD format
+ * @param minutes - Minutes since local midnight (may exceed 1440 to roll into the next day)
+ * @param timeZone - IANA timezone name
+ * @returns The instant, or null when the wall-clock time does not exist (DST gap)
+ */
+export function zonedTimeToUtc(date: string, minutes: number, timeZone: string): Date | null {
+  const [year, month, day] = date.split('-').map(Number)
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes)
+
+  // Resolve the offset twice so instants next to a transition settle on the right side
+  let instant = new Date(wallClock - getTimezoneOffset(new Date(wallClock), timeZone) * 60000)
+  instant = new Date(wallClock - getTimezoneOffset(instant, timeZone) * 60000)
+
+  const expected = new Date(wallClock)
+  const actual = getZonedParts(instant, timeZone)
+  const expectedDate = expected.toISOString().split('T')[0]
+  const expectedMinutes = expected.getUTCHours() * 60 + expected.getUTCMinutes()
+
+  if (actual.date !== expectedDate || actual.minutes !== expectedMinutes) {
+    return null
+  }
+
+  return instant
+}
+
+/**
+ * Format an instant as an ISO 8601 string carrying the timezone's real offset
+ * @param instant - The instant to format
+ * @param timeZone - IANA timezone name
+ * @returns e.g. '2024-10-21T09:00:00+05:30'
+ */
+export function formatInTimezone(instant: Date, timeZone: string): string {
+  const { date, minutes, seconds } = getZonedParts(instant, timeZone)
+  const offset = getTimezoneOffset(instant, timeZone)
+  const sign = offset < 0 ? '-' : '+'
+  const absOffset = Math.abs(offset)
+  const offsetHours = Math.floor(absOffset / 60).toString().padStart(2, '0')
+  const offsetMinutes = (absOffset % 60).toString().padStart(2, '0')
+  const time = `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`
+
+  return `${date}T${time}${sign}${offsetHours}:${offsetMinutes}`
+}
+
+/**
+ * Today's calendar date in the given timezone
+ * @param timeZone - IANA timezone name
+ * @returns Date in YYYY-MM-DD format
+ */
+export function getTodayInTimezone(timeZone: string): string {
+  return getZonedParts(new Date(), timeZone).date
+}
+
+/**
+ * Day of week for a calendar date, independent of the server's timezone
+ * @param date - Date in YYYY-MM-DD format
+ * @returns 0 = Sunday, 6 = Saturday
+ */
+export function getDayOfWeek(date: string): number {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay()
+}
@@ -0,0 +1,582 @@
+import { after } from 'next/server'
+import { supabaseAdmin } from './supabase'
+import { formatBookingEndTime, parseTime } from './availability'
+import { resolveEligibleRoles, AppointmentType } from './appointment-types'
+import { planBooking } from './booking-requests'
+import { buildHold, createHold, releaseHolds, MAX_HOLD_TTL_SECONDS } from './holds'
+import { buildResourceRequirements, loadResourceAvailability } from './resources'
+import {
+  enumerateDates,
+  generateSlotsForStaff,
+  getEntitySlotInterval,
+  loadAvailabilityData,
+  AvailabilityData,
+  StaffMember,
+  TimeSlot
+} from './slots'
+import { getEntityTimezone, getTodayInTimezone } from './timezone'
+import { addDays } from './recurrence'
+import { ExternalBooking } from './bookings'
+
+// How long an offered slot stays held for the waitlisted client
+export const WAITLIST_OFFER_TTL_SECONDS = MAX_HOLD_TTL_SECONDS
+
+// Furthest ahead one match looks for an entry, and how many entries one run considers
+const MAX_MATCH_DAYS = 31
+const MAX_ENTRIES_PER_RUN = 50
+
+// Earliest free slots tried per entry before moving on (another request may take one first)
+const MAX_SLOT_ATTEMPTS = 3
+
+export type WaitlistStatus = 'waiting' | 'offered' | 'booked' | 'cancelled'
+export type WaitlistOfferStatus = 'pending' | 'accepted' | 'declined' | 'expired' | 'cancelled'
+
+/**
+ * What opened the capacity an offer was made from
+ */
+export type WaitlistTrigger =
+  | 'booking_cancelled'
+  | 'booking_rescheduled'
+  | 'hold_released'
+  | 'offer_declined'
+  | 'offer_expired'
+  | 'schedule_added'
+  | 'extra_hours_added'
+  | 'manual'
+
+export interface WaitlistEntry {
+  id: string
+  entity_platform_id: string
+  staff_member_id: string | null
+  role_type: string | null
+  appointment_type_id: string | null
+  duration_minutes: number
+  earliest_date: string
+  latest_date: string
+  earliest_time: string | null
+  latest_time: string | null
+  priority: number
+  external_reference: string | null
+  source_service: string
+  metadata: Record<string, unknown> | null
+  status: WaitlistStatus
+  created_at: string
+  updated_at: string
+}
+
+export type NewWaitlistEntry = Omit<WaitlistEntry, 'id' | 'status' | 'created_at' | 'updated_at'>
+
+export interface WaitlistOffer {
+  id: string
+  entity_platform_id: string
+  waitlist_entry_id: string
+  hold_id: string
+  staff_member_id: string
+  booking_date: string
+  booking_time: string
+  booking_end_time: string
+  trigger: WaitlistTrigger
+  status: WaitlistOfferStatus
+  booking_id: string | null
+  expires_at: string
+  responded_at: string | null
+  created_at: string
+  hold: { hold_token: string } | null // Token to book the offer with POST /api/slots/book
+}
+
+// Offers with the hold token the client books with
+export const WAITLIST_OFFER_SELECT = '*, hold:slot_holds(hold_token)'
+
+/**
+ * Where capacity opened. Staff and dates narrow matching to the entries that can use it;
+ * leave them out to match every waiting entry over its own date window.
+ */
+export interface CapacityChange {
+  entityPlatformId: string
+  trigger: WaitlistTrigger
+  staffIds?: string[]
+  startDate?: string
+  endDate?: string
+}
+
+/**
+ * Look up a waitlist entry of an entity
+ * @param entityPlatformId - The entity/hospital platform ID
+ * @param entryId - Waitlist entry ID
+ * @returns Promise<WaitlistEntry | null>
+ */
+export async function findWaitlistEntry(entityPlatformId: string, entryId: string): Promise<WaitlistEntry | null> {
+  const { data: entry, error } = await supabaseAdmin
+    .from('waitlist_entries')
+    .select('*')
+    .eq('id', entryId)
+    .eq('entity_platform_id', entityPlatformId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Waitlist entry fetch error:', error)
+    throw new Error('Failed to fetch waitlist entry')
+  }
+
+  return entry
+}
+
+/**
+ * Look up an offer of an entity
+ * @param entityPlatformId - The entity/hospital platform ID
+ * @param offerId - Offer ID
+ * @returns Promise<WaitlistOffer | null>
+ */
+export async function findOffer(entityPlatformId: string, offerId: string): Promise<WaitlistOffer | null> {
+  const { data: offer, error } = await supabaseAdmin
+    .from('waitlist_offers')
+    .select(WAITLIST_OFFER_SELECT)
+    .eq('id', offerId)
+    .eq('entity_platform_id', entityPlatformId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Waitlist offer fetch error:', error)
+    throw new Error('Failed to fetch waitlist offer')
+  }
+
+  return offer as WaitlistOffer | null
+}
+
+/**
+ * Close a pending offer without booking it and release its hold. A declined offer
+ * puts its entry back on the waitlist; a cancelled one leaves the entry as it is.
+ * @param offer - Offer to close
+ * @param status - declined (by the client) or cancelled (the entry was withdrawn)
+ * @returns Promise<boolean> - false when the offer was no longer pending
+ */
+export async function closeOffer(offer: WaitlistOffer, status: 'declined' | 'cancelled'): Promise<boolean> {
+  const { data: closed, error } = await supabaseAdmin
+    .from('waitlist_offers')
+    .update({ status, responded_at: new Date().toISOString() })
+    .eq('id', offer.id)
+    .eq('status', 'pending')
+    .select('id')
+
+  if (error) {
+    console.error('Waitlist offer update error:', error)
+    throw new Error('Failed to update waitlist offer')
+  }
+
+  if (closed.length === 0) {
+    return false
+  }
+
+  await releaseHolds([offer.hold_id])
+
+  if (status === 'declined') {
+    await setEntryStatus([offer.waitlist_entry_id], 'offered', 'waiting')
+  }
+
+  return true
+}
+
+/**
+ * Record that the booking made with an offer's hold was created
+ * @param holdId - Hold the booking confirmed
+ * @param bookingId - The new booking
+ * @returns Promise<void>
+ */
+export async function acceptOfferForHold(holdId: string, bookingId: string): Promise<void> {
+  const { data: accepted, error } = await supabaseAdmin
+    .from('waitlist_offers')
+    .update({ status: 'accepted', booking_id: bookingId, responded_at: new Date().toISOString() })
+    .eq('hold_id', holdId)
+    .eq('status', 'pending')
+    .select('waitlist_entry_id')
+
+  if (error) {
+    console.error('Waitlist offer update error:', error)
+    throw new Error('Failed to update waitlist offer')
+  }
+
+  await setEntryStatus(accepted.map(offer => offer.waitlist_entry_id), 'offered', 'booked')
+}
+
+/**
+ * Expire pending offers whose hold ran out and put their entries back on the waitlist
+ * @param entityPlatformId - The entity/hospital platform ID
+ * @returns Promise<number> - Number of offers expired
+ */
+export async function expireOffers(entityPlatformId: string): Promise<number> {
+  const now = new Date().toISOString()
+  const { data: expired, error } = await supabaseAdmin
+    .from('waitlist_offers')
+    .update({ status: 'expired', responded_at: now })
+    .eq('entity_platform_id', entityPlatformId)
+    .eq('status', 'pending')
+    .lte('expires_at', now)
+    .select('waitlist_entry_id')
+
+  if (error) {
+    console.error('Waitlist offer expiry error:', error)
+    throw new Error('Failed to expire waitlist offers')
+  }
+
+  await setEntryStatus(expired.map(offer => offer.waitlist_entry_id), 'offered', 'waiting')
+
+  return expired.length
+}
+
+/**
+ * Expire lapsed offers before offers are read or acted on, so none is shown or accepted as
+ * pending after its hold ran out. If any expired, their time and entries are matched again
+ * once the response has been sent.
+ * @param entityPlatformId - The entity/hospital platform ID
+ * @returns Promise<number> - Number of offers expired
+ */
+export async function expireOffersAndRematch(entityPlatformId: string): Promise<number> {
+  const expired = await expireOffers(entityPlatformId)
+  if (expired > 0) {
+    scheduleWaitlistMatch({ entityPlatformId, trigger: 'offer_expired' })
+  }
+  return expired
+}
+
+// Helper function to move entries between statuses, only if they are still in the expected one
+async function setEntryStatus(entryIds: string[], from: WaitlistStatus, to: WaitlistStatus): Promise<string[]> {
+  if (entryIds.length === 0) {
+    return []
+  }
+
+  const { data: updated, error } = await supabaseAdmin
+    .from('waitlist_entries')
+    .update({ status: to, updated_at: new Date().toISOString() })
+    .in('id', entryIds)
+    .eq('status', from)
+    .select('id')
+
+  if (error) {
+    console.error('Waitlist entry update error:', error)
+    throw new Error('Failed to update waitlist entries')
+  }
+
+  return updated.map(entry => entry.id)
+}
+
+/**
+ * Offer newly opened capacity to the waitlist. Entries are visited by priority (highest first,
+ * then oldest); each gets the earliest free slot matching its staff or role, date window,
+ * time-of-day preference and duration. The slot is held for WAITLIST_OFFER_TTL_SECONDS and
+ * a pending offer is recorded for the calling system to pick up.
+ * @param change - Where capacity opened
+ * @returns Promise<WaitlistOffer[]> - Offers made by this run
+ */
+export async function matchWaitlist(change: CapacityChange): Promise<WaitlistOffer[]> {
+  // Lapsed offers go back on the list first so their entries can be matched again
+  await expireOffers(change.entityPlatformId)
+
+  const [timeZone, entityInterval] = await Promise.all([
+    getEntityTimezone(change.entityPlatformId),
+    getEntitySlotInterval(change.entityPlatformId)
+  ])
+  const today = getTodayInTimezone(timeZone)
+  const fromDate = change.startDate && change.startDate > today ? change.startDate : today
+
+  let entryQuery = supabaseAdmin
+    .from('waitlist_entries')
+    .select('*')
+    .eq('entity_platform_id', change.entityPlatformId)
+    .eq('status', 'waiting')
+    .gte('latest_date', fromDate)
+
+  if (change.endDate) {
+    entryQuery = entryQuery.lte('earliest_date', change.endDate)
+  }
+  if (change.staffIds) {
+    // Entries for a specific staff member only care about that staff member's time
+    entryQuery = entryQuery.or(`staff_member_id.is.null,staff_member_id.in.(${change.staffIds.join(',')})`)
+  }
+
+  const { data: entries, error: entriesError } = await entryQuery
+    .order('priority', { ascending: false })
+    .order('created_at')
+    .limit(MAX_ENTRIES_PER_RUN)
+
+  if (entriesError) {
+    console.error('Waitlist fetch error:', entriesError)
+    throw new Error('Failed to fetch waitlist entries')
+  }
+
+  const appointmentTypes = await loadEntryAppointmentTypes(entries)
+  const offers: WaitlistOffer[] = []
+
+  // One entry at a time: each offer holds its slot, so the next entry cannot be offered the same time
+  for (const entry of entries as WaitlistEntry[]) {
+    const offer = await offerSlot(entry, change, {
+      appointmentType: entry.appointment_type_id ? appointmentTypes.get(entry.appointment_type_id) ?? null : null,
+      timeZone,
+      today,
+      entityInterval
+    })
+    if (offer) {
+      offers.push(offer)
+    }
+  }
+
+  return offers
+}
+
+/**
+ * Run matchWaitlist once the response has been sent. Matching failures are logged and
+ * never fail the request that opened the capacity.
+ * @param change - Where capacity opened
+ */
+export function scheduleWaitlistMatch(change: CapacityChange): void {
+  after(async () => {
+    try {
+      await matchWaitlist(change)
+    } catch (error) {
+      console.error('Waitlist match error:', error)
+    }
+  })
+}
+
+/**
+ * Run matchWaitlist for the time a booking no longer takes, once the response has been sent.
+ * The whole team's time opened, so participants are included.
+ * @param booking - The cancelled booking, or a moved booking as it was before the move
+ * @param trigger - What freed the time
+ */
+export function scheduleWaitlistMatchForBooking(
+  booking: Pick<ExternalBooking, 'id' | 'entity_platform_id' | 'staff_member_id' | 'booking_date'>,
+  trigger: WaitlistTrigger
+): void {
+  after(async () => {
+    try {
+      const { data: participants, error } = await supabaseAdmin
+        .from('booking_participants')
+        .select('staff_member_id')
+        .eq('booking_id', booking.id)
+
+      if (error) {
+        console.error('Booking participants fetch error:', error)
+        throw new Error('Failed to fetch booking participants')
+      }
+
+      await matchWaitlist({
+        entityPlatformId: booking.entity_platform_id,
+        trigger,
+        staffIds: [booking.staff_member_id, ...participants.map(participant => participant.staff_member_id)],
+        startDate: booking.booking_date,
+        endDate: booking.booking_date
+      })
+    } catch (error) {
+      console.error('Waitlist match error:', error)
+    }
+  })
+}
+
+// Helper function to load the appointment types entries ask for, by ID
+async function loadEntryAppointmentTypes(entries: WaitlistEntry[]): Promise<Map<string, AppointmentType>> {
+  const typeIds = [...new Set(entries.flatMap(entry => entry.appointment_type_id ? [entry.appointment_type_id] : []))]
+  if (typeIds.length === 0) {
+    return new Map()
+  }
+
+  const { data: appointmentTypes, error } = await supabaseAdmin
+    .from('appointment_types')
+    .select('*')
+    .in('id', typeIds)
+    .eq('is_active', true)
+
+  if (error) {
+    console.error('Appointment type fetch error:', error)
+    throw new Error('Failed to fetch appointment types')
+  }
+
+  return new Map(appointmentTypes.map(appointmentType => [appointmentType.id, appointmentType]))
+}
+
+interface MatchContext {
+  appointmentType: AppointmentType | null
+  timeZone: string
+  today: string
+  entityInterval: number | null
+}
+
+// Helper function to find, hold and offer the earliest slot that suits one entry
+async function offerSlot(entry: WaitlistEntry, change: CapacityChange, context: MatchContext): Promise<WaitlistOffer | null> {
+  const { appointmentType, timeZone, today, entityInterval } = context
+
+  // An entry whose appointment type was retired can no longer be booked as asked
+  if (entry.appointment_type_id && !appointmentType) {
+    return null
+  }
+
+  // Dates both the entry and the opened capacity cover, from today
+  const startDate = [entry.earliest_date, today, change.startDate ?? today].reduce((a, b) => (a > b ? a : b))
+  const endDate = [entry.latest_date, change.endDate ?? entry.latest_date, addDays(startDate, MAX_MATCH_DAYS - 1)]
+    .reduce((a, b) => (a < b ? a : b))
+  if (startDate > endDate) {
+    return null
+  }
+
+  const staff = await loadCandidateStaff(entry, change, appointmentType)
+  if (staff.length === 0) {
+    return null
+  }
+
+  const slotRequest = {
+    duration: appointmentType?.duration_minutes ?? entry.duration_minutes,
+    bufferBefore: appointmentType?.buffer_before_minutes ?? 0,
+    bufferAfter: appointmentType?.buffer_after_minutes ?? 0,
+    entityInterval,
+    resourceRequirements: buildResourceRequirements(appointmentType?.required_resource_types ?? []),
+    sourceService: entry.source_service
+  }
+
+  const [staffAvailability, resourceAvailability, passedOver] = await Promise.all([
+    loadAvailabilityData(entry.entity_platform_id, staff.map(staffMember => staffMember.id), startDate, endDate),
+    slotRequest.resourceRequirements.length > 0
+      ? loadResourceAvailability(entry.entity_platform_id, slotRequest.resourceRequirements, startDate, endDate)
+      : Promise.resolve(undefined),
+    loadPassedOverSlots(entry.id)
+  ])
+  const availabilityData: AvailabilityData = { ...staffAvailability, resources: resourceAvailability }
+
+  const earliestMinutes = entry.earliest_time ? parseTime(entry.earliest_time) : 0
+  const latestMinutes = entry.latest_time ? parseTime(entry.latest_time) : Infinity // Late slots may end after midnight
+  const now = Date.now()
+
+  const candidates: { slot: TimeSlot; date: string }[] = []
+  for (const date of enumerateDates(startDate, endDate)) {
+    for (const staffMember of staff) {
+      for (const slot of generateSlotsForStaff(staffMember, date, slotRequest, timeZone, availabilityData)) {
+        // Slot times are local ISO strings, so HH:MM is the hospital's wall-clock time
+        const slotStart = slot.start_time.slice(11, 16)
+        if (slot.is_available &&
+            new Date(slot.start_time).getTime() > now &&
+            getSlotMinutes(slot.start_time, date) >= earliestMinutes &&
+            getSlotMinutes(slot.end_time, date) <= latestMinutes &&
+            !passedOver.has(`${slot.staff_id}|${date}|${slotStart}`)) {
+          candidates.push({ slot, date })
+        }
+      }
+    }
+  }
+
+  candidates.sort((a, b) => new Date(a.slot.start_time).getTime() - new Date(b.slot.start_time).getTime())
+
+  for (const { slot, date } of candidates.slice(0, MAX_SLOT_ATTEMPTS)) {
+    // The same checks as a hold request, so an offer can always be booked while it lasts
+    const { plan } = await planBooking({
+      entity_platform_id: entry.entity_platform_id,
+      staff_member_id: slot.staff_id,
+      booking_date: date,
+      booking_time: slot.start_time.slice(11, 16),
+      source_service: entry.source_service,
+      ...(appointmentType
+        ? { appointment_type: appointmentType.code }
+        : { booking_end_time: formatBookingEndTime(getSlotMinutes(slot.end_time, date)), duration_minutes: entry.duration_minutes })
+    })
+    if (!plan) {
+      continue
+    }
+
+    const held = await createHold(buildHold(entry.entity_platform_id, date, plan, entry.source_service, WAITLIST_OFFER_TTL_SECONDS))
+    if (held.conflict !== null) {
+      continue
+    }
+
+    // The entry may have been withdrawn or matched by a concurrent run in the meantime
+    const claimed = await setEntryStatus([entry.id], 'waiting', 'offered')
+    if (claimed.length === 0) {
+      await releaseHolds([held.hold.id])
+      return null
+    }
+
+    const { data: offer, error } = await supabaseAdmin
+      .from('waitlist_offers')
+      .insert({
+        entity_platform_id: entry.entity_platform_id,
+        waitlist_entry_id: entry.id,
+        hold_id: held.hold.id,
+        staff_member_id: held.hold.staff_member_id,
+        booking_date: held.hold.booking_date,
+        booking_time: held.hold.booking_time,
+        booking_end_time: held.hold.booking_end_time,
+        trigger: change.trigger,
+        expires_at: held.hold.expires_at
+      })
+      .select(WAITLIST_OFFER_SELECT)
+      .single()
+
+    if (error) {
+      console.error('Waitlist offer creation error:', error)
+      await releaseHolds([held.hold.id])
+      await setEntryStatus([entry.id], 'offered', 'waiting')
+      throw new Error('Failed to create waitlist offer')
+    }
+
+    return offer as WaitlistOffer
+  }
+
+  return null
+}
+
+// Helper function to read a slot's local time as minutes since midnight of its date, so a slot
+// ending at or after midnight ends at 24:00 or later rather than early on its date
+function getSlotMinutes(slotTime: string, date: string): number {
+  return parseTime(slotTime.slice(11, 16)) + (slotTime.slice(0, 10) > date ? 24 * 60 : 0)
+}
+
+// Helper function to list the staff an entry can be offered, limited to those whose time opened
+async function loadCandidateStaff(
+  entry: WaitlistEntry,
+  change: CapacityChange,
+  appointmentType: AppointmentType | null
+): Promise<StaffMember[]> {
+  let staffQuery = supabaseAdmin
+    .from('staff_members')
+    .select('id, full_name, role_type')
+    .eq('entity_platform_id', entry.entity_platform_id)
+    .eq('is_active', true)
+    .eq('can_take_appointments', true)
+
+  if (entry.staff_member_id) {
+    staffQuery = staffQuery.eq('id', entry.staff_member_id)
+  } else {
+    const eligibleRoles = resolveEligibleRoles(appointmentType, entry.role_type ?? undefined)
+    if (eligibleRoles?.length === 0) {
+      return []
+    }
+    if (eligibleRoles) {
+      staffQuery = staffQuery.in('role_type', eligibleRoles)
+    }
+  }
+
+  if (change.staffIds) {
+    staffQuery = staffQuery.in('id', change.staffIds)
+  }
+
+  const { data: staff, error } = await staffQuery
+
+  if (error) {
+    console.error('Staff fetch error:', error)
+    throw new Error('Failed to fetch staff members')
+  }
+
+  return staff
+}
+
+// Helper function to list slots an entry already declined or let expire, as staff|date|HH:MM keys
+async function loadPassedOverSlots(entryId: string): Promise<Set<string>> {
+  const { data: offers, error } = await supabaseAdmin
+    .from('waitlist_offers')
+    .select('staff_member_id, booking_date, booking_time')
+    .eq('waitlist_entry_id', entryId)
+    .in('status', ['declined', 'expired'])
+
+  if (error) {
+    console.error('Waitlist offer fetch error:', error)
+    throw new Error('Failed to fetch waitlist offers')
+  }
+
+  return new Set(offers.map(offer => `${offer.staff_member_id}|${offer.booking_date}|${offer.booking_time.slice(0, 5)}`))
+}
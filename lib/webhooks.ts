@@ -0,0 +1,407 @@
+import { after } from 'next/server'
+import { createHmac, randomBytes, randomUUID } from 'crypto'
+import { supabaseAdmin } from './supabase'
+import { ExternalBooking } from './bookings'
+
+// Events external services can subscribe to. ping is only sent on request to one subscription
+export const WEBHOOK_EVENT_TYPES = [
+  'booking.created',
+  'booking.cancelled',
+  'booking.rescheduled',
+  'booking.status_changed',
+  'booking.reassigned',
+  'exception.created',
+  'schedule.changed'
+] as const
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number] | 'ping'
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed'
+
+// Seconds to wait after each failed attempt; a delivery fails for good after the last one
+export const RETRY_BACKOFF_SECONDS = [60, 300, 1800, 7200, 43200]
+export const MAX_DELIVERY_ATTEMPTS = RETRY_BACKOFF_SECONDS.length + 1
+
+// A receiver gets this long to answer; a delivery being sent is not picked up again for DELIVERY_LEASE_SECONDS
+const DELIVERY_TIMEOUT_MS = 10000
+const DELIVERY_LEASE_SECONDS = 60
+
+// How much of a receiver's response is kept in the log, and how many due retries one run sends
+const MAX_RESPONSE_BODY_LENGTH = 1000
+const MAX_RETRIES_PER_RUN = 50
+
+export interface WebhookSubscription {
+  id: string
+  entity_platform_id: string
+  url: string
+  secret: string
+  event_types: WebhookEventType[]
+  source_service: string | null
+  description: string | null
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+// Subscription columns safe to return; the secret is only shown when created or rotated
+export const WEBHOOK_SUBSCRIPTION_COLUMNS =
+  'id, entity_platform_id, url, event_types, source_service, description, is_active, created_at, updated_at'
+
+/**
+ * Body POSTed to subscribers. id stays the same across retries and replays
+ */
+export interface WebhookEvent {
+  id: string
+  type: WebhookEventType
+  entity_platform_id: string
+  created_at: string
+  data: Record<string, unknown>
+}
+
+export interface WebhookDelivery {
+  id: string
+  entity_platform_id: string
+  subscription_id: string
+  event_id: string
+  event_type: WebhookEventType
+  payload: WebhookEvent
+  status: WebhookDeliveryStatus
+  attempt_count: number
+  next_attempt_at: string | null
+  last_attempt_at: string | null
+  response_status: number | null
+  response_body: string | null
+  last_error: string | null
+  delivered_at: string | null
+  replay_of: string | null
+  created_at: string
+}
+
+/**
+ * New signing secret for a subscription
+ * @returns string
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`
+}
+
+/**
+ * Signature sent in X-Roster-Signature as sha256=<hex>. Receivers recompute it over
+ * `${X-Roster-Timestamp}.${raw body}` with their secret and compare.
+ * @param secret - Subscription secret
+ * @param timestamp - Unix seconds sent in X-Roster-Timestamp
+ * @param body - Raw request body
+ * @returns string - Hex HMAC-SHA256
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+/**
+ * Look up a subscription of an entity, secret included
+ * @param entityPlatformId - The entity/hospital platform ID
+ * @param subscriptionId - Subscription ID
+ * @returns Promise<WebhookSubscription | null>
+ */
+export async function findSubscription(entityPlatformId: string, subscriptionId: string): Promise<WebhookSubscription | null> {
+  const { data: subscription, error } = await supabaseAdmin
+    .from('webhook_subscriptions')
+    .select('*')
+    .eq('id', subscriptionId)
+    .eq('entity_platform_id', entityPlatformId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Webhook subscription fetch error:', error)
+    throw new Error('Failed to fetch webhook subscription')
+  }
+
+  return subscription as WebhookSubscription | null
+}
+
+/**
+ * Look up a delivery of an entity
+ * @param entityPlatformId - The entity/hospital platform ID
+ * @param deliveryId - Delivery ID
+ * @returns Promise<WebhookDelivery | null>
+ */
+export async function findDelivery(entityPlatformId: string, deliveryId: string): Promise<WebhookDelivery | null> {
+  const { data: delivery, error } = await supabaseAdmin
+    .from('webhook_deliveries')
+    .select('*')
+    .eq('id', deliveryId)
+    .eq('entity_platform_id', entityPlatformId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Webhook delivery fetch error:', error)
+    throw new Error('Failed to fetch webhook delivery')
+  }
+
+  return delivery as WebhookDelivery | null
+}
+
+/**
+ * Deliver an event to every active subscription of the entity that wants it. Each delivery
+ * is logged first, then sent once; failed sends are left pending for retryDueDeliveries.
+ * @param entityPlatformId - The entity/hospital platform ID
+ * @param type - Event type
+ * @param data - Event data, e.g. { booking }
+ * @returns Promise<WebhookDelivery[]> - Deliveries after their first attempt
+ */
+export async function dispatchWebhookEvent(
+  entityPlatformId: string,
+  type: WebhookEventType,
+  data: Record<string, unknown>
+): Promise<WebhookDelivery[]> {
+  const { data: subscriptions, error } = await supabaseAdmin
+    .from('webhook_subscriptions')
+    .select('*')
+    .eq('entity_platform_id', entityPlatformId)
+    .eq('is_active', true)
+    .contains('event_types', [type])
+
+  if (error) {
+    console.error('Webhook subscription fetch error:', error)
+    throw new Error('Failed to fetch webhook subscriptions')
+  }
+
+  return deliverEvent(subscriptions as WebhookSubscription[], buildEvent(entityPlatformId, type, data))
+}
+
+/**
+ * Run dispatchWebhookEvent once the response has been sent, then send the entity's retries
+ * that have come due, so backed-off deliveries go out whenever the entity is active.
+ * Delivery failures are logged and never fail the request that caused the event.
+ * @param entityPlatformId - The entity/hospital platform ID
+ * @param type - Event type
+ * @param data - Event data, e.g. { booking }
+ */
+export function emitWebhookEvent(entityPlatformId: string, type: WebhookEventType, data: Record<string, unknown>): void {
+  after(async () => {
+    try {
+      await dispatchWebhookEvent(entityPlatformId, type, data)
+    } catch (error) {
+      console.error('Webhook dispatch error:', error)
+    }
+
+    try {
+      await retryDueDeliveries(entityPlatformId)
+    } catch (error) {
+      console.error('Webhook retry error:', error)
+    }
+  })
+}
+
+/**
+ * Emit a booking event with the booking row as data.booking
+ * @param type - Event type
+ * @param booking - The booking as it is now
+ * @param extra - More event data, e.g. { previous } for reschedules
+ */
+export function emitBookingEvent(
+  type: Extract<WebhookEventType, `booking.${string}`>,
+  booking: ExternalBooking,
+  extra: Record<string, unknown> = {}
+): void {
+  emitWebhookEvent(booking.entity_platform_id, type, { booking, ...extra })
+}
+
+/**
+ * Send a ping event to one subscription, active or not, to check the receiver and its signature check
+ * @param subscription - Subscription to ping
+ * @returns Promise<WebhookDelivery>
+ */
+export async function pingSubscription(subscription: WebhookSubscription): Promise<WebhookDelivery> {
+  const event = buildEvent(subscription.entity_platform_id, 'ping', { subscription_id: subscription.id })
+  const [delivery] = await deliverEvent([subscription], event)
+  return delivery
+}
+
+/**
+ * Send an event again as a new delivery with the same event ID and payload. The original
+ * delivery is left as it was; the replay is retried like any other delivery.
+ * @param delivery - Delivery to replay
+ * @param subscription - Its subscription (the URL and secret in effect now are used)
+ * @returns Promise<WebhookDelivery>
+ */
+export async function replayDelivery(delivery: WebhookDelivery, subscription: WebhookSubscription): Promise<WebhookDelivery> {
+  const [replay] = await insertDeliveries([subscription], delivery.payload, delivery.id)
+  return attemptDelivery(replay, subscription)
+}
+
+/**
+ * Send the pending deliveries of an entity whose retry is due. Deliveries of subscriptions
+ * disabled since are marked failed. Runs after every emitted event; call it on a schedule
+ * as well so retries go out on time when the entity is quiet.
+ * @param entityPlatformId - The entity/hospital platform ID
+ * @returns Promise<WebhookDelivery[]> - Deliveries attempted, after the attempt
+ */
+export async function retryDueDeliveries(entityPlatformId: string): Promise<WebhookDelivery[]> {
+  const { data: due, error } = await supabaseAdmin
+    .from('webhook_deliveries')
+    .select('*, subscription:webhook_subscriptions(*)')
+    .eq('entity_platform_id', entityPlatformId)
+    .eq('status', 'pending')
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at')
+    .limit(MAX_RETRIES_PER_RUN)
+    .overrideTypes<(WebhookDelivery & { subscription: WebhookSubscription })[], { merge: false }>()
+
+  if (error) {
+    console.error('Webhook delivery fetch error:', error)
+    throw new Error('Failed to fetch due webhook deliveries')
+  }
+
+  const attempted: WebhookDelivery[] = []
+  for (const { subscription, ...delivery } of due) {
+    // Another run may have picked the delivery up since it was read
+    if (!await claimDelivery(delivery)) {
+      continue
+    }
+
+    if (!subscription.is_active) {
+      attempted.push(await recordAttempt(delivery, { status: 'failed', next_attempt_at: null, last_error: 'Subscription is disabled' }))
+      continue
+    }
+
+    attempted.push(await attemptDelivery(delivery, subscription))
+  }
+
+  return attempted
+}
+
+// Helper function to build a new event
+function buildEvent(entityPlatformId: string, type: WebhookEventType, data: Record<string, unknown>): WebhookEvent {
+  return {
+    id: randomUUID(),
+    type,
+    entity_platform_id: entityPlatformId,
+    created_at: new Date().toISOString(),
+    data
+  }
+}
+
+// Helper function to log one delivery per subscription and make the first attempts
+async function deliverEvent(subscriptions: WebhookSubscription[], event: WebhookEvent): Promise<WebhookDelivery[]> {
+  if (subscriptions.length === 0) {
+    return []
+  }
+
+  const deliveries = await insertDeliveries(subscriptions, event, null)
+  return Promise.all(deliveries.map((delivery, index) => attemptDelivery(delivery, subscriptions[index])))
+}
+
+// Helper function to log deliveries of an event, leased so retry runs leave them to the caller.
+// Rows come back in subscription order
+async function insertDeliveries(
+  subscriptions: WebhookSubscription[],
+  event: WebhookEvent,
+  replayOf: string | null
+): Promise<WebhookDelivery[]> {
+  const leaseUntil = new Date(Date.now() + DELIVERY_LEASE_SECONDS * 1000).toISOString()
+  const { data: deliveries, error } = await supabaseAdmin
+    .from('webhook_deliveries')
+    .insert(subscriptions.map(subscription => ({
+      entity_platform_id: subscription.entity_platform_id,
+      subscription_id: subscription.id,
+      event_id: event.id,
+      event_type: event.type,
+      payload: event,
+      next_attempt_at: leaseUntil,
+      replay_of: replayOf
+    })))
+    .select()
+
+  if (error) {
+    console.error('Webhook delivery creation error:', error)
+    throw new Error('Failed to log webhook deliveries')
+  }
+
+  const bySubscription = new Map((deliveries as WebhookDelivery[]).map(delivery => [delivery.subscription_id, delivery]))
+  return subscriptions.map(subscription => bySubscription.get(subscription.id)!)
+}
+
+// Helper function to lease a due delivery, only if no other run has leased it first
+async function claimDelivery(delivery: WebhookDelivery): Promise<boolean> {
+  const { data: claimed, error } = await supabaseAdmin
+    .from('webhook_deliveries')
+    .update({ next_attempt_at: new Date(Date.now() + DELIVERY_LEASE_SECONDS * 1000).toISOString() })
+    .eq('id', delivery.id)
+    .eq('status', 'pending')
+    .eq('next_attempt_at', delivery.next_attempt_at!)
+    .select('id')
+
+  if (error) {
+    console.error('Webhook delivery claim error:', error)
+    throw new Error('Failed to claim webhook delivery')
+  }
+
+  return claimed.length > 0
+}
+
+// Helper function to POST a delivery's payload, signed, and record the outcome
+async function attemptDelivery(delivery: WebhookDelivery, subscription: WebhookSubscription): Promise<WebhookDelivery> {
+  const body = JSON.stringify(delivery.payload)
+  const timestamp = Math.floor(Date.now() / 1000).toString()
+  const attemptCount = delivery.attempt_count + 1
+
+  let responseStatus: number | null = null
+  let responseBody: string | null = null
+  let lastError: string | null = null
+
+  try {
+    const response = await fetch(subscription.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'ff-roster-webhooks',
+        'X-Roster-Event': delivery.event_type,
+        'X-Roster-Event-Id': delivery.event_id,
+        'X-Roster-Delivery': delivery.id,
+        'X-Roster-Timestamp': timestamp,
+        'X-Roster-Signature': `sha256=${signWebhookPayload(subscription.secret, timestamp, body)}`
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+    })
+    responseStatus = response.status
+    responseBody = (await response.text()).slice(0, MAX_RESPONSE_BODY_LENGTH)
+  } catch (error) {
+    lastError = error instanceof Error ? error.message : String(error)
+  }
+
+  const now = new Date()
+  const delivered = responseStatus !== null && responseStatus >= 200 && responseStatus < 300
+  const outOfAttempts = attemptCount >= MAX_DELIVERY_ATTEMPTS
+
+  return recordAttempt(delivery, {
+    status: delivered ? 'delivered' : outOfAttempts ? 'failed' : 'pending',
+    attempt_count: attemptCount,
+    next_attempt_at: delivered || outOfAttempts
+      ? null
+      : new Date(now.getTime() + RETRY_BACKOFF_SECONDS[attemptCount - 1] * 1000).toISOString(),
+    last_attempt_at: now.toISOString(),
+    response_status: responseStatus,
+    response_body: responseBody,
+    last_error: lastError ?? (delivered ? null : `Receiver responded with HTTP ${responseStatus}`),
+    delivered_at: delivered ? now.toISOString() : null
+  })
+}
+
+// Helper function to store the outcome of an attempt on the delivery log
+async function recordAttempt(delivery: WebhookDelivery, changes: Partial<WebhookDelivery>): Promise<WebhookDelivery> {
+  const { data: updated, error } = await supabaseAdmin
+    .from('webhook_deliveries')
+    .update(changes)
+    .eq('id', delivery.id)
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Webhook delivery update error:', error)
+    throw new Error('Failed to update webhook delivery')
+  }
+
+  return updated as WebhookDelivery
+}
@@ -28,14 +28,10 @@ CREATE POLICY "weekly_schedules_entity_isolation" ON weekly_schedules
     )
   );
 
--- Schedule exceptions: Only accessible through staff member's entity
+-- Schedule exceptions: Only accessible by same entity (hospital-wide closures have no staff member)
 CREATE POLICY "schedule_exceptions_entity_isolation" ON schedule_exceptions
   FOR ALL USING (
-    EXISTS (
-      SELECT 1 FROM staff_members 
-      WHERE staff_members.id = schedule_exceptions.staff_member_id 
-      AND staff_members.entity_platform_id::text = (SELECT auth.jwt()) ->> 'entity_platform_id'
-    )
+    (SELECT auth.jwt()) ->> 'entity_platform_id' = entity_platform_id::text
   );
 
 -- External bookings: Only accessible by same entity
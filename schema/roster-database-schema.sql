@@ -20,11 +20,17 @@ CREATE TABLE IF NOT EXISTS hospital_master (
   subscription_status VARCHAR(20) DEFAULT 'trial', -- active, inactive, trial, suspended
   subscription_start_date DATE,
   subscription_end_date DATE,
+  timezone VARCHAR(64) NOT NULL DEFAULT 'UTC', -- IANA timezone, e.g. Asia/Kolkata
+  slot_interval_minutes INTEGER, -- Default slot start granularity for the roster; NULL = per schedule
   is_active BOOLEAN DEFAULT true,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Roster needs each hospital's local timezone to compute slots
+ALTER TABLE hospital_master ADD COLUMN IF NOT EXISTS timezone VARCHAR(64) NOT NULL DEFAULT 'UTC';
+ALTER TABLE hospital_master ADD COLUMN IF NOT EXISTS slot_interval_minutes INTEGER;
+
 -- modules_master table (existing)
 -- Contains available modules/features in the system
 -- ASSUMED STRUCTURE (to be confirmed):
@@ -77,6 +83,22 @@ CREATE TABLE IF NOT EXISTS staff_members (
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Rotating rotas: a cycle of several weeks that repeats from the anchor date. The pattern's
+-- blocks are weekly_schedules rows tagged with the cycle week they belong to.
+CREATE TABLE IF NOT EXISTS rota_patterns (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_platform_id UUID NOT NULL, -- Links to hospital_master.entity_platform_id
+  staff_member_id UUID NOT NULL REFERENCES staff_members(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  cycle_weeks INTEGER NOT NULL, -- e.g. 2 for alternate weekends
+  anchor_date DATE NOT NULL, -- First day of cycle week 1
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT valid_cycle_weeks CHECK (cycle_weeks BETWEEN 1 AND 12)
+);
+
 -- Weekly schedules for staff members
 CREATE TABLE IF NOT EXISTS weekly_schedules (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -85,27 +107,105 @@ CREATE TABLE IF NOT EXISTS weekly_schedules (
   start_time TIME NOT NULL,
   end_time TIME NOT NULL,
   is_available BOOLEAN DEFAULT true,
+  slot_duration_minutes INTEGER DEFAULT 15, -- Standard appointment length for this block
+  slot_interval_minutes INTEGER, -- Slot start granularity; NULL = hospital default, then slot_duration_minutes
   effective_from DATE NOT NULL,
   effective_until DATE, -- NULL means indefinite
-  is_active BOOLEAN DEFAULT true,
+  is_active BOOLEAN DEFAULT true, -- false = version cancelled before it took effect; the row is kept
+  previous_version_id UUID REFERENCES weekly_schedules(id) ON DELETE SET NULL, -- Block this version replaced
+  change_reason TEXT, -- Why this version was created
+  end_reason TEXT, -- Why this version was ended or cancelled
+  rota_pattern_id UUID REFERENCES rota_patterns(id) ON DELETE CASCADE, -- NULL = every week
+  cycle_week INTEGER, -- Week of the rota cycle the block applies in, from 1
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   
-  -- Ensure start time is before end time
-  CONSTRAINT valid_time_range CHECK (start_time < end_time),
-  -- Prevent overlapping schedules for same staff/day
-  UNIQUE(staff_member_id, day_of_week, effective_from)
+  -- An end time before the start time runs past midnight into the next day (e.g. 20:00-08:00)
+  CONSTRAINT valid_time_range CHECK (start_time <> end_time),
+  CONSTRAINT valid_cycle_week CHECK ((rota_pattern_id IS NULL) = (cycle_week IS NULL) AND (cycle_week IS NULL OR cycle_week >= 1))
+);
+
+ALTER TABLE weekly_schedules ADD COLUMN IF NOT EXISTS slot_duration_minutes INTEGER DEFAULT 15;
+ALTER TABLE weekly_schedules ADD COLUMN IF NOT EXISTS slot_interval_minutes INTEGER;
+ALTER TABLE weekly_schedules ADD COLUMN IF NOT EXISTS previous_version_id UUID REFERENCES weekly_schedules(id) ON DELETE SET NULL;
+ALTER TABLE weekly_schedules ADD COLUMN IF NOT EXISTS change_reason TEXT;
+ALTER TABLE weekly_schedules ADD COLUMN IF NOT EXISTS end_reason TEXT;
+ALTER TABLE weekly_schedules ADD COLUMN IF NOT EXISTS rota_pattern_id UUID REFERENCES rota_patterns(id) ON DELETE CASCADE;
+ALTER TABLE weekly_schedules ADD COLUMN IF NOT EXISTS cycle_week INTEGER;
+
+-- Allow overnight blocks on databases created when blocks had to end on their start date
+ALTER TABLE weekly_schedules DROP CONSTRAINT IF EXISTS valid_time_range;
+ALTER TABLE weekly_schedules ADD CONSTRAINT valid_time_range CHECK (start_time <> end_time);
+
+-- Allow split shifts on databases created with the old one-block-per-day constraint.
+-- Several blocks per day are allowed; the API rejects overlapping blocks. Cancelled versions
+-- keep their rows, so only active blocks have to be unique. Rota blocks of different cycle
+-- weeks never apply on the same date, so they may share a start time.
+ALTER TABLE weekly_schedules DROP CONSTRAINT IF EXISTS weekly_schedules_staff_member_id_day_of_week_effective_from_key;
+ALTER TABLE weekly_schedules DROP CONSTRAINT IF EXISTS unique_schedule_block;
+DROP INDEX IF EXISTS unique_active_schedule_block;
+CREATE UNIQUE INDEX IF NOT EXISTS unique_active_schedule_block
+  ON weekly_schedules(staff_member_id, day_of_week, effective_from, start_time, COALESCE(rota_pattern_id::text, ''), COALESCE(cycle_week, 0))
+  WHERE is_active;
+
+-- Named weeks of schedule blocks (e.g. "Standard vet week") that a hospital applies to many
+-- staff members at once. Applying a template copies its blocks into weekly_schedules.
+CREATE TABLE IF NOT EXISTS schedule_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_platform_id UUID NOT NULL, -- Links to hospital_master.entity_platform_id
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Blocks of a template, in the same shape as weekly_schedules
+CREATE TABLE IF NOT EXISTS schedule_template_blocks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id UUID NOT NULL REFERENCES schedule_templates(id) ON DELETE CASCADE,
+  day_of_week INTEGER NOT NULL CHECK (day_of_week >= 0 AND day_of_week <= 6), -- 0 = Sunday
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL, -- Before start_time for overnight blocks
+  is_available BOOLEAN NOT NULL DEFAULT true, -- false = break
+  slot_duration_minutes INTEGER NOT NULL DEFAULT 15,
+  slot_interval_minutes INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT valid_template_block_time CHECK (start_time <> end_time)
+);
+
+-- Staffing levels a hospital needs per weekday, time band and role (e.g. at least 2 vets
+-- 08:00-20:00). GET /api/coverage-report compares them with who is actually on duty.
+CREATE TABLE IF NOT EXISTS coverage_requirements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_platform_id UUID NOT NULL, -- Links to hospital_master.entity_platform_id
+  role_type VARCHAR(100) NOT NULL,
+  day_of_week INTEGER NOT NULL CHECK (day_of_week >= 0 AND day_of_week <= 6), -- 0 = Sunday
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL, -- Before start_time for overnight bands
+  min_staff INTEGER NOT NULL, -- Fewer on duty = understaffed
+  max_staff INTEGER, -- More on duty = overstaffed; NULL = no upper limit
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT valid_coverage_time CHECK (start_time <> end_time),
+  CONSTRAINT valid_coverage_levels CHECK (min_staff >= 0 AND (max_staff IS NULL OR max_staff >= min_staff))
 );
 
 -- Schedule exceptions (holidays, sick days, special hours)
 CREATE TABLE IF NOT EXISTS schedule_exceptions (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-  staff_member_id UUID NOT NULL REFERENCES staff_members(id) ON DELETE CASCADE,
+  staff_member_id UUID REFERENCES staff_members(id) ON DELETE CASCADE, -- NULL = hospital-wide closure
+  entity_platform_id UUID NOT NULL, -- Links to hospital_master.entity_platform_id
   exception_date DATE NOT NULL,
-  exception_type VARCHAR(50) NOT NULL, -- holiday, sick_leave, vacation, special_hours, unavailable
+  exception_type VARCHAR(50) NOT NULL, -- holiday, sick_leave, personal_leave, emergency, training, custom
+  is_available BOOLEAN DEFAULT false, -- true = extra working hours, false = unavailable
   start_time TIME, -- NULL for full day exceptions
   end_time TIME, -- NULL for full day exceptions
   reason TEXT,
+  notes TEXT,
   created_by UUID, -- Who created this exception
   is_active BOOLEAN DEFAULT true,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
@@ -114,10 +214,206 @@ CREATE TABLE IF NOT EXISTS schedule_exceptions (
   -- Ensure valid time range for partial day exceptions
   CONSTRAINT valid_exception_time CHECK (
     (start_time IS NULL AND end_time IS NULL) OR 
+    (start_time IS NOT NULL AND end_time IS NOT NULL AND start_time <> end_time) -- end < start runs past midnight
+  ),
+  -- Extra working hours need an explicit window
+  CONSTRAINT available_exception_has_window CHECK (NOT is_available OR start_time IS NOT NULL)
+);
+
+-- Columns written by POST /api/exceptions on databases created from older versions of this file
+ALTER TABLE schedule_exceptions ADD COLUMN IF NOT EXISTS entity_platform_id UUID;
+ALTER TABLE schedule_exceptions ADD COLUMN IF NOT EXISTS is_available BOOLEAN DEFAULT false;
+ALTER TABLE schedule_exceptions ADD COLUMN IF NOT EXISTS notes TEXT;
+-- Hospital-wide closures have no staff member
+ALTER TABLE schedule_exceptions ALTER COLUMN staff_member_id DROP NOT NULL;
+-- Timed exceptions may run past midnight, like overnight shifts
+ALTER TABLE schedule_exceptions DROP CONSTRAINT IF EXISTS valid_exception_time;
+ALTER TABLE schedule_exceptions ADD CONSTRAINT valid_exception_time CHECK (
+  (start_time IS NULL AND end_time IS NULL) OR
+  (start_time IS NOT NULL AND end_time IS NOT NULL AND start_time <> end_time)
+);
+
+-- Named holiday calendars (e.g. national public holidays). entity_platform_id NULL = shared calendar
+CREATE TABLE IF NOT EXISTS holiday_calendars (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_platform_id UUID, -- Owning hospital; NULL for shared calendars managed centrally
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  country_code CHAR(2), -- ISO 3166-1 alpha-2
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Holidays on a calendar; the hospital is closed for every staff member on these dates
+CREATE TABLE IF NOT EXISTS holiday_calendar_dates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  calendar_id UUID NOT NULL REFERENCES holiday_calendars(id) ON DELETE CASCADE,
+  holiday_date DATE NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  is_recurring BOOLEAN DEFAULT false, -- Repeats on the same month and day every year
+  start_time TIME, -- NULL for full day closures
+  end_time TIME, -- NULL for full day closures
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT valid_holiday_time CHECK (
+    (start_time IS NULL AND end_time IS NULL) OR
+    (start_time IS NOT NULL AND end_time IS NOT NULL AND start_time < end_time)
+  )
+);
+
+-- Which holiday calendars apply to which hospital
+CREATE TABLE IF NOT EXISTS entity_holiday_calendars (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_platform_id UUID NOT NULL, -- Links to hospital_master.entity_platform_id
+  calendar_id UUID NOT NULL REFERENCES holiday_calendars(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(entity_platform_id, calendar_id)
+);
+
+-- Appointment type catalog per hospital (consultation, vaccination, surgery consult, ...)
+CREATE TABLE IF NOT EXISTS appointment_types (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_platform_id UUID NOT NULL, -- Links to hospital_master.entity_platform_id
+  code VARCHAR(50) NOT NULL, -- Stable identifier used by callers, e.g. 'vaccination'
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  duration_minutes INTEGER NOT NULL,
+  eligible_role_types TEXT[] NOT NULL DEFAULT '{}', -- Empty = any role
+  buffer_before_minutes INTEGER NOT NULL DEFAULT 0, -- Set-up time before the appointment
+  buffer_after_minutes INTEGER NOT NULL DEFAULT 0, -- Clean-up time after the appointment
+  required_resource_types TEXT[] NOT NULL DEFAULT '{}', -- Rooms or equipment every booking needs, e.g. {operating_theater}
+  color VARCHAR(7), -- Hex colour for calendars, e.g. #4F46E5
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT valid_appointment_duration CHECK (duration_minutes BETWEEN 5 AND 480),
+  CONSTRAINT valid_appointment_buffers CHECK (buffer_before_minutes >= 0 AND buffer_after_minutes >= 0),
+  UNIQUE(entity_platform_id, code)
+);
+
+ALTER TABLE appointment_types ADD COLUMN IF NOT EXISTS required_resource_types TEXT[] NOT NULL DEFAULT '{}';
+
+-- Bookable rooms and equipment per hospital (operating theatres, X-ray rooms, ultrasound machines, ...)
+CREATE TABLE IF NOT EXISTS resources (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_platform_id UUID NOT NULL, -- Links to hospital_master.entity_platform_id
+  name VARCHAR(255) NOT NULL,
+  resource_type VARCHAR(50) NOT NULL, -- operating_theater, xray_room, ultrasound, ...
+  description TEXT,
+  location VARCHAR(255),
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(entity_platform_id, name)
+);
+
+-- Weekly availability for resources; a resource with no rows is available around the clock
+CREATE TABLE IF NOT EXISTS resource_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  resource_id UUID NOT NULL REFERENCES resources(id) ON DELETE CASCADE,
+  day_of_week INTEGER NOT NULL, -- 0 = Sunday, 1 = Monday, etc.
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  is_available BOOLEAN DEFAULT true, -- false = blocked inside the day's blocks (e.g. daily cleaning)
+  effective_from DATE NOT NULL,
+  effective_until DATE, -- NULL means indefinite
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT valid_resource_time_range CHECK (start_time < end_time),
+  CONSTRAINT unique_resource_schedule_block UNIQUE(resource_id, day_of_week, effective_from, start_time)
+);
+
+-- Resource downtime (maintenance, repairs, deep cleaning)
+CREATE TABLE IF NOT EXISTS resource_exceptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  resource_id UUID NOT NULL REFERENCES resources(id) ON DELETE CASCADE,
+  exception_date DATE NOT NULL,
+  start_time TIME, -- NULL for full day exceptions
+  end_time TIME, -- NULL for full day exceptions
+  reason TEXT,
+  created_by UUID,
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT valid_resource_exception_time CHECK (
+    (start_time IS NULL AND end_time IS NULL) OR
     (start_time IS NOT NULL AND end_time IS NOT NULL AND start_time < end_time)
   )
 );
 
+-- Per-role overbooking: how many bookings a staff member of the role may have at the same time.
+-- Roles without an active policy take one booking at a time.
+CREATE TABLE IF NOT EXISTS overbooking_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_platform_id UUID NOT NULL, -- Links to hospital_master.entity_platform_id
+  role_type VARCHAR(100) NOT NULL,
+  max_concurrent_bookings INTEGER NOT NULL DEFAULT 2, -- Bookings a staff member may have at any one time
+  max_overbooked_per_day INTEGER, -- NULL = no daily limit
+  allowed_source_services TEXT[] NOT NULL DEFAULT '{}', -- Empty = every service may overbook
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT valid_max_concurrent CHECK (max_concurrent_bookings BETWEEN 1 AND 10),
+  CONSTRAINT valid_max_overbooked CHECK (max_overbooked_per_day IS NULL OR max_overbooked_per_day >= 0),
+  UNIQUE(entity_platform_id, role_type)
+);
+
+-- Short-lived reservations taken during checkout; they block the time until
+-- confirmed by a booking, released or expired
+CREATE TABLE IF NOT EXISTS slot_holds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_platform_id UUID NOT NULL, -- Links to hospital_master.entity_platform_id
+  hold_token UUID NOT NULL UNIQUE DEFAULT gen_random_uuid(), -- Handed to the caller to confirm or release the hold
+  staff_member_id UUID NOT NULL REFERENCES staff_members(id),
+  participant_staff_ids UUID[] NOT NULL DEFAULT '{}', -- Rest of the team for team bookings
+  resource_ids UUID[] NOT NULL DEFAULT '{}', -- Resources the booking will claim
+  appointment_type_id UUID REFERENCES appointment_types(id),
+  booking_date DATE NOT NULL,
+  booking_time TIME NOT NULL,
+  booking_end_time TIME NOT NULL,
+  duration_minutes INTEGER NOT NULL,
+  buffer_before_minutes INTEGER NOT NULL DEFAULT 0,
+  buffer_after_minutes INTEGER NOT NULL DEFAULT 0,
+  source_service VARCHAR(100),
+  status VARCHAR(20) NOT NULL DEFAULT 'held', -- held, confirmed, released
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  -- An end time before the start time runs past midnight into the next day (e.g. 23:30-00:30)
+  CONSTRAINT valid_hold_time CHECK (booking_time <> booking_end_time),
+  CONSTRAINT valid_hold_status CHECK (status IN ('held', 'confirmed', 'released'))
+);
+
+-- Recurring booking series (e.g. weekly physiotherapy); each occurrence is an ordinary booking
+CREATE TABLE IF NOT EXISTS booking_series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_platform_id UUID NOT NULL, -- Links to hospital_master.entity_platform_id
+  staff_member_id UUID NOT NULL REFERENCES staff_members(id),
+  external_series_id VARCHAR(255) NOT NULL, -- ID from the external system; occurrences get external_series_id:1, :2, ...
+  source_service VARCHAR(100) NOT NULL,
+  recurrence_rule TEXT NOT NULL, -- RRULE subset, e.g. FREQ=WEEKLY;BYDAY=MO;COUNT=10
+  start_date DATE NOT NULL,
+  booking_time TIME NOT NULL,
+  appointment_type_id UUID REFERENCES appointment_types(id),
+  mode VARCHAR(20) NOT NULL DEFAULT 'all_or_nothing', -- all_or_nothing, best_effort
+  metadata JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT valid_series_mode CHECK (mode IN ('all_or_nothing', 'best_effort')),
+  UNIQUE(external_series_id, source_service)
+);
+
 -- External bookings (appointments from other systems like HMS)
 CREATE TABLE IF NOT EXISTS external_bookings (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -129,17 +425,166 @@ CREATE TABLE IF NOT EXISTS external_bookings (
   booking_time TIME NOT NULL,
   booking_end_time TIME NOT NULL,
   duration_minutes INTEGER NOT NULL,
+  appointment_type_id UUID REFERENCES appointment_types(id),
+  buffer_before_minutes INTEGER NOT NULL DEFAULT 0, -- Copied from the appointment type at booking time
+  buffer_after_minutes INTEGER NOT NULL DEFAULT 0,
   status VARCHAR(20) DEFAULT 'active', -- active, cancelled, completed, no_show
+  status_changed_at TIMESTAMP WITH TIME ZONE,
+  status_reason TEXT, -- e.g. why the client cancelled
+  rescheduled_from JSONB, -- Previous date and times after a reschedule
+  reassigned_from JSONB, -- Last staff change: { staff_member_id, to_staff_member_id, position, reason, reassigned_at }
+  hold_id UUID REFERENCES slot_holds(id), -- Hold confirmed by this booking
+  override_reason TEXT, -- Why working-hours rules were bypassed (emergencies)
+  override_by VARCHAR(255), -- Who authorized the override
+  overridden_rules JSONB, -- Rules the booking broke: [{ staff_member_id, code, reason }]
+  series_id UUID REFERENCES booking_series(id), -- Recurring series this booking is an occurrence of
+  is_overbooked BOOLEAN NOT NULL DEFAULT false, -- Overlaps another booking or hold of a staff member, as an overbooking policy allows
   metadata JSONB, -- Additional data from external system
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   
-  -- Ensure booking end time is after start time
-  CONSTRAINT valid_booking_time CHECK (booking_time < booking_end_time),
+  -- An end time before the start time runs past midnight into the next day (e.g. 23:30-00:30)
+  CONSTRAINT valid_booking_time CHECK (booking_time <> booking_end_time),
   -- Prevent duplicate external bookings
   UNIQUE(external_booking_id, source_service)
 );
 
+-- Appointment type columns on databases created from older versions of this file
+ALTER TABLE external_bookings ADD COLUMN IF NOT EXISTS appointment_type_id UUID REFERENCES appointment_types(id);
+ALTER TABLE external_bookings ADD COLUMN IF NOT EXISTS buffer_before_minutes INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE external_bookings ADD COLUMN IF NOT EXISTS buffer_after_minutes INTEGER NOT NULL DEFAULT 0;
+
+-- Booking lifecycle
+ALTER TABLE external_bookings ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE external_bookings ADD COLUMN IF NOT EXISTS status_reason TEXT; -- e.g. why the client cancelled
+ALTER TABLE external_bookings ADD COLUMN IF NOT EXISTS rescheduled_from JSONB; -- Previous date and times after a reschedule
+ALTER TABLE external_bookings ADD COLUMN IF NOT EXISTS reassigned_from JSONB; -- Last staff change after an unavailability
+
+-- Slot holds
+ALTER TABLE external_bookings ADD COLUMN IF NOT EXISTS hold_id UUID REFERENCES slot_holds(id);
+
+-- Working-hours overrides
+ALTER TABLE external_bookings ADD COLUMN IF NOT EXISTS override_reason TEXT;
+ALTER TABLE external_bookings ADD COLUMN IF NOT EXISTS override_by VARCHAR(255);
+ALTER TABLE external_bookings ADD COLUMN IF NOT EXISTS overridden_rules JSONB;
+
+-- Recurring series
+ALTER TABLE external_bookings ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES booking_series(id);
+
+-- Overbooking
+ALTER TABLE external_bookings ADD COLUMN IF NOT EXISTS is_overbooked BOOLEAN NOT NULL DEFAULT false;
+
+-- Allow bookings and holds past midnight on databases created when they had to end on their date
+ALTER TABLE external_bookings DROP CONSTRAINT IF EXISTS valid_booking_time;
+ALTER TABLE external_bookings ADD CONSTRAINT valid_booking_time CHECK (booking_time <> booking_end_time);
+ALTER TABLE slot_holds DROP CONSTRAINT IF EXISTS valid_hold_time;
+ALTER TABLE slot_holds ADD CONSTRAINT valid_hold_time CHECK (booking_time <> booking_end_time);
+
+-- Interest in an earlier or any slot, registered by an external system; matched in priority order
+-- whenever capacity opens (cancellation, new schedule, extra hours)
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_platform_id UUID NOT NULL, -- Links to hospital_master.entity_platform_id
+  staff_member_id UUID REFERENCES staff_members(id), -- Preferred staff member; NULL = anyone eligible
+  role_type VARCHAR(100), -- Preferred role when no staff member is given
+  appointment_type_id UUID REFERENCES appointment_types(id),
+  duration_minutes INTEGER NOT NULL,
+  earliest_date DATE NOT NULL,
+  latest_date DATE NOT NULL,
+  earliest_time TIME, -- Time-of-day preference, local to the hospital
+  latest_time TIME,
+  priority INTEGER NOT NULL DEFAULT 0, -- Higher is offered first; ties go to the oldest entry
+  external_reference VARCHAR(255), -- e.g. HMS patient or referral ID
+  source_service VARCHAR(100) NOT NULL,
+  metadata JSONB,
+  status VARCHAR(20) NOT NULL DEFAULT 'waiting', -- waiting, offered, booked, cancelled
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT valid_waitlist_dates CHECK (earliest_date <= latest_date),
+  CONSTRAINT valid_waitlist_times CHECK (earliest_time IS NULL OR latest_time IS NULL OR earliest_time < latest_time),
+  CONSTRAINT valid_waitlist_status CHECK (status IN ('waiting', 'offered', 'booked', 'cancelled'))
+);
+
+-- Slots offered to waitlist entries; each offer holds its slot until accepted, declined or expired
+CREATE TABLE IF NOT EXISTS waitlist_offers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_platform_id UUID NOT NULL, -- Links to hospital_master.entity_platform_id
+  waitlist_entry_id UUID NOT NULL REFERENCES waitlist_entries(id) ON DELETE CASCADE,
+  hold_id UUID NOT NULL REFERENCES slot_holds(id),
+  staff_member_id UUID NOT NULL REFERENCES staff_members(id),
+  booking_date DATE NOT NULL,
+  booking_time TIME NOT NULL,
+  booking_end_time TIME NOT NULL,
+  trigger VARCHAR(30) NOT NULL, -- booking_cancelled, booking_rescheduled, hold_released, offer_declined, offer_expired, schedule_added, extra_hours_added, manual
+  status VARCHAR(20) NOT NULL DEFAULT 'pending', -- pending, accepted, declined, expired, cancelled
+  booking_id UUID REFERENCES external_bookings(id), -- Set when the offer is booked
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  responded_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT valid_offer_status CHECK (status IN ('pending', 'accepted', 'declined', 'expired', 'cancelled'))
+);
+
+-- Outbound webhook subscriptions: an external service's URL and the events it wants
+CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_platform_id UUID NOT NULL, -- Links to hospital_master.entity_platform_id
+  url TEXT NOT NULL,
+  secret TEXT NOT NULL, -- HMAC-SHA256 signing key; only returned when created or rotated
+  event_types TEXT[] NOT NULL, -- e.g. {booking.created,booking.cancelled}
+  source_service VARCHAR(100), -- Service that owns the endpoint (ff-hms, ff-pa, etc.)
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT valid_webhook_event_types CHECK (cardinality(event_types) > 0)
+);
+
+-- One row per event per subscription; retried with backoff until delivered or out of attempts
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_platform_id UUID NOT NULL, -- Links to hospital_master.entity_platform_id
+  subscription_id UUID NOT NULL REFERENCES webhook_subscriptions(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL, -- Same for every delivery (and replay) of one event; receivers dedupe on it
+  event_type VARCHAR(50) NOT NULL,
+  payload JSONB NOT NULL, -- Body sent; replays send the same payload with a fresh signature
+  status VARCHAR(20) NOT NULL DEFAULT 'pending', -- pending, delivered, failed
+  attempt_count INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE, -- When a pending delivery is due; NULL once delivered or failed
+  last_attempt_at TIMESTAMP WITH TIME ZONE,
+  response_status INTEGER, -- HTTP status of the last attempt
+  response_body TEXT, -- First 1000 characters of the last response
+  last_error TEXT, -- Network error or timeout of the last attempt
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  replay_of UUID REFERENCES webhook_deliveries(id), -- Delivery this one replays
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT valid_webhook_delivery_status CHECK (status IN ('pending', 'delivered', 'failed'))
+);
+
+-- Extra staff on a team booking (surgeon on external_bookings.staff_member_id, anaesthetist and nurse here)
+CREATE TABLE IF NOT EXISTS booking_participants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id UUID NOT NULL REFERENCES external_bookings(id) ON DELETE CASCADE,
+  staff_member_id UUID NOT NULL REFERENCES staff_members(id),
+  role_type VARCHAR(100), -- Role the staff member fills on this booking
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(booking_id, staff_member_id)
+);
+
+-- Resources claimed by a booking, for the booking's full window including buffers
+CREATE TABLE IF NOT EXISTS booking_resources (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id UUID NOT NULL REFERENCES external_bookings(id) ON DELETE CASCADE,
+  resource_id UUID NOT NULL REFERENCES resources(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(booking_id, resource_id)
+);
+
 -- ============================================================================
 -- INDEXES for better performance
 -- ============================================================================
@@ -159,11 +604,649 @@ CREATE INDEX IF NOT EXISTS idx_staff_members_role_type ON staff_members(role_typ
 CREATE INDEX IF NOT EXISTS idx_weekly_schedules_staff_day ON weekly_schedules(staff_member_id, day_of_week);
 CREATE INDEX IF NOT EXISTS idx_weekly_schedules_effective ON weekly_schedules(effective_from, effective_until);
 CREATE INDEX IF NOT EXISTS idx_schedule_exceptions_staff_date ON schedule_exceptions(staff_member_id, exception_date);
+CREATE INDEX IF NOT EXISTS idx_schedule_exceptions_entity_date ON schedule_exceptions(entity_platform_id, exception_date);
+
+-- Appointment type lookup
+CREATE INDEX IF NOT EXISTS idx_appointment_types_entity_code ON appointment_types(entity_platform_id, code);
+
+-- Resource lookup indexes
+CREATE INDEX IF NOT EXISTS idx_resources_entity_type ON resources(entity_platform_id, resource_type);
+CREATE INDEX IF NOT EXISTS idx_resource_schedules_resource_day ON resource_schedules(resource_id, day_of_week);
+CREATE INDEX IF NOT EXISTS idx_resource_exceptions_resource_date ON resource_exceptions(resource_id, exception_date);
+CREATE INDEX IF NOT EXISTS idx_booking_resources_resource ON booking_resources(resource_id);
+CREATE INDEX IF NOT EXISTS idx_booking_resources_booking ON booking_resources(booking_id);
+
+-- Closure lookup indexes
+CREATE INDEX IF NOT EXISTS idx_holiday_calendar_dates_calendar_date ON holiday_calendar_dates(calendar_id, holiday_date);
+CREATE INDEX IF NOT EXISTS idx_entity_holiday_calendars_entity ON entity_holiday_calendars(entity_platform_id);
 
 -- Booking lookup indexes
 CREATE INDEX IF NOT EXISTS idx_external_bookings_staff_date ON external_bookings(staff_member_id, booking_date);
 CREATE INDEX IF NOT EXISTS idx_external_bookings_external_id ON external_bookings(external_booking_id);
 CREATE INDEX IF NOT EXISTS idx_external_bookings_entity_platform_id ON external_bookings(entity_platform_id);
+CREATE INDEX IF NOT EXISTS idx_external_bookings_entity_start ON external_bookings(entity_platform_id, booking_date, booking_time, id);
+CREATE INDEX IF NOT EXISTS idx_external_bookings_entity_updated ON external_bookings(entity_platform_id, updated_at, id);
+CREATE INDEX IF NOT EXISTS idx_booking_participants_staff ON booking_participants(staff_member_id);
+CREATE INDEX IF NOT EXISTS idx_booking_participants_booking ON booking_participants(booking_id);
+CREATE INDEX IF NOT EXISTS idx_external_bookings_series ON external_bookings(series_id, booking_date) WHERE series_id IS NOT NULL;
+
+-- Hold lookup indexes
+CREATE INDEX IF NOT EXISTS idx_slot_holds_entity_date ON slot_holds(entity_platform_id, booking_date) WHERE status = 'held';
+CREATE INDEX IF NOT EXISTS idx_slot_holds_staff_date ON slot_holds(staff_member_id, booking_date) WHERE status = 'held';
+CREATE INDEX IF NOT EXISTS idx_slot_holds_participants ON slot_holds USING GIN (participant_staff_ids);
+CREATE INDEX IF NOT EXISTS idx_slot_holds_resources ON slot_holds USING GIN (resource_ids);
+
+-- Rota pattern indexes
+CREATE INDEX IF NOT EXISTS idx_rota_patterns_entity_staff ON rota_patterns(entity_platform_id, staff_member_id);
+CREATE INDEX IF NOT EXISTS idx_weekly_schedules_rota_pattern ON weekly_schedules(rota_pattern_id) WHERE rota_pattern_id IS NOT NULL;
+
+-- Schedule template indexes
+CREATE INDEX IF NOT EXISTS idx_schedule_templates_entity ON schedule_templates(entity_platform_id) WHERE is_active = true;
+CREATE INDEX IF NOT EXISTS idx_schedule_template_blocks_template ON schedule_template_blocks(template_id);
+
+-- Coverage requirement indexes
+CREATE INDEX IF NOT EXISTS idx_coverage_requirements_entity_role ON coverage_requirements(entity_platform_id, role_type) WHERE is_active = true;
+
+-- Overbooking indexes
+CREATE INDEX IF NOT EXISTS idx_overbooking_policies_entity_role ON overbooking_policies(entity_platform_id, role_type) WHERE is_active = true;
+CREATE INDEX IF NOT EXISTS idx_external_bookings_overbooked ON external_bookings(staff_member_id, booking_date) WHERE is_overbooked;
+
+-- Waitlist matching indexes
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_matching ON waitlist_entries(entity_platform_id, priority DESC, created_at) WHERE status = 'waiting';
+CREATE INDEX IF NOT EXISTS idx_waitlist_offers_entry ON waitlist_offers(waitlist_entry_id);
+CREATE INDEX IF NOT EXISTS idx_waitlist_offers_pending ON waitlist_offers(entity_platform_id, expires_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_waitlist_offers_hold ON waitlist_offers(hold_id);
+
+-- Webhook indexes
+CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_entity ON webhook_subscriptions(entity_platform_id) WHERE is_active = true;
+CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_event_types ON webhook_subscriptions USING GIN (event_types);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(entity_platform_id, next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_log ON webhook_deliveries(entity_platform_id, created_at DESC, id);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_subscription ON webhook_deliveries(subscription_id, created_at DESC);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Time a booking or hold keeps its staff and resources busy, buffers included. An end time before
+-- the start time is on the next day, so 23:30-00:30 ends at 00:30 the day after booking_date.
+CREATE OR REPLACE FUNCTION booking_window(
+  p_date DATE,
+  p_start TIME,
+  p_end TIME,
+  p_buffer_before INTEGER DEFAULT 0,
+  p_buffer_after INTEGER DEFAULT 0
+) RETURNS TSRANGE
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT tsrange(
+    p_date + p_start - p_buffer_before * INTERVAL '1 minute',
+    p_date + p_end + CASE WHEN p_end < p_start THEN INTERVAL '1 day' ELSE INTERVAL '0' END + p_buffer_after * INTERVAL '1 minute'
+  )
+$$;
+
+-- Lock every staff member and resource for each date the window (buffers included) touches, then make sure it fits.
+-- A staff member may overlap existing bookings and holds only as far as their role's overbooking policy
+-- allows; resources are never shared. Locks are held until the transaction commits, so two concurrent
+-- requests for the same time cannot both pass. A conflict raises exclusion_violation (SQLSTATE 23P01),
+-- which the API maps to 409. Returns true when the window overlaps a staff member's existing time,
+-- i.e. the new booking is overbooked.
+-- Previous signatures are dropped so the new optional arguments do not leave ambiguous overloads.
+DROP FUNCTION IF EXISTS lock_booking_slot(DATE, TSRANGE, UUID[], UUID[], UUID);
+DROP FUNCTION IF EXISTS lock_booking_slot(DATE, TSRANGE, UUID[], UUID[], UUID, UUID);
+CREATE OR REPLACE FUNCTION lock_booking_slot(
+  p_date DATE,
+  p_window TSRANGE,
+  p_staff_ids UUID[],
+  p_resource_ids UUID[] DEFAULT '{}',
+  p_ignore_booking_id UUID DEFAULT NULL, -- The booking being moved, when rescheduling
+  p_ignore_hold_id UUID DEFAULT NULL, -- The hold being confirmed
+  p_source_service TEXT DEFAULT NULL -- Policies limited to some services only apply to those
+) RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_staff RECORD;
+  v_booked INTEGER;
+  v_busy INTEGER;
+  v_overbooked BOOLEAN := false;
+BEGIN
+  -- Locks are taken in a fixed order to avoid deadlocks
+  PERFORM pg_advisory_xact_lock(lock_key)
+  FROM (
+    SELECT DISTINCT hashtextextended(lock_id::TEXT || lock_day::DATE::TEXT, 0) AS lock_key
+    FROM unnest(p_staff_ids || p_resource_ids) AS lock_id
+    -- A window past midnight (or a buffer before it) also locks the neighbouring date
+    CROSS JOIN generate_series(lower(p_window)::DATE, (upper(p_window) - INTERVAL '1 microsecond')::DATE, INTERVAL '1 day') AS lock_day
+    ORDER BY 1
+  ) AS lock_keys;
+
+  FOR v_staff IN
+    SELECT staff.id,
+      COALESCE(policy.max_concurrent_bookings, 1) AS max_concurrent,
+      policy.max_overbooked_per_day
+    FROM staff_members staff
+    LEFT JOIN overbooking_policies policy
+      ON policy.entity_platform_id = staff.entity_platform_id
+      AND policy.role_type = staff.role_type
+      AND policy.is_active
+      AND (cardinality(policy.allowed_source_services) = 0 OR p_source_service = ANY(policy.allowed_source_services))
+    WHERE staff.id = ANY(p_staff_ids)
+  LOOP
+    -- Peak number of bookings (as the booked staff member or a participant) and unexpired holds
+    -- overlapping any one moment of the window; the peak is always at the start of one of them
+    WITH busy AS (
+      SELECT booking_window(
+          existing.booking_date, existing.booking_time, existing.booking_end_time,
+          existing.buffer_before_minutes, existing.buffer_after_minutes
+        ) AS busy_window,
+        true AS is_booking
+      FROM external_bookings existing
+      -- Bookings of the neighbouring dates can run over midnight into the window
+      WHERE existing.booking_date BETWEEN p_date - 1 AND p_date + 1
+        AND existing.status = 'active'
+        AND existing.id IS DISTINCT FROM p_ignore_booking_id
+        AND (
+          existing.staff_member_id = v_staff.id OR
+          EXISTS (SELECT 1 FROM booking_participants participant WHERE participant.booking_id = existing.id AND participant.staff_member_id = v_staff.id)
+        )
+      UNION ALL
+      -- Expired holds no longer count, whether or not anything cleaned them up
+      SELECT booking_window(
+          hold.booking_date, hold.booking_time, hold.booking_end_time,
+          hold.buffer_before_minutes, hold.buffer_after_minutes
+        ),
+        false
+      FROM slot_holds hold
+      WHERE hold.booking_date BETWEEN p_date - 1 AND p_date + 1
+        AND hold.status = 'held'
+        AND hold.expires_at > NOW()
+        AND hold.id IS DISTINCT FROM p_ignore_hold_id
+        AND (hold.staff_member_id = v_staff.id OR v_staff.id = ANY(hold.participant_staff_ids))
+    ), overlapping AS (
+      SELECT busy_window * p_window AS busy_window, is_booking FROM busy WHERE busy_window && p_window
+    )
+    SELECT COALESCE(MAX(covering.booked), 0), COALESCE(MAX(covering.busy), 0)
+    INTO v_booked, v_busy
+    FROM overlapping point
+    CROSS JOIN LATERAL (
+      SELECT COUNT(*) FILTER (WHERE other.is_booking) AS booked, COUNT(*) AS busy
+      FROM overlapping other
+      WHERE other.busy_window @> lower(point.busy_window)
+    ) AS covering;
+
+    IF v_booked >= v_staff.max_concurrent THEN
+      RAISE EXCEPTION 'Time slot conflicts with existing booking' USING ERRCODE = 'exclusion_violation';
+    END IF;
+
+    IF v_busy >= v_staff.max_concurrent THEN
+      RAISE EXCEPTION 'Time slot is held for another booking' USING ERRCODE = 'exclusion_violation';
+    END IF;
+
+    IF v_busy > 0 THEN
+      v_overbooked := true;
+
+      IF v_staff.max_overbooked_per_day IS NOT NULL AND (
+        SELECT COUNT(*)
+        FROM external_bookings existing
+        WHERE existing.booking_date = p_date
+          AND existing.status = 'active'
+          AND existing.is_overbooked
+          AND existing.id IS DISTINCT FROM p_ignore_booking_id
+          AND (
+            existing.staff_member_id = v_staff.id OR
+            EXISTS (SELECT 1 FROM booking_participants participant WHERE participant.booking_id = existing.id AND participant.staff_member_id = v_staff.id)
+          )
+      ) >= v_staff.max_overbooked_per_day THEN
+        RAISE EXCEPTION 'Overbooking limit reached for this day' USING ERRCODE = 'exclusion_violation';
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF EXISTS (
+    SELECT 1
+    FROM booking_resources claimed
+    JOIN external_bookings existing ON existing.id = claimed.booking_id
+    WHERE claimed.resource_id = ANY(p_resource_ids)
+      AND existing.booking_date BETWEEN p_date - 1 AND p_date + 1
+      AND existing.status = 'active'
+      AND existing.id IS DISTINCT FROM p_ignore_booking_id
+      AND booking_window(
+        existing.booking_date, existing.booking_time, existing.booking_end_time,
+        existing.buffer_before_minutes, existing.buffer_after_minutes
+      ) && p_window
+  ) THEN
+    RAISE EXCEPTION 'Required resource is not available at this time' USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM slot_holds hold
+    WHERE hold.booking_date BETWEEN p_date - 1 AND p_date + 1
+      AND hold.status = 'held'
+      AND hold.expires_at > NOW()
+      AND hold.id IS DISTINCT FROM p_ignore_hold_id
+      AND hold.resource_ids && p_resource_ids
+      AND booking_window(
+        hold.booking_date, hold.booking_time, hold.booking_end_time,
+        hold.buffer_before_minutes, hold.buffer_after_minutes
+      ) && p_window
+  ) THEN
+    RAISE EXCEPTION 'Time slot is held for another booking' USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  RETURN v_overbooked;
+END;
+$$;
+
+-- Create a booking with its participants and resources in one transaction.
+-- When p_booking has a hold_id the hold is confirmed in the same transaction.
+CREATE OR REPLACE FUNCTION create_external_booking(
+  p_booking JSONB,
+  p_participants JSONB DEFAULT '[]',
+  p_resource_ids UUID[] DEFAULT '{}'
+) RETURNS external_bookings
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_booking external_bookings;
+  v_date DATE := (p_booking->>'booking_date')::DATE;
+  v_hold_id UUID := (p_booking->>'hold_id')::UUID;
+  v_staff_ids UUID[];
+  v_overbooked BOOLEAN;
+BEGIN
+  IF v_hold_id IS NOT NULL THEN
+    UPDATE slot_holds
+    SET status = 'confirmed', updated_at = NOW()
+    WHERE id = v_hold_id AND status = 'held' AND expires_at > NOW();
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Hold has expired' USING ERRCODE = 'exclusion_violation';
+    END IF;
+  END IF;
+
+  v_staff_ids := ARRAY[(p_booking->>'staff_member_id')::UUID] || ARRAY(
+    SELECT (participant->>'staff_member_id')::UUID FROM jsonb_array_elements(p_participants) AS participant
+  );
+
+  v_overbooked := lock_booking_slot(
+    v_date,
+    booking_window(
+      v_date,
+      (p_booking->>'booking_time')::TIME,
+      (p_booking->>'booking_end_time')::TIME,
+      COALESCE((p_booking->>'buffer_before_minutes')::INTEGER, 0),
+      COALESCE((p_booking->>'buffer_after_minutes')::INTEGER, 0)
+    ),
+    v_staff_ids,
+    p_resource_ids,
+    NULL,
+    v_hold_id,
+    p_booking->>'source_service'
+  );
+
+  INSERT INTO external_bookings (
+    entity_platform_id, staff_member_id, external_booking_id, source_service,
+    booking_date, booking_time, booking_end_time, duration_minutes,
+    appointment_type_id, buffer_before_minutes, buffer_after_minutes, metadata, status, hold_id,
+    override_reason, override_by, overridden_rules, series_id, is_overbooked
+  ) VALUES (
+    (p_booking->>'entity_platform_id')::UUID,
+    (p_booking->>'staff_member_id')::UUID,
+    p_booking->>'external_booking_id',
+    p_booking->>'source_service',
+    v_date,
+    (p_booking->>'booking_time')::TIME,
+    (p_booking->>'booking_end_time')::TIME,
+    (p_booking->>'duration_minutes')::INTEGER,
+    (p_booking->>'appointment_type_id')::UUID,
+    COALESCE((p_booking->>'buffer_before_minutes')::INTEGER, 0),
+    COALESCE((p_booking->>'buffer_after_minutes')::INTEGER, 0),
+    p_booking->'metadata',
+    'active',
+    v_hold_id,
+    p_booking->>'override_reason',
+    p_booking->>'override_by',
+    p_booking->'overridden_rules',
+    (p_booking->>'series_id')::UUID,
+    v_overbooked
+  )
+  RETURNING * INTO v_booking;
+
+  INSERT INTO booking_participants (booking_id, staff_member_id, role_type)
+  SELECT v_booking.id, (participant->>'staff_member_id')::UUID, participant->>'role_type'
+  FROM jsonb_array_elements(p_participants) AS participant;
+
+  INSERT INTO booking_resources (booking_id, resource_id)
+  SELECT v_booking.id, resource_id
+  FROM unnest(p_resource_ids) AS resource_id;
+
+  RETURN v_booking;
+END;
+$$;
+
+-- Move an active booking to a new date and time, keeping its team and resources.
+-- Conflicts are checked under the same locks as new bookings, ignoring the booking itself.
+CREATE OR REPLACE FUNCTION reschedule_external_booking(
+  p_booking_id UUID,
+  p_booking_date DATE,
+  p_booking_time TIME,
+  p_booking_end_time TIME
+) RETURNS external_bookings
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_booking external_bookings;
+  v_staff_ids UUID[];
+  v_resource_ids UUID[];
+  v_overbooked BOOLEAN;
+BEGIN
+  SELECT * INTO v_booking FROM external_bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF v_booking.id IS NULL OR v_booking.status <> 'active' THEN
+    RAISE EXCEPTION 'Only active bookings can be rescheduled' USING ERRCODE = 'check_violation';
+  END IF;
+
+  v_staff_ids := ARRAY[v_booking.staff_member_id] || ARRAY(
+    SELECT staff_member_id FROM booking_participants WHERE booking_id = p_booking_id
+  );
+  v_resource_ids := ARRAY(SELECT resource_id FROM booking_resources WHERE booking_id = p_booking_id);
+
+  v_overbooked := lock_booking_slot(
+    p_booking_date,
+    booking_window(p_booking_date, p_booking_time, p_booking_end_time, v_booking.buffer_before_minutes, v_booking.buffer_after_minutes),
+    v_staff_ids,
+    v_resource_ids,
+    p_booking_id,
+    NULL,
+    v_booking.source_service
+  );
+
+  UPDATE external_bookings
+  SET rescheduled_from = jsonb_build_object(
+        'booking_date', booking_date,
+        'booking_time', booking_time,
+        'booking_end_time', booking_end_time
+      ),
+      booking_date = p_booking_date,
+      booking_time = p_booking_time,
+      booking_end_time = p_booking_end_time,
+      is_overbooked = v_overbooked,
+      updated_at = NOW()
+  WHERE id = p_booking_id
+  RETURNING * INTO v_booking;
+
+  RETURN v_booking;
+END;
+$$;
+
+-- Hand an active booking from one staff member (the booked one or a participant) to another,
+-- keeping its time, the rest of the team and resources. The new team is checked under the same
+-- locks as new bookings, ignoring the booking itself.
+CREATE OR REPLACE FUNCTION reassign_external_booking(
+  p_booking_id UUID,
+  p_from_staff_id UUID,
+  p_to_staff_id UUID,
+  p_reason TEXT DEFAULT NULL
+) RETURNS external_bookings
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_booking external_bookings;
+  v_staff_ids UUID[];
+  v_resource_ids UUID[];
+  v_position TEXT;
+  v_overbooked BOOLEAN;
+BEGIN
+  SELECT * INTO v_booking FROM external_bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF v_booking.id IS NULL OR v_booking.status <> 'active' THEN
+    RAISE EXCEPTION 'Only active bookings can be reassigned' USING ERRCODE = 'check_violation';
+  END IF;
+
+  v_staff_ids := ARRAY[v_booking.staff_member_id] || ARRAY(
+    SELECT staff_member_id FROM booking_participants WHERE booking_id = p_booking_id
+  );
+
+  IF NOT p_from_staff_id = ANY(v_staff_ids) THEN
+    RAISE EXCEPTION 'Staff member is not on this booking' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_to_staff_id = ANY(v_staff_ids) THEN
+    RAISE EXCEPTION 'Staff member is already on this booking' USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  v_position := CASE WHEN v_booking.staff_member_id = p_from_staff_id THEN 'lead' ELSE 'participant' END;
+  v_resource_ids := ARRAY(SELECT resource_id FROM booking_resources WHERE booking_id = p_booking_id);
+
+  v_overbooked := lock_booking_slot(
+    v_booking.booking_date,
+    booking_window(
+      v_booking.booking_date, v_booking.booking_time, v_booking.booking_end_time,
+      v_booking.buffer_before_minutes, v_booking.buffer_after_minutes
+    ),
+    array_replace(v_staff_ids, p_from_staff_id, p_to_staff_id),
+    v_resource_ids,
+    p_booking_id,
+    NULL,
+    v_booking.source_service
+  );
+
+  IF v_position = 'participant' THEN
+    UPDATE booking_participants
+    SET staff_member_id = p_to_staff_id
+    WHERE booking_id = p_booking_id AND staff_member_id = p_from_staff_id;
+  END IF;
+
+  UPDATE external_bookings
+  SET staff_member_id = CASE WHEN v_position = 'lead' THEN p_to_staff_id ELSE staff_member_id END,
+      reassigned_from = jsonb_build_object(
+        'staff_member_id', p_from_staff_id,
+        'to_staff_member_id', p_to_staff_id,
+        'position', v_position,
+        'reason', p_reason,
+        'reassigned_at', NOW()
+      ),
+      is_overbooked = v_overbooked,
+      updated_at = NOW()
+  WHERE id = p_booking_id
+  RETURNING * INTO v_booking;
+
+  RETURN v_booking;
+END;
+$$;
+
+-- Change a staff member's day from a date without rewriting history: the blocks of the version
+-- being replaced end the day before (or are cancelled if they start on or after that date) and
+-- the new blocks start on that date. Fails if any of the old blocks changed in the meantime.
+CREATE OR REPLACE FUNCTION supersede_weekly_schedules(
+  p_schedule_ids UUID[],
+  p_effective_date DATE,
+  p_blocks JSONB, -- [{ staff_member_id, day_of_week, start_time, end_time, is_available, slot_duration_minutes, slot_interval_minutes, effective_until, previous_version_id, rota_pattern_id, cycle_week }]
+  p_reason TEXT DEFAULT NULL
+) RETURNS SETOF weekly_schedules
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_schedule weekly_schedules;
+  v_locked INTEGER := 0;
+BEGIN
+  FOR v_schedule IN
+    SELECT * FROM weekly_schedules WHERE id = ANY(p_schedule_ids) ORDER BY id FOR UPDATE
+  LOOP
+    IF NOT v_schedule.is_active
+       OR (v_schedule.effective_until IS NOT NULL AND v_schedule.effective_until < p_effective_date) THEN
+      RAISE EXCEPTION 'Schedule was changed by another request' USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE weekly_schedules
+    SET effective_until = CASE WHEN effective_from < p_effective_date THEN p_effective_date - 1 ELSE effective_until END,
+        is_active = effective_from < p_effective_date,
+        end_reason = p_reason,
+        updated_at = NOW()
+    WHERE id = v_schedule.id;
+
+    v_locked := v_locked + 1;
+  END LOOP;
+
+  IF v_locked <> COALESCE(array_length(p_schedule_ids, 1), 0) THEN
+    RAISE EXCEPTION 'Schedule was changed by another request' USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN QUERY
+  WITH inserted AS (
+    INSERT INTO weekly_schedules (
+      staff_member_id, day_of_week, start_time, end_time, is_available, slot_duration_minutes,
+      slot_interval_minutes, effective_from, effective_until, previous_version_id, change_reason,
+      rota_pattern_id, cycle_week
+    )
+    SELECT staff_member_id, day_of_week, start_time, end_time, is_available, slot_duration_minutes,
+           slot_interval_minutes, p_effective_date, effective_until, previous_version_id, p_reason,
+           rota_pattern_id, cycle_week
+    FROM jsonb_populate_recordset(NULL::weekly_schedules, p_blocks)
+    RETURNING *
+  )
+  SELECT * FROM inserted;
+END;
+$$;
+
+-- Create a series and all of its occurrences in one transaction: either every occurrence
+-- is booked or none is. A conflict keeps its error and names the occurrence date in DETAIL.
+CREATE OR REPLACE FUNCTION create_booking_series(
+  p_series JSONB,
+  p_occurrences JSONB -- [{ booking, participants, resource_ids }] in create_external_booking's format
+) RETURNS booking_series
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_series booking_series;
+  v_occurrence JSONB;
+BEGIN
+  INSERT INTO booking_series (
+    entity_platform_id, staff_member_id, external_series_id, source_service, recurrence_rule,
+    start_date, booking_time, appointment_type_id, mode, metadata
+  ) VALUES (
+    (p_series->>'entity_platform_id')::UUID,
+    (p_series->>'staff_member_id')::UUID,
+    p_series->>'external_series_id',
+    p_series->>'source_service',
+    p_series->>'recurrence_rule',
+    (p_series->>'start_date')::DATE,
+    (p_series->>'booking_time')::TIME,
+    (p_series->>'appointment_type_id')::UUID,
+    COALESCE(p_series->>'mode', 'all_or_nothing'),
+    p_series->'metadata'
+  )
+  RETURNING * INTO v_series;
+
+  FOR v_occurrence IN SELECT * FROM jsonb_array_elements(p_occurrences)
+  LOOP
+    BEGIN
+      PERFORM create_external_booking(
+        v_occurrence->'booking' || jsonb_build_object('series_id', v_series.id),
+        COALESCE(v_occurrence->'participants', '[]'),
+        ARRAY(SELECT value::UUID FROM jsonb_array_elements_text(COALESCE(v_occurrence->'resource_ids', '[]')))
+      );
+    EXCEPTION WHEN exclusion_violation OR unique_violation THEN
+      RAISE EXCEPTION USING
+        ERRCODE = SQLSTATE,
+        MESSAGE = SQLERRM,
+        DETAIL = v_occurrence->'booking'->>'booking_date';
+    END;
+  END LOOP;
+
+  RETURN v_series;
+END;
+$$;
+
+-- Move several bookings (e.g. the rest of a series) in one transaction: all or none
+CREATE OR REPLACE FUNCTION reschedule_booking_series(
+  p_moves JSONB -- [{ booking_id, booking_date, booking_time, booking_end_time }]
+) RETURNS SETOF external_bookings
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_move JSONB;
+BEGIN
+  FOR v_move IN SELECT * FROM jsonb_array_elements(p_moves)
+  LOOP
+    BEGIN
+      RETURN NEXT reschedule_external_booking(
+        (v_move->>'booking_id')::UUID,
+        (v_move->>'booking_date')::DATE,
+        (v_move->>'booking_time')::TIME,
+        (v_move->>'booking_end_time')::TIME
+      );
+    EXCEPTION WHEN exclusion_violation OR check_violation THEN
+      RAISE EXCEPTION USING
+        ERRCODE = SQLSTATE,
+        MESSAGE = SQLERRM,
+        DETAIL = v_move->>'booking_id';
+    END;
+  END LOOP;
+END;
+$$;
+
+-- Hold a time for a booking in progress, with the same locks and checks as booking creation
+CREATE OR REPLACE FUNCTION create_slot_hold(
+  p_hold JSONB
+) RETURNS slot_holds
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_hold slot_holds;
+  v_date DATE := (p_hold->>'booking_date')::DATE;
+  v_staff_ids UUID[];
+  v_resource_ids UUID[];
+BEGIN
+  v_staff_ids := ARRAY[(p_hold->>'staff_member_id')::UUID] || ARRAY(
+    SELECT value::UUID FROM jsonb_array_elements_text(COALESCE(p_hold->'participant_staff_ids', '[]'))
+  );
+  v_resource_ids := ARRAY(
+    SELECT value::UUID FROM jsonb_array_elements_text(COALESCE(p_hold->'resource_ids', '[]'))
+  );
+
+  PERFORM lock_booking_slot(
+    v_date,
+    booking_window(
+      v_date,
+      (p_hold->>'booking_time')::TIME,
+      (p_hold->>'booking_end_time')::TIME,
+      COALESCE((p_hold->>'buffer_before_minutes')::INTEGER, 0),
+      COALESCE((p_hold->>'buffer_after_minutes')::INTEGER, 0)
+    ),
+    v_staff_ids,
+    v_resource_ids,
+    NULL,
+    NULL,
+    p_hold->>'source_service'
+  );
+
+  INSERT INTO slot_holds (
+    entity_platform_id, staff_member_id, participant_staff_ids, resource_ids, appointment_type_id,
+    booking_date, booking_time, booking_end_time, duration_minutes,
+    buffer_before_minutes, buffer_after_minutes, source_service, expires_at
+  ) VALUES (
+    (p_hold->>'entity_platform_id')::UUID,
+    (p_hold->>'staff_member_id')::UUID,
+    v_staff_ids[2:],
+    v_resource_ids,
+    (p_hold->>'appointment_type_id')::UUID,
+    v_date,
+    (p_hold->>'booking_time')::TIME,
+    (p_hold->>'booking_end_time')::TIME,
+    (p_hold->>'duration_minutes')::INTEGER,
+    COALESCE((p_hold->>'buffer_before_minutes')::INTEGER, 0),
+    COALESCE((p_hold->>'buffer_after_minutes')::INTEGER, 0),
+    p_hold->>'source_service',
+    (p_hold->>'expires_at')::TIMESTAMPTZ
+  )
+  RETURNING * INTO v_hold;
+
+  RETURN v_hold;
+END;
+$$;
 
 -- ============================================================================
 -- ROW LEVEL SECURITY (RLS) POLICIES
@@ -174,6 +1257,26 @@ ALTER TABLE staff_members ENABLE ROW LEVEL SECURITY;
 ALTER TABLE weekly_schedules ENABLE ROW LEVEL SECURITY;
 ALTER TABLE schedule_exceptions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE external_bookings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE appointment_types ENABLE ROW LEVEL SECURITY;
+ALTER TABLE holiday_calendars ENABLE ROW LEVEL SECURITY;
+ALTER TABLE holiday_calendar_dates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE entity_holiday_calendars ENABLE ROW LEVEL SECURITY;
+ALTER TABLE booking_participants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE resources ENABLE ROW LEVEL SECURITY;
+ALTER TABLE resource_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE resource_exceptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE booking_resources ENABLE ROW LEVEL SECURITY;
+ALTER TABLE slot_holds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE booking_series ENABLE ROW LEVEL SECURITY;
+ALTER TABLE waitlist_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE overbooking_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rota_patterns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE schedule_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE schedule_template_blocks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE coverage_requirements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE waitlist_offers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
 
 -- Staff members: Only accessible by same entity
 CREATE POLICY "staff_members_entity_isolation" ON staff_members
@@ -191,14 +1294,10 @@ CREATE POLICY "weekly_schedules_entity_isolation" ON weekly_schedules
     )
   );
 
--- Schedule exceptions: Only accessible through staff member's entity
+-- Schedule exceptions: Only accessible by same entity (hospital-wide closures have no staff member)
 CREATE POLICY "schedule_exceptions_entity_isolation" ON schedule_exceptions
   FOR ALL USING (
-    EXISTS (
-      SELECT 1 FROM staff_members 
-      WHERE staff_members.id = schedule_exceptions.staff_member_id 
-      AND staff_members.entity_platform_id::text = auth.jwt() ->> 'entity_platform_id'
-    )
+    auth.jwt() ->> 'entity_platform_id' = entity_platform_id::text
   );
 
 -- External bookings: Only accessible by same entity
@@ -207,6 +1306,147 @@ CREATE POLICY "external_bookings_entity_isolation" ON external_bookings
     auth.jwt() ->> 'entity_platform_id' = entity_platform_id::text
   );
 
+-- Appointment types: Only accessible by same entity
+CREATE POLICY "appointment_types_entity_isolation" ON appointment_types
+  FOR ALL USING (
+    auth.jwt() ->> 'entity_platform_id' = entity_platform_id::text
+  );
+
+-- Holiday calendars: Shared calendars are readable by everyone, owned calendars only by their entity
+CREATE POLICY "holiday_calendars_entity_isolation" ON holiday_calendars
+  FOR ALL USING (
+    entity_platform_id IS NULL OR
+    auth.jwt() ->> 'entity_platform_id' = entity_platform_id::text
+  );
+
+CREATE POLICY "holiday_calendar_dates_entity_isolation" ON holiday_calendar_dates
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM holiday_calendars
+      WHERE holiday_calendars.id = holiday_calendar_dates.calendar_id
+      AND (
+        holiday_calendars.entity_platform_id IS NULL OR
+        holiday_calendars.entity_platform_id::text = auth.jwt() ->> 'entity_platform_id'
+      )
+    )
+  );
+
+CREATE POLICY "entity_holiday_calendars_entity_isolation" ON entity_holiday_calendars
+  FOR ALL USING (
+    auth.jwt() ->> 'entity_platform_id' = entity_platform_id::text
+  );
+
+-- Booking participants: Only accessible through the booking's entity
+CREATE POLICY "booking_participants_entity_isolation" ON booking_participants
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM external_bookings
+      WHERE external_bookings.id = booking_participants.booking_id
+      AND external_bookings.entity_platform_id::text = auth.jwt() ->> 'entity_platform_id'
+    )
+  );
+
+-- Resources: Only accessible by same entity; schedules, exceptions and claims through their resource
+CREATE POLICY "resources_entity_isolation" ON resources
+  FOR ALL USING (
+    auth.jwt() ->> 'entity_platform_id' = entity_platform_id::text
+  );
+
+CREATE POLICY "resource_schedules_entity_isolation" ON resource_schedules
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM resources
+      WHERE resources.id = resource_schedules.resource_id
+      AND resources.entity_platform_id::text = auth.jwt() ->> 'entity_platform_id'
+    )
+  );
+
+CREATE POLICY "resource_exceptions_entity_isolation" ON resource_exceptions
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM resources
+      WHERE resources.id = resource_exceptions.resource_id
+      AND resources.entity_platform_id::text = auth.jwt() ->> 'entity_platform_id'
+    )
+  );
+
+CREATE POLICY "booking_resources_entity_isolation" ON booking_resources
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM resources
+      WHERE resources.id = booking_resources.resource_id
+      AND resources.entity_platform_id::text = auth.jwt() ->> 'entity_platform_id'
+    )
+  );
+
+-- Booking series: Only accessible by same entity
+CREATE POLICY "booking_series_entity_isolation" ON booking_series
+  FOR ALL USING (
+    auth.jwt() ->> 'entity_platform_id' = entity_platform_id::text
+  );
+
+-- Slot holds: Only accessible by same entity
+CREATE POLICY "slot_holds_entity_isolation" ON slot_holds
+  FOR ALL USING (
+    auth.jwt() ->> 'entity_platform_id' = entity_platform_id::text
+  );
+
+-- Overbooking policies: Only accessible by same entity
+CREATE POLICY "overbooking_policies_entity_isolation" ON overbooking_policies
+  FOR ALL USING (
+    auth.jwt() ->> 'entity_platform_id' = entity_platform_id::text
+  );
+
+-- Rota patterns: Only accessible by same entity
+CREATE POLICY "rota_patterns_entity_isolation" ON rota_patterns
+  FOR ALL USING (
+    auth.jwt() ->> 'entity_platform_id' = entity_platform_id::text
+  );
+
+-- Schedule templates: Only accessible by same entity
+CREATE POLICY "schedule_templates_entity_isolation" ON schedule_templates
+  FOR ALL USING (
+    auth.jwt() ->> 'entity_platform_id' = entity_platform_id::text
+  );
+
+CREATE POLICY "schedule_template_blocks_entity_isolation" ON schedule_template_blocks
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM schedule_templates
+      WHERE schedule_templates.id = schedule_template_blocks.template_id
+      AND schedule_templates.entity_platform_id::text = auth.jwt() ->> 'entity_platform_id'
+    )
+  );
+
+-- Coverage requirements: Only accessible by same entity
+CREATE POLICY "coverage_requirements_entity_isolation" ON coverage_requirements
+  FOR ALL USING (
+    auth.jwt() ->> 'entity_platform_id' = entity_platform_id::text
+  );
+
+-- Waitlist entries: Only accessible by same entity
+CREATE POLICY "waitlist_entries_entity_isolation" ON waitlist_entries
+  FOR ALL USING (
+    auth.jwt() ->> 'entity_platform_id' = entity_platform_id::text
+  );
+
+-- Waitlist offers: Only accessible by same entity
+CREATE POLICY "waitlist_offers_entity_isolation" ON waitlist_offers
+  FOR ALL USING (
+    auth.jwt() ->> 'entity_platform_id' = entity_platform_id::text
+  );
+
+-- Webhook subscriptions and deliveries: Only accessible by same entity
+CREATE POLICY "webhook_subscriptions_entity_isolation" ON webhook_subscriptions
+  FOR ALL USING (
+    auth.jwt() ->> 'entity_platform_id' = entity_platform_id::text
+  );
+
+CREATE POLICY "webhook_deliveries_entity_isolation" ON webhook_deliveries
+  FOR ALL USING (
+    auth.jwt() ->> 'entity_platform_id' = entity_platform_id::text
+  );
+
 -- ============================================================================
 -- SAMPLE DATA for testing
 -- ============================================================================
@@ -229,11 +1469,47 @@ VALUES (
 
 COMMENT ON TABLE staff_members IS 'Staff members who can take appointments and have schedules';
 COMMENT ON TABLE weekly_schedules IS 'Regular weekly working hours for staff members';
+COMMENT ON TABLE rota_patterns IS 'Multi-week rotations (e.g. alternate weekends); their blocks are weekly_schedules rows with rota_pattern_id and cycle_week set';
+COMMENT ON TABLE schedule_templates IS 'Named weeks of blocks applied to many staff members by POST /api/schedule-templates/{id}/apply; applied blocks are ordinary weekly_schedules rows';
+COMMENT ON TABLE coverage_requirements IS 'Minimum and maximum staff on duty per role, weekday and time band; each requirement is checked on its own';
 COMMENT ON TABLE schedule_exceptions IS 'Exceptions to regular schedules (holidays, sick days, etc.)';
 COMMENT ON TABLE external_bookings IS 'Appointments booked from external systems like HMS';
+COMMENT ON TABLE appointment_types IS 'Per-hospital appointment catalog: duration, eligible roles and buffers used by slot search and booking';
+COMMENT ON TABLE holiday_calendars IS 'Named public holiday calendars; shared (entity_platform_id NULL) or owned by a hospital';
+COMMENT ON TABLE holiday_calendar_dates IS 'Holidays on a calendar; close the hospital for every staff member';
+COMMENT ON TABLE entity_holiday_calendars IS 'Holiday calendars assigned to each hospital';
+COMMENT ON TABLE booking_participants IS 'Additional staff on team bookings; they are busy for the booking exactly like the booked staff member';
+COMMENT ON TABLE resources IS 'Rooms and equipment that bookings can claim alongside a staff member';
+COMMENT ON TABLE resource_schedules IS 'Weekly availability for resources; resources without rows are always available';
+COMMENT ON TABLE resource_exceptions IS 'Resource downtime such as maintenance';
+COMMENT ON TABLE booking_resources IS 'Resources claimed by each booking';
+COMMENT ON TABLE booking_series IS 'Recurring booking series; occurrences are external_bookings rows with series_id set and can be cancelled or moved one by one';
+COMMENT ON TABLE slot_holds IS 'Temporary reservations during checkout; only status held with expires_at in the future blocks the time';
+COMMENT ON TABLE overbooking_policies IS 'Per-role overbooking: concurrent bookings per staff member, a daily limit on overbooked bookings and the services allowed to overbook';
+COMMENT ON TABLE waitlist_entries IS 'Waitlist interest; status offered while a pending offer holds a slot for it, back to waiting if the offer is declined or expires';
+COMMENT ON TABLE waitlist_offers IS 'Offer events: a held slot proposed to a waitlist entry, booked by passing the hold token to POST /api/slots/book';
+COMMENT ON TABLE webhook_subscriptions IS 'Outbound webhooks: roster events POSTed to an external URL, signed with the subscription secret';
+COMMENT ON TABLE webhook_deliveries IS 'Webhook delivery log: one row per event per subscription with the attempts made; replays are new rows with replay_of set';
 
+COMMENT ON COLUMN hospital_master.timezone IS 'IANA timezone used for schedules, slots and bookings (wall-clock times are local to this zone)';
 COMMENT ON COLUMN staff_members.entity_platform_id IS 'Links to hospital_master.entity_platform_id for multi-tenancy';
 COMMENT ON COLUMN staff_members.slot_duration_minutes IS 'Default appointment duration for this staff member';
 COMMENT ON COLUMN weekly_schedules.day_of_week IS '0=Sunday, 1=Monday, 2=Tuesday, 3=Wednesday, 4=Thursday, 5=Friday, 6=Saturday';
-COMMENT ON COLUMN schedule_exceptions.exception_type IS 'Types: holiday, sick_leave, vacation, special_hours, unavailable';
-COMMENT ON COLUMN external_bookings.source_service IS 'Which microservice created this booking (ff-hms, ff-pa, etc.)';
\ No newline at end of file
+COMMENT ON COLUMN weekly_schedules.slot_interval_minutes IS 'Minutes between possible slot start times, independent of appointment duration';
+COMMENT ON COLUMN weekly_schedules.is_available IS 'true = working block, false = break (e.g. lunch) inside the working blocks. A day may have several blocks';
+COMMENT ON COLUMN weekly_schedules.end_time IS 'Before start_time for overnight blocks; the part after midnight belongs to the start date''s version and cycle week';
+COMMENT ON COLUMN schedule_exceptions.exception_type IS 'Types: holiday, sick_leave, personal_leave, emergency, training, custom (legacy: unavailable). All block their window unless is_available is true';
+COMMENT ON COLUMN schedule_exceptions.staff_member_id IS 'NULL = hospital-wide closure that applies to every staff member of the entity';
+COMMENT ON COLUMN schedule_exceptions.is_available IS 'true = start_time-end_time are extra working hours outside the weekly schedule';
+COMMENT ON COLUMN external_bookings.buffer_before_minutes IS 'Staff are also busy for this long before booking_time (and buffer_after_minutes after booking_end_time)';
+COMMENT ON COLUMN external_bookings.booking_end_time IS 'Before booking_time when the booking runs past midnight; it then ends on the day after booking_date';
+COMMENT ON COLUMN external_bookings.source_service IS 'Which microservice created this booking (ff-hms, ff-pa, etc.)';
+COMMENT ON COLUMN appointment_types.required_resource_types IS 'Resource types slot search and booking must find free for the whole appointment, buffers included';
+COMMENT ON COLUMN external_bookings.status IS 'active -> cancelled | completed | no_show; the last three are final. Changed through POST /api/bookings/status';
+COMMENT ON COLUMN external_bookings.hold_id IS 'Hold this booking confirmed, if it was booked through the hold flow';
+COMMENT ON COLUMN external_bookings.overridden_rules IS 'Set only when a booking was made outside working hours, exceptions or closures with an override; override_reason and override_by record why and who';
+COMMENT ON COLUMN external_bookings.is_overbooked IS 'Set by lock_booking_slot when the booking overlaps existing bookings or holds of a staff member; counted against overbooking_policies.max_overbooked_per_day';
+COMMENT ON COLUMN webhook_deliveries.next_attempt_at IS 'Retries back off after each failed attempt; POST /api/webhooks/deliveries/retry sends the ones that are due';
+COMMENT ON COLUMN external_bookings.reassigned_from IS 'Set by reassign_external_booking when a booking moves to another staff member, e.g. after a sick_leave exception';
+COMMENT ON COLUMN weekly_schedules.previous_version_id IS 'Versions are never overwritten: PATCH/DELETE /api/schedules/{id} end the current version and link the replacement here';
+COMMENT ON COLUMN rota_patterns.anchor_date IS 'Cycle week 1 starts on this date; the cycle repeats every cycle_weeks * 7 days in both directions';
\ No newline at end of file